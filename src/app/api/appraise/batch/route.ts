@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { appraiseBatch, uniqueBatchDomains, BATCH_MAX_DOMAINS } from '../../../../lib/batch-appraisal'
+import { parseDomainList, isValidDomainFormat } from '../../../../lib/domain-input'
+import { checkRateLimit, getClientIp, RATE_LIMIT } from '../../../../lib/rate-limiter'
+import { getWeightOptionsError } from '../../../../lib/weight-profiles'
+import { getCurrencyOptionsError } from '../../../../lib/exchange-rates'
+import type { AppraisalOptions } from '../../../../types'
+import '../../../../app/startup' // Ensure database is initialized
+
+export async function POST(request: NextRequest) {
+  try {
+    // Accept either JSON ({ domains, options }) or an uploaded CSV/TXT file
+    let domains: string[] = []
+    let options: AppraisalOptions = {}
+
+    const contentType = request.headers.get('content-type') || ''
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'A CSV or TXT file is required in the "file" field' },
+          { status: 400 }
+        )
+      }
+      domains = parseDomainList(await file.text())
+
+      const rawOptions = formData.get('options')
+      if (typeof rawOptions === 'string' && rawOptions.trim()) {
+        try {
+          options = JSON.parse(rawOptions)
+        } catch {
+          return NextResponse.json(
+            { error: 'The "options" field must be a JSON object' },
+            { status: 400 }
+          )
+        }
+      }
+    } else {
+      let body
+      try {
+        body = await request.json()
+      } catch {
+        return NextResponse.json(
+          { error: 'The request body must be JSON or a multipart file upload' },
+          { status: 400 }
+        )
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return NextResponse.json(
+          { error: 'The request body must be a JSON object' },
+          { status: 400 }
+        )
+      }
+      if (Array.isArray(body.domains)) {
+        domains = body.domains.filter((domain: unknown): domain is string => typeof domain === 'string')
+      } else if (typeof body.domains === 'string') {
+        domains = parseDomainList(body.domains)
+      }
+      options = body.options || {}
+    }
+
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return NextResponse.json(
+        { error: 'Options must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    domains = uniqueBatchDomains(domains)
+    if (domains.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one domain name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (domains.length > BATCH_MAX_DOMAINS) {
+      return NextResponse.json(
+        { error: `Batch too large. A maximum of ${BATCH_MAX_DOMAINS} domains can be appraised per request.` },
+        { status: 413 }
+      )
+    }
+
+    const weightError = getWeightOptionsError(options)
+    if (weightError) {
+      return NextResponse.json(
+        { error: weightError },
+        { status: 400 }
+      )
+    }
+
+    const currencyError = getCurrencyOptionsError(options)
+    if (currencyError) {
+      return NextResponse.json(
+        { error: currencyError },
+        { status: 400 }
+      )
+    }
+
+    if (!domains.some(isValidDomainFormat)) {
+      return NextResponse.json(
+        { error: 'None of the submitted names is a valid domain' },
+        { status: 400 }
+      )
+    }
+
+    // Rate limiting - a batch with at least one valid name counts as one evaluation
+    const ip = getClientIp(request.headers)
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+    const rateLimit = checkRateLimit(ip, userAgent)
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: `Rate limit exceeded. You have reached the maximum of ${RATE_LIMIT} evaluations per hour.`,
+          retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000)
+        },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Limit': RATE_LIMIT.toString(),
+            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+            'X-RateLimit-Reset': rateLimit.resetTime.toString()
+          }
+        }
+      )
+    }
+
+    const result = await appraiseBatch(domains, options)
+
+    return NextResponse.json(result, {
+      headers: {
+        'X-RateLimit-Limit': RATE_LIMIT.toString(),
+        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+        'X-RateLimit-Reset': rateLimit.resetTime.toString()
+      }
+    })
+  } catch (error) {
+    console.error('Batch evaluation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate domains' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { appraiseWithCache } from '../../../../lib/appraisal-cache'
+import { normalizeDomainInput, isValidDomainFormat } from '../../../../lib/domain-input'
+import { checkRateLimit, getClientIp, RATE_LIMIT } from '../../../../lib/rate-limiter'
+import { FACTOR_ORDER } from '../../../../lib/valuation'
+import { getWeightOptionsError } from '../../../../lib/weight-profiles'
+import { getCurrencyOptionsError } from '../../../../lib/exchange-rates'
+import type { AppraisalOptions, AppraisalStreamEvent } from '../../../../types'
+import '../../../../app/startup' // Ensure database is initialized
+
+// Streaming variant of /api/appraise using Server-Sent Events.
+// Emits `start`, then one `factor` event per breakdown row as it resolves,
+// then `complete` with the full appraisal (or `error`).
+export async function POST(request: NextRequest) {
+  const ip = getClientIp(request.headers)
+  const userAgent = request.headers.get('user-agent') || 'unknown'
+  const rateLimit = checkRateLimit(ip, userAgent)
+
+  const rateLimitHeaders = {
+    'X-RateLimit-Limit': RATE_LIMIT.toString(),
+    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+    'X-RateLimit-Reset': rateLimit.resetTime.toString()
+  }
+
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      {
+        error: `Rate limit exceeded. You have reached the maximum of ${RATE_LIMIT} evaluations per hour.`,
+        retryAfter: Math.ceil((rateLimit.resetTime - Date.now()) / 1000)
+      },
+      { status: 429, headers: rateLimitHeaders }
+    )
+  }
+
+  let domain: unknown
+  let options: AppraisalOptions = {}
+  try {
+    const body = await request.json()
+    domain = body.domain
+    options = body.options || {}
+  } catch {
+    return NextResponse.json(
+      { error: 'Valid domain name is required' },
+      { status: 400 }
+    )
+  }
+
+  if (!domain || typeof domain !== 'string') {
+    return NextResponse.json(
+      { error: 'Valid domain name is required' },
+      { status: 400 }
+    )
+  }
+
+  const cleanDomain = normalizeDomainInput(domain)
+  if (!isValidDomainFormat(cleanDomain)) {
+    return NextResponse.json(
+      { error: 'Invalid domain format' },
+      { status: 400 }
+    )
+  }
+
+  const weightError = getWeightOptionsError(options)
+  if (weightError) {
+    return NextResponse.json(
+      { error: weightError },
+      { status: 400 }
+    )
+  }
+
+  const currencyError = getCurrencyOptionsError(options)
+  if (currencyError) {
+    return NextResponse.json(
+      { error: currencyError },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+
+  // Set once the client goes away; the appraisal still finishes (and is cached) but nothing more is sent
+  let closed = false
+  request.signal.addEventListener('abort', () => { closed = true })
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = ({ event, data }: AppraisalStreamEvent) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        send({ event: 'start', data: { domain: cleanDomain, factors: FACTOR_ORDER } })
+
+        const { appraisal, cached } = await appraiseWithCache(cleanDomain, options, factor => send({ event: 'factor', data: factor }))
+
+        send({ event: 'complete', data: { ...appraisal, cached } })
+      } catch (error) {
+        console.error('Streaming domain evaluation error:', error)
+        send({ event: 'error', data: { error: 'Failed to evaluate domain' } })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      ...rateLimitHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  })
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getSupabaseClient } from '../../../lib/database'
+import { getStorage } from '../../../lib/database'
 import { generateValuationPDF, generateBasicPDF } from '../../../lib/pdf-generator'
+import { getCurrencyOptionsError, localizeAppraisal } from '../../../lib/exchange-rates'
 import '../../../app/startup' // Ensure database is initialized
 
 export async function POST(request: NextRequest) {
   try {
-    const { domain } = await request.json()
+    const { domain, currency, locale } = await request.json()
     
     if (!domain) {
       return NextResponse.json(
@@ -14,27 +15,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const currencyError = getCurrencyOptionsError({ currency, locale })
+    if (currencyError) {
+      return NextResponse.json(
+        { error: currencyError },
+        { status: 400 }
+      )
+    }
+
     // Get latest appraisal for this domain from database
     let appraisalData = null
     try {
-      const supabase = await getSupabaseClient()
-      
-      const { data: results, error } = await supabase
-        .from('appraisals')
-        .select('*')
-        .eq('domain', domain)
-        .order('created_at', { ascending: false })
-        .limit(1)
-      
-      if (error) throw error
-      
-      appraisalData = results && results.length > 0 ? results[0] : null
+      appraisalData = await getStorage().appraisals.findLatest(domain)
     } catch (dbError) {
       console.error('Failed to fetch appraisal:', dbError)
     }
 
     // Generate PDF report
-    const pdfBuffer = appraisalData ? generateValuationPDF(appraisalData) : generateBasicPDF(domain)
+    const pdfBuffer = appraisalData
+      ? generateValuationPDF(localizeAppraisal(appraisalData, { currency, locale }), locale)
+      : generateBasicPDF(domain)
 
     return new NextResponse(pdfBuffer as BodyInit, {
       headers: {
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { WEIGHT_PROFILES, DEFAULT_PROFILE } from '../../../lib/weight-profiles'
+
+// Lists the named weight profiles accepted in AppraisalOptions.weightProfile
+export async function GET() {
+  return NextResponse.json({
+    defaultProfile: DEFAULT_PROFILE,
+    profiles: Object.values(WEIGHT_PROFILES)
+  })
+}
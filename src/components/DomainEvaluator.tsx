@@ -2,19 +2,71 @@
 
 import React, { useState, useEffect } from "react";
 import { Search, Reload, Check, Analytics, Download } from "@nsmr/pixelart-react";
-import type { DomainAppraisal } from "../types";
+import type { AppraisalStreamEvent, DomainAppraisal, FactorBreakdown } from "../types";
 import DomainResults from "./DomainResults";
 
 const SEARCH_LIMIT = 3;
 const STORAGE_KEY = 'domainosaur_searches';
 const CACHE_KEY = 'domainosaur_cache';
 
+// Read a Server-Sent Events response body, calling onEvent for each event
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (message: AppraisalStreamEvent) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+
+    for (const message of messages) {
+      let event = "message";
+      let data = "";
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (data) onEvent({ event, data: JSON.parse(data) } as AppraisalStreamEvent);
+    }
+  }
+}
+
+// Partial appraisal shown while the remaining factors are still resolving
+function createProvisionalResult(domain: string, breakdown: FactorBreakdown[]): DomainAppraisal {
+  return {
+    domain,
+    finalScore: breakdown.reduce((sum, factor) => sum + factor.contribution, 0),
+    bracket: "",
+    priceEstimate: {
+      investor: "...",
+      retail: "...",
+      investorAmount: 0,
+      retailAmount: 0,
+      currency: "USD",
+      explanation: "",
+    },
+    breakdown,
+    legalFlag: "clear",
+    aiComment: "",
+  };
+}
+
 export default function DomainEvaluator() {
   const [domain, setDomain] = useState("");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<DomainAppraisal | null>(null);
   const [error, setError] = useState("");
   const [searchCount, setSearchCount] = useState(0);
+  const [pendingFactors, setPendingFactors] = useState<string[]>([]);
+  // Looking the name up on other TLDs adds a few seconds, so it is opt-in
+  const [checkExtensions, setCheckExtensions] = useState(false);
 
   // Initialize search count from localStorage on component mount
   useEffect(() => {
@@ -115,7 +167,7 @@ export default function DomainEvaluator() {
     
     // Check cache first
     const cachedResult = getCachedResult(domainName);
-    if (cachedResult) {
+    if (cachedResult && (!checkExtensions || cachedResult.extensionLandscape)) {
       setResult(cachedResult);
       setError("");
       return;
@@ -126,20 +178,20 @@ export default function DomainEvaluator() {
     setResult(null);
 
     try {
-      const response = await fetch("/api/appraise", {
+      const response = await fetch("/api/appraise/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           domain: domainName,
-          options: { useComps: true },
+          // Server formats the price strings for the browser's locale
+          options: { useComps: true, checkExtensions, locale: navigator.language },
         }),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data = await response.json();
         if (response.status === 429) {
           setError(
             `Rate limit exceeded. You can try again in ${Math.ceil(data.retryAfter / 60)} minutes.`,
@@ -150,6 +202,34 @@ export default function DomainEvaluator() {
         return;
       }
 
+      // Fill in the results panel as each factor resolves
+      let factorOrder: string[] = [];
+      let breakdown: FactorBreakdown[] = [];
+      let data: DomainAppraisal | null = null;
+
+      await readEventStream(response.body, (message) => {
+        if (message.event === "start") {
+          factorOrder = message.data.factors;
+          setPendingFactors(message.data.factors);
+          setResult(createProvisionalResult(message.data.domain, []));
+        } else if (message.event === "factor") {
+          const resolved = message.data;
+          breakdown = [...breakdown, resolved].sort(
+            (a, b) => factorOrder.indexOf(a.factor) - factorOrder.indexOf(b.factor),
+          );
+          setPendingFactors((pending) => pending.filter((factor) => factor !== resolved.factor));
+          setResult(createProvisionalResult(domainName, breakdown));
+        } else if (message.event === "complete") {
+          data = message.data;
+        } else if (message.event === "error") {
+          throw new Error(message.data.error);
+        }
+      });
+
+      if (!data) {
+        throw new Error("Evaluation stream ended unexpectedly");
+      }
+
       setResult(data);
       saveToCache(domainName, data);
       
@@ -164,9 +244,11 @@ export default function DomainEvaluator() {
         updateSearchCount(usedCount);
       }
     } catch (err) {
+      setResult(null);
       setError("Failed to evaluate domain. Please try again.");
       console.error("Evaluation error:", err);
     } finally {
+      setPendingFactors([]);
       setLoading(false);
     }
   };
@@ -200,6 +282,16 @@ export default function DomainEvaluator() {
             </button>
           </div>
 
+          <label className="flex items-center gap-2 text-sm text-brand-secondary">
+            <input
+              type="checkbox"
+              checked={checkExtensions}
+              onChange={(e) => setCheckExtensions(e.target.checked)}
+              disabled={loading}
+            />
+            Also check this name on other extensions (slower)
+          </label>
+
           <div className="flex justify-between items-center text-sm text-brand-secondary">
             <span>Daily searches used: {searchCount}/{SEARCH_LIMIT}</span>
             <span className="text-xs">
@@ -214,7 +306,9 @@ export default function DomainEvaluator() {
         </form>
       </div>
 
-      {result && <DomainResults result={result} />}
+      {result && (
+        <DomainResults result={result} streaming={loading} pendingFactors={pendingFactors} />
+      )}
     </div>
   );
 }
@@ -4,12 +4,18 @@ import React from "react";
 import { Download, Analytics, Check, Close, Scale, Dollar, Coin, Calculator, Trophy, Teach, Checklist, Anchor } from "@nsmr/pixelart-react";
 import type { DomainAppraisal } from "../types";
 import WhoisCard from "./WhoisCard";
+import TLDCard from "./TLDCard";
+import { formatPriceRange, describeDataQualityInput } from "../lib/data-quality";
+import { formatPrice } from "../lib/currency";
+import { formatReason } from "../lib/factor-reasons";
 
 interface DomainResultsProps {
   result: DomainAppraisal;
+  streaming?: boolean; // Factors are still arriving from the streaming endpoint
+  pendingFactors?: string[];
 }
 
-export default function DomainResults({ result }: DomainResultsProps) {
+export default function DomainResults({ result, streaming = false, pendingFactors = [] }: DomainResultsProps) {
   const getLegalIcon = () => {
     switch (result.legalFlag) {
       case "clear":
@@ -36,6 +42,10 @@ export default function DomainResults({ result }: DomainResultsProps) {
     }
   };
 
+  // Matched brand and technique, when the trademark check found one
+  const legalDescription = result.breakdown.find((factor) => factor.factor === "legal")?.description;
+  const legalDetail = result.legalFlag !== "clear" ? legalDescription?.replace(/^[A-Z]+: /, "") : undefined;
+
   const downloadReport = async () => {
     try {
       const response = await fetch("/api/report", {
@@ -43,7 +53,11 @@ export default function DomainResults({ result }: DomainResultsProps) {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ domain: result.domain }),
+        body: JSON.stringify({
+          domain: result.domain,
+          currency: result.priceEstimate.currency,
+          locale: navigator.language,
+        }),
       });
 
       if (response.ok) {
@@ -76,19 +90,50 @@ export default function DomainResults({ result }: DomainResultsProps) {
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
             <h2 className="text-3xl font-bold text-brand-primary mb-2">
-              {result.domain}
+              {result.idn?.unicode ?? result.domain}
             </h2>
+            {result.idn && (
+              <div className="text-sm text-brand-secondary mb-2">
+                <span className="font-mono">{result.idn.ascii}</span>
+                {` · Script: ${result.idn.scripts.join(", ") || "none"}`}
+                {result.idn.homograph && (
+                  <div className="font-bold">
+                    Warning: looks like "{result.idn.lookalike}" but uses non-Latin letters (homograph)
+                  </div>
+                )}
+                {!result.idn.homograph && result.idn.mixedScript && (
+                  <div className="font-bold">Warning: mixes scripts, which browsers may display as punycode</div>
+                )}
+              </div>
+            )}
+            {(result.pattern || (result.words && result.words.length > 1)) && (
+              <div className="text-sm text-brand-secondary mb-2">
+                {result.pattern && <span className="uppercase">Pattern: {result.pattern}</span>}
+                {result.pattern && result.words && result.words.length > 1 && " · "}
+                {result.words && result.words.length > 1 && `Words: ${result.words.join(" + ")}`}
+              </div>
+            )}
             <div className="flex items-center gap-2 text-lg">
               <Dollar className="h-5 w-5 text-brand-primary" />
               <span className="font-bold text-brand-primary">
-                {result.priceEstimate.investor} - {result.priceEstimate.retail}
+                {streaming
+                  ? "Calculating price estimate..."
+                  : `${result.priceEstimate.investor} - ${result.priceEstimate.retail}`}
               </span>
             </div>
+            {!streaming && result.priceEstimate.range && (
+              <div className="text-sm text-brand-secondary mt-1">
+                Likely range: {formatPriceRange(result.priceEstimate.range, result.priceEstimate.currency)}
+                {result.dataQuality && ` · ${result.dataQuality.confidence}% confidence`}
+              </div>
+            )}
           </div>
           <div className="text-brand-primary p-2 rounded">
             <div className="flex items-center gap-2 mb-2">
               <Check className="h-5 w-5" />
-              <span className="text-sm text-brand-primary font-bold">Final Score</span>
+              <span className="text-sm text-brand-primary font-bold">
+                {streaming ? "Running Score" : "Final Score"}
+              </span>
             </div>
             <div className="text-3xl font-bold text-center">
               {result.finalScore.toFixed(1)}/100
@@ -110,7 +155,7 @@ export default function DomainResults({ result }: DomainResultsProps) {
           <span className="text-lg font-bold">AI ANALYSIS</span>
         </div>
         <p className="text-brand-primary font-medium leading-relaxed">
-          {result.aiComment}
+          {result.aiComment || (streaming ? "Waiting for AI analysis..." : "")}
         </p>
       </div>
 
@@ -123,13 +168,15 @@ export default function DomainResults({ result }: DomainResultsProps) {
             <Checklist className="h-6 w-6" />
             <span className="text-lg font-bold">VALUATION FACTORS</span>
           </div>
-          <button
-            onClick={downloadReport}
-            className="btn-primary text-xs flex items-center gap-1 bg-white text-brand-primary border-brand-primary hover:bg-brand-surface"
-          >
-            <Download className="h-4 w-4" />
-            DOWNLOAD PDF
-          </button>
+          {!streaming && (
+            <button
+              onClick={downloadReport}
+              className="btn-primary text-xs flex items-center gap-1 bg-white text-brand-primary border-brand-primary hover:bg-brand-surface"
+            >
+              <Download className="h-4 w-4" />
+              DOWNLOAD PDF
+            </button>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -155,73 +202,157 @@ export default function DomainResults({ result }: DomainResultsProps) {
               <div className="text-xs text-brand-secondary">
                 Contribution: {factor.contribution.toFixed(1)} points
               </div>
+              {factor.reasons && factor.reasons.length > 0 && (
+                <details className="text-xs text-brand-secondary">
+                  <summary className="cursor-pointer">Why this score</summary>
+                  <ul className="mt-1 ml-4 list-disc space-y-0.5">
+                    {factor.reasons.map((reason, reasonIndex) => (
+                      <li key={reasonIndex}>{formatReason(reason)}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+          {pendingFactors.map((factor) => (
+            <div key={factor} className="space-y-2 opacity-60">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium capitalize">
+                  {factor}
+                </span>
+                <span className="text-sm text-brand-secondary">Analyzing...</span>
+              </div>
+              <div className="factor-bar" />
             </div>
           ))}
         </div>
       </div>
 
-      {/* Whois Data Card */}
-      {result.whoisData && <WhoisCard whoisData={result.whoisData} />}
+      {/* Remaining sections need the complete appraisal */}
+      {!streaming && (
+        <>
+          {/* Whois Data Card */}
+          {result.whoisData && <WhoisCard whoisData={result.whoisData} />}
+
+          {/* TLD Details */}
+          {result.tld && <TLDCard tld={result.tld} holdingCost={result.holdingCost} />}
+
+          {/* Extension Landscape */}
+          {result.extensionLandscape && (
+            <div className="card">
+              <h3 className="text-lg font-semibold mb-3">Extension Landscape</h3>
+              <p className="text-sm text-brand-secondary mb-3">{result.extensionLandscape.explanation}</p>
+              <div className="space-y-2">
+                {result.extensionLandscape.checked.map((check) => (
+                  <div
+                    key={check.domain}
+                    className="flex justify-between items-center py-1 border-b border-gray-100 last:border-b-0 text-sm"
+                  >
+                    <span className="font-medium">{check.domain}</span>
+                    <span className="text-brand-secondary">
+                      {check.status === "registered"
+                        ? `Registered · ${check.usage === "active" ? "in use" : "parked"}`
+                        : check.status === "available"
+                          ? "Available"
+                          : "Unknown"}
+                      {check.registrationDate && ` · since ${check.registrationDate.slice(0, 4)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
       
 
 
-      {/* Legal Status */}
-      <div className="card">
-        <div className="retro-header flex items-center gap-3 mb-4">
-          <Anchor className="h-6 w-6" />
-          <span className="text-lg font-bold">LEGAL STATUS</span>
-        </div>
-        <div className="flex items-center gap-3">
-          {getLegalIcon()}
-          <div>
-            <p className="text-brand-primary font-medium">{getLegalText()}</p>
+          {/* Legal Status */}
+          <div className="card">
+            <div className="retro-header flex items-center gap-3 mb-4">
+              <Anchor className="h-6 w-6" />
+              <span className="text-lg font-bold">LEGAL STATUS</span>
+            </div>
+            <div className="flex items-center gap-3">
+              {getLegalIcon()}
+              <div>
+                <p className="text-brand-primary font-medium">{getLegalText()}</p>
+                {legalDetail && <p className="text-sm text-brand-secondary">{legalDetail}</p>}
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      {/* Comparable Sales */}
-      {result.comps && result.comps.length > 0 && (
-        <div className="card">
-          <h3 className="text-lg font-semibold mb-4">Comparable Sales</h3>
-          <div className="space-y-3">
-            {result.comps.map((comp, index) => (
-              <div
-                key={index}
-                className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0"
-              >
-                <div>
-                  <span className="font-medium">{comp.domain}</span>
-                  <span className="text-sm text-brand-secondary ml-2">
-                    ({comp.soldDate})
-                  </span>
-                </div>
-                <div className="text-right">
-                  <div className="font-medium">
-                    ${comp.soldPrice.toLocaleString()}
-                  </div>
-                  <div className="text-xs text-brand-secondary">
-                    {comp.source}
+          {/* Comparable Sales */}
+          {result.comps && result.comps.length > 0 && (
+            <div className="card">
+              <h3 className="text-lg font-semibold mb-4">Comparable Sales</h3>
+              <div className="space-y-3">
+                {result.comps.map((comp, index) => (
+                  <div
+                    key={index}
+                    className="flex justify-between items-center py-2 border-b border-gray-100 last:border-b-0"
+                  >
+                    <div>
+                      <span className="font-medium">{comp.domain}</span>
+                      <span className="text-sm text-brand-secondary ml-2">
+                        ({comp.soldDate})
+                      </span>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-medium">
+                        {formatPrice(comp.soldPrice, result.priceEstimate.currency)}
+                      </div>
+                      <div className="text-xs text-brand-secondary">
+                        {comp.source}
+                        {comp.synthetic && " · estimated"}
+                      </div>
+                    </div>
                   </div>
-                </div>
+                ))}
               </div>
-            ))}
+            </div>
+          )}
+
+          {/* Price Explanation */}
+          <div className="card">
+            <h3 className="text-lg font-semibold mb-3">Valuation Explanation</h3>
+            <div className="text-sm text-brand-secondary space-y-2">
+              <p>
+                <strong>Investor Price:</strong> {result.priceEstimate.investor}
+              </p>
+              <p>
+                <strong>Retail Price:</strong> {result.priceEstimate.retail}
+              </p>
+              {result.priceEstimate.range && (
+                <p>
+                  <strong>Likely Range:</strong> {formatPriceRange(result.priceEstimate.range, result.priceEstimate.currency)}
+                </p>
+              )}
+              <p className="mt-3">{result.priceEstimate.explanation}</p>
+            </div>
           </div>
-        </div>
-      )}
 
-      {/* Price Explanation */}
-      <div className="card">
-        <h3 className="text-lg font-semibold mb-3">Valuation Explanation</h3>
-        <div className="text-sm text-brand-secondary space-y-2">
-          <p>
-            <strong>Investor Price:</strong> {result.priceEstimate.investor}
-          </p>
-          <p>
-            <strong>Retail Price:</strong> {result.priceEstimate.retail}
-          </p>
-          <p className="mt-3">{result.priceEstimate.explanation}</p>
-        </div>
-      </div>
+          {/* Data Quality */}
+          {result.dataQuality && (
+            <div className="card">
+              <h3 className="text-lg font-semibold mb-3">Data Quality</h3>
+              <div className="flex items-center gap-3 mb-3">
+                <span className="text-sm font-medium">Confidence</span>
+                <div className="factor-bar flex-1">
+                  <div
+                    className="factor-progress"
+                    style={{ width: `${result.dataQuality.confidence}%` }}
+                  />
+                </div>
+                <span className="text-sm font-bold">{result.dataQuality.confidence}/100</span>
+              </div>
+              <ul className="text-xs text-brand-secondary space-y-1">
+                {result.dataQuality.inputs.map((entry) => (
+                  <li key={entry.input}>{describeDataQualityInput(entry)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,109 @@
+"use client";
+
+import React from "react";
+import { Analytics, Calculator, Check, Close, Coin, Scale } from "@nsmr/pixelart-react";
+import type { HoldingCost, TLDMetadata } from "../types";
+import { formatPrice, BASE_CURRENCY } from "../lib/currency";
+
+interface TLDCardProps {
+  tld: TLDMetadata;
+  holdingCost?: HoldingCost;
+}
+
+const TYPE_LABELS: Record<TLDMetadata["type"], string> = {
+  generic: "Generic (open to anyone)",
+  ccTLD: "Country code",
+  brand: "Brand TLD (registry use only)",
+  restricted: "Restricted (eligibility required)"
+};
+
+const REPUTATION_LABELS: Record<TLDMetadata["reputation"], string> = {
+  good: "Good - rarely associated with abuse",
+  neutral: "Neutral",
+  poor: "Poor - high share of spam and phishing, often filtered"
+};
+
+export default function TLDCard({ tld, holdingCost }: TLDCardProps) {
+  // Registry prices are kept in USD; the holding cost follows the appraisal's currency
+  const usd = (amount: number) => formatPrice(amount, BASE_CURRENCY);
+
+  return (
+    <div className="card">
+      <div className="retro-header flex items-center gap-3 mb-4">
+        <Analytics className="h-6 w-6" />
+        <span className="text-lg font-bold">.{tld.tld.toUpperCase()} DETAILS</span>
+      </div>
+
+      {!tld.known && (
+        <p className="text-xs text-brand-secondary mb-4">
+          This TLD is not in the metadata table; the figures below are typical defaults for its kind.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="flex items-start gap-3">
+          <Scale className="h-5 w-5 text-brand-primary mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-brand-primary">Type</p>
+            <p className="text-sm text-brand-secondary">
+              {TYPE_LABELS[tld.type]}
+              {tld.country && ` · ${tld.country.toUpperCase()}`}
+              {tld.launched && ` · since ${tld.launched.slice(0, 4)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          {tld.reputation === "poor" ? (
+            <Close className="h-5 w-5 text-red-500 mt-0.5" />
+          ) : (
+            <Check className="h-5 w-5 text-brand-primary mt-0.5" />
+          )}
+          <div>
+            <p className="text-sm font-medium text-brand-primary">Reputation</p>
+            <p className="text-sm text-brand-secondary">{REPUTATION_LABELS[tld.reputation]}</p>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Coin className="h-5 w-5 text-brand-primary mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-brand-primary">Typical Registry Pricing</p>
+            <p className="text-sm text-brand-secondary">
+              {usd(tld.registrationPrice)} first year, {usd(tld.renewalPrice)}/year renewal
+            </p>
+            {tld.premiumTiers?.map((tier) => (
+              <p key={tier.name} className="text-xs text-brand-secondary">
+                {tier.name}: from {usd(tier.registrationPrice)}, renews at {usd(tier.renewalPrice)}/year
+              </p>
+            ))}
+          </div>
+        </div>
+
+        {holdingCost && (
+          <div className="flex items-start gap-3">
+            <Calculator className="h-5 w-5 text-brand-primary mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-brand-primary">Holding Cost</p>
+              <p className="text-sm text-brand-secondary">
+                {formatPrice(holdingCost.annual, holdingCost.currency)}/year ·{" "}
+                {formatPrice(holdingCost.fiveYear, holdingCost.currency)} over 5 years
+              </p>
+              {holdingCost.premiumRenewal && (
+                <p className="text-xs text-brand-secondary">
+                  May be a registry premium name - check the renewal price before buying
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {tld.restrictions && (
+        <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded">
+          <p className="text-xs text-yellow-800">Registration restrictions: {tld.restrictions}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React from "react";
 import { Analytics, Check, Close, Scale, Trophy, Download, Search } from "@nsmr/pixelart-react";
 import type { WhoisData } from "../types";
+import { describeWhoisProvenance, isVerifiedWhois } from "../lib/provenance";
 
 interface WhoisCardProps {
   whoisData: WhoisData;
@@ -17,10 +18,11 @@ export default function WhoisCard({ whoisData }: WhoisCardProps) {
   };
 
   const getAvailabilityText = () => {
+    const estimated = isVerifiedWhois(whoisData) ? "" : " (estimated)";
     if (whoisData.isAvailable) {
-      return "Available for registration";
+      return `Available for registration${estimated}`;
     }
-    return "Registered domain";
+    return `Registered domain${estimated}`;
   };
 
   const getAvailabilityStatus = () => {
@@ -69,9 +71,22 @@ export default function WhoisCard({ whoisData }: WhoisCardProps) {
               : "This domain is currently owned by someone else"
             }
           </p>
+          <p className="text-xs text-brand-secondary mt-1">
+            Source: {describeWhoisProvenance(whoisData)}
+          </p>
         </div>
       </div>
 
+      {/* Warn when availability is a guess rather than registry data */}
+      {whoisData.dataSource === "ai_estimate" && (
+        <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded">
+          <p className="text-xs text-yellow-800">
+            Registration data could not be retrieved, so this status is an AI estimate.
+            Confirm availability with a registrar before relying on it.
+          </p>
+        </div>
+      )}
+
       {/* Registration Details - Only show if domain is registered */}
       {!whoisData.isAvailable && (
         <div className="space-y-4">
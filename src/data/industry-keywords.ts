@@ -1,3 +1,8 @@
+import { segmentWords } from '../lib/word-segmentation'
+import { toLatinName } from '../lib/idn'
+import { baseReason, adjustmentReason } from '../lib/factor-reasons'
+import type { FactorReason } from '../types'
+
 export interface IndustryKeyword {
   keyword: string
   industry: string
@@ -109,61 +114,66 @@ export const industryKeywords: IndustryKeyword[] = [
   { keyword: 'simple', industry: 'generic', value: 55 }
 ]
 
-export function findKeywordValue(domain: string): { score: number; industry: string; matchedKeywords: string[] } {
-  const domainLower = domain.toLowerCase().replace(/\.(com|net|org|io|ai|co|app|xyz|info|biz|me|tv|cc|ly|gl|tech|online|store|blog|site|news|pro|club|agency|studio|digital|dev|design|marketing|services|solutions|group|ventures|holdings|capital|fund|invest|crypto|blockchain|finance|bank|pay|wallet|trade|exchange|market|shop|buy|sell|deal|sale|cart|travel|hotel|flight|trip|vacation|booking|resort|learn|education|course|study|school|training|food|restaurant|delivery|recipe|kitchen|real|estate|property|home|house|rent|game|gaming|play|entertainment|fun|business|work|career|job|hire|health|medical|care|wellness|fitness|doctor|therapy|clinic|tech|software|cloud|data|digital|smart|auto|bot|ai)$/, '')
+export function findKeywordValue(domain: string): { score: number; industry: string; matchedKeywords: string[]; reasons: FactorReason[] } {
+  // Second-level name only, IDNs decoded with diacritics folded; other scripts have no keywords
+  const domainLower = (toLatinName(domain) ?? '').toLowerCase()
   
-  // Tokenize domain name for better matching
-  const tokens = domainLower.split(/[-_0-9]+/).filter(token => token.length > 0)
+  // Split into dictionary words, so keywords inside compounds like "cloudbank" are found
+  const tokens = segmentWords(domainLower).words
   const fullDomain = domainLower
   
   let bestScore = 20 // Default score for no meaningful keywords
   let bestIndustry = 'generic'
+  let bestKeyword: string | undefined
   let matchedKeywords: string[] = []
   
   for (const item of industryKeywords) {
     let matched = false
     
-    // Check for exact token match (preferred)
-    if (tokens.includes(item.keyword)) {
+    // Check for a segmented word, singular or plural
+    if (tokens.includes(item.keyword) || tokens.includes(item.keyword + 's')) {
       matched = true
     }
     // Check for exact full domain match
     else if (fullDomain === item.keyword || fullDomain === item.keyword + 's') {
       matched = true
     }
-    // For keywords >= 4 chars, allow substring matching at word boundaries
-    else if (item.keyword.length >= 4) {
-      const wordBoundaryRegex = new RegExp(`\\b${item.keyword}\\b`)
-      if (wordBoundaryRegex.test(fullDomain)) {
-        matched = true
-      }
-    }
     
     if (matched) {
       matchedKeywords.push(item.keyword)
       if (item.value > bestScore) {
         bestScore = item.value
         bestIndustry = item.industry
+        bestKeyword = item.keyword
       }
     }
   }
   
+  const reasons = [bestKeyword
+    ? baseReason(bestScore, `Strongest keyword "${bestKeyword}" (${bestIndustry})${matchedKeywords.length > 1 ? ` of ${matchedKeywords.join(', ')}` : ''}`)
+    : baseReason(bestScore, 'No industry keywords')]
+  
   // Bonus for exact match of high-value single keyword
   const exactMatch = industryKeywords.find(item => 
     domainLower === item.keyword || domainLower === item.keyword + 's'
   )
-  if (exactMatch && exactMatch.value >= 80) {
-    bestScore = Math.min(100, bestScore + 10)
+  if (exactMatch && exactMatch.value >= 80 && bestScore < 100) {
+    const boosted = Math.min(100, bestScore + 10)
+    reasons.push(adjustmentReason(boosted - bestScore, `The whole name is the keyword "${exactMatch.keyword}"`))
+    bestScore = boosted
   }
   
   // Penalty for too many keywords (seems spammy)
   if (matchedKeywords.length > 3) {
-    bestScore = Math.max(30, bestScore - 10)
+    const penalized = Math.max(30, bestScore - 10)
+    reasons.push(adjustmentReason(penalized - bestScore, `${matchedKeywords.length} keywords reads as keyword stuffing`))
+    bestScore = penalized
   }
   
   return {
     score: bestScore,
     industry: bestIndustry,
-    matchedKeywords
+    matchedKeywords,
+    reasons
   }
 }
\ No newline at end of file
@@ -1,12 +1,13 @@
 // Use only real database sales data for maximum accuracy
 import type { ComparableSale } from '../types'
+import type { ComparablesQueryOptions } from '../lib/database-comps'
 
 // Database-driven comparable sales - no fallbacks to synthetic data
-export async function findComparables(domain: string, limit: number = 5): Promise<ComparableSale[]> {
+export async function findComparables(domain: string, limit: number = 5, options: ComparablesQueryOptions = {}): Promise<ComparableSale[]> {
   try {
     // Use only real database comparables for accurate valuations
     const { findDatabaseComparables } = await import('../lib/database-comps')
-    const dbComps = await findDatabaseComparables(domain, limit)
+    const dbComps = await findDatabaseComparables(domain, limit, undefined, options)
     return dbComps // Return even if empty - better than synthetic data
   } catch (error) {
     console.error('Database comparables failed:', error)
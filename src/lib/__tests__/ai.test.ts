@@ -0,0 +1,149 @@
+import { describe, test, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { MockAIProvider, setAIProvider, type AIProvider, type AICompletionRequest, type AITask } from '../ai-provider'
+import { completeValidated, AIResponseError, brandabilitySchema, trafficSchema, trademarkSchema, availabilitySchema, comparablesSchema, type Schema } from '../ai-schemas'
+import { getPromptVersion } from '../ai-cache'
+import { setStorage, type StorageAdapter, type AIAnalysisRepository, type AIAnalysisRecord } from '../storage'
+
+const SCHEMAS: Record<AITask, Schema<unknown>> = {
+  brandability: brandabilitySchema,
+  traffic: trafficSchema,
+  trademark: trademarkSchema,
+  availability: availabilitySchema,
+  comparables: comparablesSchema
+}
+
+const request = (task: AITask, subject = 'example.com'): AICompletionRequest => ({
+  task,
+  subject,
+  messages: [{ role: 'user', content: `Analyze ${subject}` }]
+})
+
+// Provider answering with `replies` in turn and recording what it was asked
+class ScriptedProvider implements AIProvider {
+  name = 'scripted'
+  cacheable = true
+  requests: AICompletionRequest[] = []
+
+  constructor(private replies: (string | Error)[]) {}
+
+  modelFor(): string {
+    return 'scripted-model'
+  }
+
+  async completeJSON(request: AICompletionRequest): Promise<string> {
+    this.requests.push(request)
+    const reply = this.replies[Math.min(this.requests.length - 1, this.replies.length - 1)]
+    if (reply instanceof Error) throw reply
+    return reply
+  }
+}
+
+// Storage with only the AI cache, kept in memory
+function memoryStorage(): StorageAdapter & { records: AIAnalysisRecord[] } {
+  const records: AIAnalysisRecord[] = []
+  const aiAnalyses: AIAnalysisRepository = {
+    async find(domain, task, promptVersion) {
+      return records.find(record => record.domain === domain && record.task === task && record.promptVersion === promptVersion) || null
+    },
+    async save(domain, task, promptVersion, result) {
+      records.push({ domain, task, promptVersion, result, createdAt: new Date().toISOString() })
+    },
+    async invalidate() {
+      return records.splice(0).length
+    }
+  }
+  return { records, aiAnalyses } as unknown as StorageAdapter & { records: AIAnalysisRecord[] }
+}
+
+afterEach(() => {
+  setAIProvider(null)
+  setStorage(null)
+})
+
+describe('MockAIProvider', () => {
+  test('answers every task with a response its schema accepts', async () => {
+    const provider = new MockAIProvider()
+    for (const task of Object.keys(SCHEMAS) as AITask[]) {
+      const parsed = JSON.parse(await provider.completeJSON(request(task)))
+      assert.equal(SCHEMAS[task](parsed).ok, true, task)
+    }
+  })
+
+  test('is deterministic per task and domain', async () => {
+    const provider = new MockAIProvider()
+    assert.equal(await provider.completeJSON(request('traffic')), await provider.completeJSON(request('traffic')))
+    assert.notEqual(await provider.completeJSON(request('traffic')), await provider.completeJSON(request('traffic', 'other.com')))
+  })
+})
+
+describe('schemas', () => {
+  test('report the first invalid field', () => {
+    assert.deepEqual(brandabilitySchema({ score: 140, commentary: 'x' }), { ok: false, error: '"score" must be between 0 and 100' })
+    assert.deepEqual(trademarkSchema({ hasConflict: false, severity: 'maybe', explanation: 'x' }), { ok: false, error: '"severity" must be one of clear, warning, severe' })
+    assert.equal(comparablesSchema({ comparables: [] }).ok, false)
+    assert.equal(trafficSchema(null).ok, false)
+  })
+})
+
+describe('completeValidated', () => {
+  test('shows the model its invalid answer and the error, then accepts the repair', async () => {
+    const provider = new ScriptedProvider(['not json', '{"score": 72, "commentary": "Short and clear"}'])
+    setAIProvider(provider)
+    const result = await completeValidated(request('brandability'), brandabilitySchema, { maxRetries: 1 })
+    assert.deepEqual(result, { score: 72, commentary: 'Short and clear' })
+    assert.equal(provider.requests.length, 2)
+    const repair = provider.requests[1].messages
+    assert.deepEqual(repair[1], { role: 'assistant', content: 'not json' })
+    assert.match(repair[2].content, /response was not valid JSON/)
+  })
+
+  test('gives up after the retries with the last validation error', async () => {
+    setAIProvider(new ScriptedProvider(['{"score": "high"}']))
+    await assert.rejects(
+      completeValidated(request('brandability'), brandabilitySchema, { maxRetries: 0 }),
+      (error: unknown) => error instanceof AIResponseError && error.reason === 'invalid_response: "score" must be a number after 1 attempts'
+    )
+  })
+
+  test('does not retry provider errors', async () => {
+    const provider = new ScriptedProvider([new Error('Timeout: traffic analysis took too long')])
+    setAIProvider(provider)
+    await assert.rejects(
+      completeValidated(request('traffic'), trafficSchema, { maxRetries: 2 }),
+      (error: unknown) => error instanceof AIResponseError && error.reason.startsWith('provider_error: Timeout')
+    )
+    assert.equal(provider.requests.length, 1)
+  })
+})
+
+describe('AI cache', () => {
+  test('prompt versions ignore the domain but change with the prompt or model', () => {
+    const version = (subject: string, content: string, model = 'scripted|a') =>
+      getPromptVersion([{ role: 'user', content: content.replace('{domain}', subject) }], subject, model)
+    assert.equal(version('one.com', 'Rate {domain}'), version('two.com', 'Rate {domain}'))
+    assert.notEqual(version('one.com', 'Rate {domain}'), version('one.com', 'Score {domain}'))
+    assert.notEqual(version('one.com', 'Rate {domain}'), version('one.com', 'Rate {domain}', 'scripted|b'))
+  })
+
+  test('reuses a stored answer instead of calling the model again', async () => {
+    const storage = memoryStorage()
+    setStorage(storage)
+    const provider = new ScriptedProvider(['{"monthlyTraffic": 1200, "explanation": "Steady type-in traffic"}'])
+    setAIProvider(provider)
+
+    const first = await completeValidated(request('traffic', 'Cached.com'), trafficSchema, { cache: true })
+    const second = await completeValidated(request('traffic', 'Cached.com'), trafficSchema, { cache: true })
+    assert.deepEqual(second, first)
+    assert.equal(provider.requests.length, 1)
+    assert.equal(storage.records[0].domain, 'cached.com')
+  })
+
+  test('never stores mock answers', async () => {
+    const storage = memoryStorage()
+    setStorage(storage)
+    setAIProvider(new MockAIProvider())
+    await completeValidated(request('traffic'), trafficSchema, { cache: true })
+    assert.equal(storage.records.length, 0)
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { localizeAppraisal } from '../exchange-rates'
+import type { DomainAppraisal } from '../../types'
+
+// Only the fields localizeAppraisal reads or converts
+const appraisal = {
+  domain: 'example.com',
+  priceEstimate: { investor: '$1,000', retail: '$2,000', investorAmount: 1000, retailAmount: 2000, currency: 'USD', explanation: '' },
+  comps: [{ domain: 'sample.com', soldPrice: 1000, soldDate: '2024-01-15', source: 'Database (Sedo)' }]
+} as unknown as DomainAppraisal
+
+describe('localizeAppraisal', () => {
+  test('converts comparable sales with the estimate', () => {
+    const localized = localizeAppraisal(appraisal, { currency: 'EUR', locale: 'de-DE' })
+    assert.equal(localized.priceEstimate.currency, 'EUR')
+    assert.equal(localized.priceEstimate.investorAmount, 860)
+    assert.equal(localized.comps?.[0].soldPrice, 860)
+    assert.equal(appraisal.comps?.[0].soldPrice, 1000) // The stored appraisal is untouched
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { normalizeDomainInput, isValidDomainFormat, parseDomainList } from '../domain-input'
+import { uniqueBatchDomains } from '../batch-appraisal'
+import { checkRateLimit, RATE_LIMIT } from '../rate-limiter'
+
+describe('normalizeDomainInput', () => {
+  test('cleans pasted URLs, case and subdomains', () => {
+    assert.equal(normalizeDomainInput('  https://Blog.Example.com/path?q=1 '), 'example.com')
+    assert.equal(normalizeDomainInput('shop.example.co.uk.'), 'example.co.uk')
+    assert.equal(normalizeDomainInput('münchen。de'), 'xn--mnchen-3ya.de')
+  })
+})
+
+describe('isValidDomainFormat', () => {
+  test('accepts LDH and punycode names', () => {
+    assert.equal(isValidDomainFormat('example.com'), true)
+    assert.equal(isValidDomainFormat('xn--mnchen-3ya.de'), true)
+  })
+
+  test('rejects malformed names', () => {
+    assert.equal(isValidDomainFormat('example'), false)
+    assert.equal(isValidDomainFormat('-example.com'), false)
+    assert.equal(isValidDomainFormat(`${'a'.repeat(64)}.com`), false)
+    assert.equal(isValidDomainFormat('xn--invalid!-.com'), false)
+  })
+})
+
+describe('parseDomainList', () => {
+  test('takes the first domain-like cell of each row', () => {
+    const csv = 'domain,price,notes\r\n"Example.com",1200,"nice"\nfoo;bar.net\n\nno domain here\nhttps://www.test.io/\t50'
+    assert.deepEqual(parseDomainList(csv), ['example.com', 'bar.net', 'test.io'])
+  })
+})
+
+describe('uniqueBatchDomains', () => {
+  test('normalizes and drops duplicates in submitted order', () => {
+    assert.deepEqual(uniqueBatchDomains(['Example.com', 'www.example.com', '', 'bar.net', 'https://example.com/']), ['example.com', 'bar.net'])
+  })
+})
+
+describe('checkRateLimit', () => {
+  test('allows RATE_LIMIT evaluations per window', () => {
+    const ip = `test-${Date.now()}`
+    for (let i = RATE_LIMIT - 1; i >= 0; i--) {
+      assert.deepEqual(checkRateLimit(ip).remaining, i)
+    }
+    const refused = checkRateLimit(ip)
+    assert.equal(refused.allowed, false)
+    assert.equal(refused.remaining, 0)
+  })
+})
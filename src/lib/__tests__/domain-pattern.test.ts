@@ -0,0 +1,48 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { classifyDomainPattern, isShortLetterPattern } from '../domain-pattern'
+import { mapScoreToPriceBracket } from '../valuation'
+import { getPriceModel } from '../price-model'
+
+describe('classifyDomainPattern', () => {
+  test('labels short letter and digit names by length', () => {
+    assert.equal(classifyDomainPattern('ab.com'), 'LL')
+    assert.equal(classifyDomainPattern('xqz.com'), 'LLL')
+    assert.equal(classifyDomainPattern('123.net'), 'NNN')
+    assert.equal(classifyDomainPattern('12345.com'), 'NNNNN')
+    assert.equal(classifyDomainPattern('1234567.com'), 'numeric')
+  })
+
+  test('labels consonant-vowel shapes', () => {
+    assert.equal(classifyDomainPattern('zupo.com'), 'CVCV')
+    assert.equal(classifyDomainPattern('xkqz.com'), 'LLLL')
+    assert.equal(classifyDomainPattern('zomba.io'), 'CVCCV')
+  })
+
+  test('labels dictionary words and compounds', () => {
+    assert.equal(classifyDomainPattern('garden.com'), 'dictionary')
+    assert.equal(classifyDomainPattern('bluegarden.com'), 'two-word')
+  })
+
+  test('labels hyphenated, alphanumeric and IDN names', () => {
+    assert.equal(classifyDomainPattern('blue-garden.com'), 'hyphenated')
+    assert.equal(classifyDomainPattern('garden24.com'), 'alphanumeric')
+    assert.equal(classifyDomainPattern('xn--caf-dma.com'), 'idn')
+  })
+})
+
+describe('pattern price brackets', () => {
+  test('short letter patterns are premium', () => {
+    assert.equal(isShortLetterPattern('LLL', 3), true)
+    assert.equal(isShortLetterPattern('CVCV', 4), true)
+    assert.equal(isShortLetterPattern('dictionary', 6), false)
+  })
+
+  test('premium .com brackets apply with the bundled price model loaded', () => {
+    assert.ok(getPriceModel())
+    const premium = mapScoreToPriceBracket(85, 'zupo.com')
+    const standard = mapScoreToPriceBracket(85, 'zupo.net')
+    assert.ok(premium.min > 15000, JSON.stringify(premium)) // 25,000 before the model's pull
+    assert.ok(premium.min > standard.min * 4, `${JSON.stringify(premium)} vs ${JSON.stringify(standard)}`)
+  })
+})
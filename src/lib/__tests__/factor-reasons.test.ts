@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { adjustScore, baseReason, boundScore, formatReason } from '../factor-reasons'
+
+const start = (score: number) => ({ score, reasons: [baseReason(score, 'Start')] })
+
+describe('adjustScore', () => {
+  test('records the points added', () => {
+    const scored = adjustScore(start(50), -20, 'Contains a hyphen')
+    assert.equal(scored.score, 30)
+    assert.equal(formatReason(scored.reasons[1]), 'Contains a hyphen (-20)')
+  })
+
+  test('records only the points the clamp let through', () => {
+    const scored = adjustScore(start(95), 10, 'Premium keyword')
+    assert.equal(scored.score, 100)
+    assert.equal(scored.reasons[1].points, 5)
+    const floored = adjustScore(start(10), -25, 'Numbers')
+    assert.equal(floored.score, 0)
+    assert.equal(floored.reasons[1].points, -10)
+  })
+
+  test('skips adjustments that change nothing', () => {
+    const scored = start(100)
+    assert.equal(adjustScore(scored, 10, 'Already at the top'), scored)
+    assert.equal(adjustScore(scored, 0, 'Nothing'), scored)
+  })
+
+  test('reasons add up to the score', () => {
+    const scored = [15, 30, -5, 40].reduce((result, points) => adjustScore(result, points, 'Step'), start(60))
+    assert.equal(scored.reasons.reduce((sum, reason) => sum + (reason.points || 0), 0), scored.score)
+  })
+})
+
+describe('boundScore', () => {
+  test('notes the change a bound made', () => {
+    const scored = boundScore(start(5), 20, 90)
+    assert.equal(scored.score, 20)
+    assert.equal(formatReason(scored.reasons[1]), 'Raised to the minimum of 20 (+15)')
+  })
+})
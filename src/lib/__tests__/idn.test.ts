@@ -0,0 +1,33 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { toASCIIDomain, toUnicodeDomain, graphemeLength, foldDiacritics, analyzeIDN } from '../idn'
+
+describe('punycode conversion', () => {
+  test('round-trips Unicode names', () => {
+    assert.equal(toASCIIDomain('münchen.de'), 'xn--mnchen-3ya.de')
+    assert.equal(toUnicodeDomain('xn--mnchen-3ya.de'), 'münchen.de')
+    assert.equal(toASCIIDomain('example.com'), 'example.com')
+  })
+})
+
+describe('graphemeLength', () => {
+  test('counts user-perceived characters', () => {
+    assert.equal(graphemeLength('🇩🇪'), 1)
+    assert.equal(graphemeLength('café'), 4)
+    assert.equal(graphemeLength('münchen'), 7)
+  })
+})
+
+describe('analyzeIDN', () => {
+  test('flags Cyrillic homographs of ASCII names', () => {
+    const info = analyzeIDN('аррӏе.com')
+    assert.equal(info?.homograph, true)
+    assert.equal(info?.lookalike, 'apple')
+    assert.equal(info?.mixedScript, false)
+  })
+
+  test('leaves ASCII names alone', () => {
+    assert.equal(analyzeIDN('apple.com'), null)
+    assert.equal(foldDiacritics('münchen'), 'munchen')
+  })
+})
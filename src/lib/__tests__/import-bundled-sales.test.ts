@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import path from 'path'
+import { readBundledSales, ensureSchema, normalizeDomain, normalizePrice, normalizeDate, normalizeVenue } from '../../scripts/import-bundled-sales'
+
+// A few rows in the bundled archive's layout, with duplicates and rows to reject
+const zipPath = path.join(__dirname, 'fixtures/sales/sales.zip')
+
+describe('row normalization', () => {
+  test('cleans exported domains, prices, dates and venues', () => {
+    assert.equal(normalizeDomain(' https://www.Zebra.io/path'), 'zebra.io')
+    assert.equal(normalizeDomain('fast—shop.net'), 'fast-shop.net')
+    assert.equal(normalizeDomain('not a domain'), null)
+    assert.equal(normalizePrice('$1,200'), 1200)
+    assert.equal(normalizePrice('free'), null)
+    assert.equal(normalizeDate('03/15/2020'), '2020-03-15')
+    assert.equal(normalizeDate('2020-05'), '2020-05-01')
+    assert.equal(normalizeDate('1985-01-01'), null)
+    assert.equal(normalizeVenue('godaddy auctions'), 'GoDaddy')
+    assert.equal(normalizeVenue(''), 'Unknown')
+  })
+})
+
+describe('readBundledSales', () => {
+  test('reads the zipped TSV, dropping duplicates and invalid rows', async () => {
+    const rejectedRows: string[] = []
+    const { sales, total, duplicates, rejected } = await readBundledSales(zipPath, (_row: unknown, reason: string) => rejectedRows.push(reason))
+    assert.equal(total, 7)
+    assert.equal(duplicates, 1)
+    assert.deepEqual(rejected, { invalid_domain: 1, invalid_price: 1, invalid_date: 1 })
+    assert.equal(rejectedRows.length, 3)
+    assert.deepEqual(sales, [
+      { date: '2019-03-01', domain: 'cloudbank.com', price: 1200, venue: 'GoDaddy' },
+      { date: '2020-03-15', domain: 'zebra.io', price: 450, venue: 'NameJet' },
+      { date: '2020-05-01', domain: 'fast-shop.net', price: 300, venue: 'Unknown' }
+    ])
+  })
+})
+
+describe('ensureSchema', () => {
+  // Records the SQL it is sent; `indexExists` answers the unique index lookup
+  const recordingClient = (indexExists: boolean) => {
+    const queries: string[] = []
+    return {
+      queries,
+      async query(sql: string) {
+        queries.push(sql.replace(/\s+/g, ' ').trim())
+        return { rows: [{ existing: indexExists ? 'idx_domain_sales_unique_sale' : null }], rowCount: 0 }
+      }
+    }
+  }
+
+  test('removes existing duplicates before creating the unique index', async () => {
+    const client = recordingClient(false)
+    await ensureSchema(client)
+    const deleteAt = client.queries.findIndex(sql => sql.startsWith('DELETE FROM domain_sales'))
+    const indexAt = client.queries.findIndex(sql => sql.startsWith('CREATE UNIQUE INDEX'))
+    assert.ok(deleteAt > 0 && indexAt > deleteAt, client.queries.join('\n'))
+    assert.ok(client.queries.includes('COMMIT'))
+  })
+
+  test('leaves the table alone once the index exists', async () => {
+    const client = recordingClient(true)
+    await ensureSchema(client)
+    assert.ok(!client.queries.some(sql => sql.startsWith('DELETE') || sql.startsWith('CREATE UNIQUE INDEX')))
+  })
+})
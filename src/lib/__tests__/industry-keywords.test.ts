@@ -0,0 +1,28 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { findKeywordValue } from '../../data/industry-keywords'
+import { toASCIIDomain } from '../idn'
+
+describe('findKeywordValue', () => {
+  test('finds keywords inside compound names', () => {
+    const result = findKeywordValue('cloudbank.io')
+    assert.deepEqual(result.matchedKeywords.sort(), ['bank', 'cloud'])
+    assert.equal(result.industry, 'finance')
+  })
+
+  test('never matches the TLD', () => {
+    assert.equal(findKeywordValue('zebra.games').score, 20)
+    assert.equal(findKeywordValue('zebra.ai').score, 20)
+    assert.equal(findKeywordValue('zebra.co.uk').score, 20)
+    assert.equal(findKeywordValue('zebra.xn--p1ai').score, 20) // .рф, not "p1" and "ai"
+  })
+
+  test('ignores subdomains', () => {
+    assert.deepEqual(findKeywordValue('shop.zebra.com').matchedKeywords, [])
+  })
+
+  test('reads Latin-script IDNs with diacritics folded', () => {
+    assert.deepEqual(findKeywordValue('bänk.de').matchedKeywords, ['bank'])
+    assert.deepEqual(findKeywordValue(toASCIIDomain('bänk.de')).matchedKeywords, ['bank'])
+  })
+})
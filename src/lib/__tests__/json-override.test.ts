@@ -0,0 +1,51 @@
+import { describe, test, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { readJsonOverride } from '../json-override'
+
+const ENV_VAR = 'JSON_OVERRIDE_TEST_PATH'
+
+describe('readJsonOverride', () => {
+  let dir: string
+  const override = { envVar: ENV_VAR, description: 'test table', requirement: 'needs a name', fallback: 'using the bundled table', isUsable: (candidate: { name?: string }) => typeof candidate.name === 'string' }
+  const writeFile = (contents: string) => {
+    const filePath = path.join(dir, 'table.json')
+    fs.writeFileSync(filePath, contents)
+    process.env[ENV_VAR] = filePath
+  }
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-override-')) })
+  afterEach(() => {
+    delete process.env[ENV_VAR]
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('is undefined when the variable is unset', () => {
+    assert.equal(readJsonOverride(override), undefined)
+  })
+
+  test('returns a usable file', () => {
+    writeFile('{"name": "local"}')
+    assert.deepEqual(readJsonOverride(override), { name: 'local' })
+  })
+
+  test('falls back on invalid, malformed or missing files', () => {
+    const errors: unknown[][] = []
+    const original = console.error
+    console.error = (...args: unknown[]) => { errors.push(args) }
+    try {
+      writeFile('{"other": 1}')
+      assert.equal(readJsonOverride(override), undefined)
+      writeFile('{not json')
+      assert.equal(readJsonOverride(override), undefined)
+      process.env[ENV_VAR] = path.join(dir, 'missing.json')
+      assert.equal(readJsonOverride(override), undefined)
+    } finally {
+      console.error = original
+    }
+    assert.equal(errors.length, 3)
+    assert.match(String(errors[0][0]), /^Test table in .* needs a name, using the bundled table$/)
+  })
+})
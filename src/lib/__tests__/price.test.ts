@@ -0,0 +1,91 @@
+import { describe, test, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculatePriceEstimate, mapScoreToPriceBracket } from '../valuation'
+import { getPriceModel, setPriceModel, predictPrice, isPriceModelHoldout, extractPriceFeatures, PRICE_FEATURE_NAMES, PRICE_MODEL_FORMAT, type PriceModel } from '../price-model'
+
+const bundled = getPriceModel() as PriceModel
+
+// The bundled model with a better fit, so its side of the blend is visible
+const strongModel = (rSquared: number): PriceModel => ({ ...bundled, metrics: { ...bundled.metrics, rSquared } })
+
+afterEach(() => setPriceModel(bundled))
+
+describe('bundled price model', () => {
+  test('matches the current feature format', () => {
+    assert.ok(bundled, 'bundled model rejected as stale')
+    assert.equal(bundled.format, PRICE_MODEL_FORMAT)
+  })
+
+  test('holds out a stable share of domains for backtests', () => {
+    const domains = Array.from({ length: 2000 }, (_, i) => `name${i}.com`)
+    const heldOut = domains.filter(domain => isPriceModelHoldout(bundled, domain))
+    assert.ok(Math.abs(heldOut.length / domains.length - bundled.holdoutPercent / 100) < 0.03)
+    assert.deepEqual(domains.filter(domain => isPriceModelHoldout(bundled, domain)), heldOut)
+  })
+})
+
+describe('extractPriceFeatures', () => {
+  const active = (domain: string) => PRICE_FEATURE_NAMES.filter((_, i) => extractPriceFeatures(domain)[i] === 1)
+
+  test('one-hot encodes the investor pattern class', () => {
+    assert.ok(active('abc.com').includes('pattern_LLL'))
+    assert.ok(active('cloudbank.io').includes('pattern_two-word'))
+  })
+
+  test('takes keywords from the name, not the TLD', () => {
+    assert.equal(extractPriceFeatures('zebra.games')[PRICE_FEATURE_NAMES.indexOf('keyword_count')], 0)
+  })
+})
+
+describe('mapScoreToPriceBracket', () => {
+  test('uses the score brackets without a model', () => {
+    setPriceModel(null)
+    assert.deepEqual(mapScoreToPriceBracket(90, 'example.net'), { min: 5000, max: 50000, bracket: '80-100' })
+    assert.deepEqual(mapScoreToPriceBracket(10, 'example.net'), { min: 25, max: 100, bracket: '0-20' })
+  })
+
+  test('applies the premium short .com ranges', () => {
+    setPriceModel(null)
+    assert.deepEqual(mapScoreToPriceBracket(90, 'abc.com'), { min: 50000, max: 500000, bracket: '80-100' })
+    assert.deepEqual(mapScoreToPriceBracket(90, 'abcd.com'), { min: 25000, max: 100000, bracket: '80-100' })
+  })
+
+  test('rises with the score when a model is loaded', () => {
+    const low = mapScoreToPriceBracket(5, 'abc.com')
+    const high = mapScoreToPriceBracket(95, 'abc.com')
+    assert.ok(high.min > low.max * 10, `${JSON.stringify(low)} vs ${JSON.stringify(high)}`)
+  })
+
+  test('moves toward the model by its fit', () => {
+    setPriceModel(strongModel(0.5))
+    const modelPrice = predictPrice(bundled, 'example.net')
+    const { min, max } = mapScoreToPriceBracket(90, 'example.net')
+    const center = Math.sqrt(min * max)
+    assert.ok(center < Math.sqrt(5000 * 50000) && center > modelPrice)
+  })
+
+  test('leaves the model out when legal risk zeroes the price', () => {
+    setPriceModel(strongModel(0.5))
+    assert.deepEqual(mapScoreToPriceBracket(0, 'paypal.com', 0), { min: 25, max: 100, bracket: '0-20' })
+  })
+})
+
+describe('calculatePriceEstimate', () => {
+  test('prices a severe legal conflict at the bottom bracket', () => {
+    const estimate = calculatePriceEstimate(0, undefined, 'paypal.com', 100, 0)
+    assert.equal(estimate.retailAmount, 62.5)
+    assert.equal(estimate.investorAmount, 25)
+  })
+
+  test('blends comps 60/40 with the bracket price', () => {
+    setPriceModel(null)
+    const estimate = calculatePriceEstimate(50, 10000, 'example.net')
+    assert.equal(estimate.retailAmount, Math.round(0.6 * 10000 + 0.4 * 650))
+    assert.equal(estimate.investorAmount, Math.round(estimate.retailAmount * 0.6))
+  })
+
+  test('names the model weight in the explanation', () => {
+    setPriceModel(strongModel(0.3))
+    assert.match(calculatePriceEstimate(70, undefined, 'example.net').explanation, /weighted 30% toward price model/)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { RdapClient, RdapError, parseRdapDomain, type RdapFetch } from '../rdap'
+
+const fixture = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/rdap/example-com.json'), 'utf8'))
+
+// Answers every request with `status` and `body`, recording the URLs asked for
+function stubFetch(status: number, body?: unknown): RdapFetch & { urls: string[] } {
+  const urls: string[] = []
+  const stub = async (url: string) => {
+    urls.push(url)
+    return new Response(body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body), { status })
+  }
+  return Object.assign(stub, { urls })
+}
+
+describe('parseRdapDomain', () => {
+  test('maps events, entities and name servers', () => {
+    const data = parseRdapDomain('example.com', fixture)
+    assert.equal(data.isAvailable, false)
+    assert.equal(data.dataSource, 'rdap')
+    assert.equal(data.registrationDate, '1995-08-14T04:00:00Z')
+    assert.equal(data.expirationDate, '2026-08-13T04:00:00Z')
+    assert.equal(data.lastUpdated, '2025-08-14T07:01:39Z')
+    assert.equal(data.registrar, 'RESERVED-Internet Assigned Numbers Authority')
+    assert.equal(data.registrant, 'Internet Assigned Numbers Authority') // Empty fn falls back to org
+    assert.deepEqual(data.nameServers, ['a.iana-servers.net', 'b.iana-servers.net'])
+    assert.equal(data.status, 'client delete prohibited')
+    assert.ok((data.ageInYears || 0) > 30)
+  })
+})
+
+describe('RdapClient', () => {
+  test('finds the registry server from the bundled bootstrap file', async () => {
+    const client = new RdapClient()
+    assert.equal(await client.findServer('com'), 'https://rdap.verisign.com/com/v1/')
+    assert.equal(await client.findServer('.UK'), 'https://rdap.nominet.uk/uk/')
+    assert.equal(await client.findServer('not-a-tld'), null)
+  })
+
+  test('looks a domain up on its registry server', async () => {
+    const fetch = stubFetch(200, fixture)
+    const data = await new RdapClient({ fetch }).lookup('Example.com')
+    assert.deepEqual(fetch.urls, ['https://rdap.verisign.com/com/v1/domain/example.com'])
+    assert.equal(data.registrar, 'RESERVED-Internet Assigned Numbers Authority')
+  })
+
+  test('treats 404 as available', async () => {
+    const data = await new RdapClient({ fetch: stubFetch(404) }).lookup('unregistered-example.com')
+    assert.equal(data.isAvailable, true)
+    assert.equal(data.status, 'available')
+  })
+
+  test('rejects server errors, bad JSON and TLDs without RDAP', async () => {
+    await assert.rejects(new RdapClient({ fetch: stubFetch(503) }).lookup('example.com'), (error: unknown) =>
+      error instanceof RdapError && error.status === 503)
+    await assert.rejects(new RdapClient({ fetch: stubFetch(200, '<html>') }).lookup('example.com'), RdapError)
+    await assert.rejects(new RdapClient({ fetch: stubFetch(200, fixture) }).lookup('example.not-a-tld'), /No RDAP server/)
+  })
+
+  test('sends every lookup to baseUrl when set', async () => {
+    const fetch = stubFetch(200, fixture)
+    await new RdapClient({ fetch, baseUrl: 'http://localhost:8080/rdap' }).lookup('example.de')
+    assert.deepEqual(fetch.urls, ['http://localhost:8080/rdap/domain/example.de'])
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, test, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { toStoredAppraisal, toAppraisalRow, toAIAnalysisRecord, type AppraisalRow } from '../storage/rows'
+import { resolveStorageDriver } from '../storage'
+import { getScoreBracket } from '../score-bracket'
+import type { DomainAppraisal } from '../../types'
+
+// A row as an older text-column table returns it: numbers and JSON as strings, no newer columns
+const legacyRow: AppraisalRow = {
+  id: 7,
+  domain: 'cloudbank.com',
+  final_score: '72.50',
+  breakdown: '[{"factor":"length","score":80,"weight":0.1,"description":"9 characters"}]',
+  price_estimate: '{"investor":"$1,000","retail":"$2,500","explanation":"Score bracket"}',
+  comps: null,
+  legal_flag: 'clear',
+  ai_comment: 'Solid compound',
+  whois_data: 'not json',
+  options_hash: null,
+  created_at: new Date('2025-01-02T03:04:05.000Z')
+}
+
+describe('toStoredAppraisal', () => {
+  test('parses legacy text columns and back-fills missing fields', () => {
+    const stored = toStoredAppraisal(legacyRow)
+    assert.equal(stored.finalScore, 72.5)
+    assert.equal(stored.bracket, '60-80')
+    assert.equal(stored.breakdown[0].factor, 'length')
+    assert.equal(stored.priceEstimate.investorAmount, 1000)
+    assert.equal(stored.priceEstimate.retailAmount, 2500)
+    assert.equal(stored.priceEstimate.currency, 'USD')
+    assert.deepEqual(stored.comps, [])
+    assert.equal(stored.whoisData, undefined) // Unparseable JSON is dropped
+    assert.equal(stored.weighting, undefined)
+    assert.equal(stored.createdAt, '2025-01-02T03:04:05.000Z')
+  })
+
+  test('derives name details rather than storing them', () => {
+    const stored = toStoredAppraisal(legacyRow)
+    assert.deepEqual(stored.words, ['cloud', 'bank'])
+    assert.equal(stored.pattern, 'two-word')
+    assert.equal(stored.tld?.tld, 'com')
+  })
+})
+
+describe('toAppraisalRow', () => {
+  const appraisal = {
+    domain: 'cloudbank.com',
+    finalScore: 72.5,
+    breakdown: [],
+    priceEstimate: { investor: '$1,000', retail: '$2,500', investorAmount: 1000, retailAmount: 2500, currency: 'USD', explanation: '' },
+    legalFlag: 'clear',
+    aiComment: 'Solid compound'
+  } as unknown as DomainAppraisal
+
+  test('leaves out empty optional columns for tables that predate them', () => {
+    const row = toAppraisalRow(appraisal, 'abc123')
+    assert.equal(row.options_hash, 'abc123')
+    assert.deepEqual(row.comps, [])
+    assert.equal(row.whois_data, null)
+    assert.ok(!('weighting' in row) && !('data_quality' in row) && !('extension_landscape' in row))
+  })
+
+  test('round-trips through toStoredAppraisal', () => {
+    const row = toAppraisalRow(appraisal, 'abc123')
+    const stored = toStoredAppraisal({ ...row, id: 1, created_at: '2025-01-02T03:04:05.000Z' })
+    assert.equal(stored.finalScore, appraisal.finalScore)
+    assert.deepEqual(stored.priceEstimate, appraisal.priceEstimate)
+    assert.equal(stored.optionsHash, 'abc123')
+  })
+})
+
+describe('toAIAnalysisRecord', () => {
+  test('parses the result and normalizes the timestamp', () => {
+    const record = toAIAnalysisRecord({
+      domain: 'cloudbank.com',
+      task: 'traffic',
+      prompt_version: 'abc',
+      result: '{"monthlyTraffic":1200}',
+      created_at: new Date('2025-01-02T00:00:00.000Z')
+    })
+    assert.deepEqual(record, { domain: 'cloudbank.com', task: 'traffic', promptVersion: 'abc', result: { monthlyTraffic: 1200 }, createdAt: '2025-01-02T00:00:00.000Z' })
+  })
+})
+
+describe('getScoreBracket', () => {
+  test('uses 20-point bands', () => {
+    assert.deepEqual([0, 19.9, 20, 59.99, 60, 80, 100].map(getScoreBracket), ['0-20', '0-20', '20-40', '40-60', '60-80', '80-100', '80-100'])
+  })
+})
+
+describe('resolveStorageDriver', () => {
+  const saved = { driver: process.env.STORAGE_DRIVER, url: process.env.NEXT_PUBLIC_SUPABASE_URL }
+  afterEach(() => {
+    for (const [key, value] of [['STORAGE_DRIVER', saved.driver], ['NEXT_PUBLIC_SUPABASE_URL', saved.url]] as const) {
+      if (value === undefined) delete process.env[key]
+      else process.env[key] = value
+    }
+  })
+
+  test('prefers STORAGE_DRIVER, then Supabase when configured', () => {
+    process.env.STORAGE_DRIVER = 'Postgres'
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co'
+    assert.equal(resolveStorageDriver(), 'postgres')
+    delete process.env.STORAGE_DRIVER
+    assert.equal(resolveStorageDriver(), 'supabase')
+    delete process.env.NEXT_PUBLIC_SUPABASE_URL
+    assert.equal(resolveStorageDriver(), 'postgres')
+  })
+
+  test('rejects unknown drivers', () => {
+    process.env.STORAGE_DRIVER = 'mysql'
+    assert.throws(() => resolveStorageDriver(), /Unknown STORAGE_DRIVER "mysql"/)
+  })
+})
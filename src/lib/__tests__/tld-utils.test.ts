@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { extractTLD, extractDomainName, getRegistrableDomain, getSubdomain, isMultiLevelTLD } from '../tld-utils'
+
+describe('public suffix handling', () => {
+  test('single and multi-level suffixes', () => {
+    assert.equal(extractTLD('example.com'), 'com')
+    assert.equal(extractTLD('example.co.uk'), 'co.uk')
+    assert.equal(extractTLD('shop.example.com.au'), 'com.au')
+    assert.equal(isMultiLevelTLD('co.uk'), true)
+    assert.equal(isMultiLevelTLD('com'), false)
+  })
+
+  test('wildcard and exception rules', () => {
+    assert.equal(extractTLD('example.foo.ck'), 'foo.ck') // *.ck
+    assert.equal(extractTLD('www.ck'), 'ck') // !www.ck
+    assert.equal(extractTLD('shop.example.kawasaki.jp'), 'example.kawasaki.jp') // *.kawasaki.jp
+    assert.equal(extractTLD('city.kawasaki.jp'), 'kawasaki.jp') // !city.kawasaki.jp
+  })
+
+  test('unlisted TLDs fall back to the last label', () => {
+    assert.equal(extractTLD('example.notarealtld'), 'notarealtld')
+    assert.equal(extractDomainName('example.notarealtld'), 'example')
+  })
+
+  test('splits names from subdomains', () => {
+    assert.equal(extractDomainName('blog.example.co.uk'), 'example')
+    assert.equal(getRegistrableDomain('www.blog.example.co.uk'), 'example.co.uk')
+    assert.equal(getSubdomain('www.blog.example.co.uk'), 'www.blog')
+    assert.equal(getSubdomain('example.com'), '')
+  })
+
+  test('always leaves a label for the name', () => {
+    assert.equal(extractTLD('co.uk'), 'uk')
+    assert.equal(extractDomainName('co.uk'), 'co')
+    assert.equal(extractTLD('localhost'), '')
+  })
+})
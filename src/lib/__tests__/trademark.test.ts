@@ -0,0 +1,108 @@
+import { describe, test, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { findTrademarkMatch, classifyTypo } from '../trademark-risk'
+import { setTrademarkStore, lookupMark, findEmbeddedMarks, getTrademarkStore } from '../trademark-store'
+import { readXmlRecords, parseTrademarkCsvRow, normalizeStatus } from '../../scripts/import-trademarks'
+import type { TrademarkRecord } from '../../types'
+
+const bundledRecords = () => Array.from(getTrademarkStore().byMark.values()).flat()
+
+// Imported filings on top of the bundled well-known marks
+const filing = (mark: string, classes: number[], status: TrademarkRecord['status'] = 'registered', registrationNumber = '1234567'): TrademarkRecord =>
+  ({ mark, normalized: mark.toLowerCase(), office: 'USPTO', registrationNumber, classes, status })
+
+async function collect<T>(records: AsyncGenerator<T>): Promise<T[]> {
+  const collected: T[] = []
+  for await (const record of records) collected.push(record)
+  return collected
+}
+
+describe('findTrademarkMatch (well-known marks)', () => {
+  test('flags exact copies, lookalikes and phishing compounds as severe', () => {
+    assert.equal(findTrademarkMatch('paypal.com')?.flag, 'severe')
+    assert.equal(findTrademarkMatch('paypa1.com')?.technique, 'homoglyph')
+    assert.equal(findTrademarkMatch('paypal-login.com')?.flag, 'severe')
+  })
+
+  test('classifies one-keystroke typos', () => {
+    assert.equal(classifyTypo('amazom', 'amazon'), 'keyboard-typo')
+    assert.equal(classifyTypo('googel', 'google'), 'typo')
+    assert.equal(classifyTypo('gogle', 'google'), 'keyboard-typo') // Doubled key
+    assert.equal(classifyTypo('goggles', 'google'), null)
+  })
+
+  test('single-edit typos are warnings unless paired with a phishing word', () => {
+    assert.equal(findTrademarkMatch('googly.com')?.flag, 'warning')
+    assert.equal(findTrademarkMatch('amazom.com')?.flag, 'warning')
+    const phishing = findTrademarkMatch('googel-support.com')
+    assert.equal(phishing?.flag, 'severe')
+    assert.equal(phishing?.technique, 'typo')
+  })
+
+  test('leaves unrelated names alone', () => {
+    assert.equal(findTrademarkMatch('bluegarden.com'), null)
+  })
+})
+
+describe('trademark store', () => {
+  const initial = bundledRecords()
+  afterEach(() => setTrademarkStore(undefined))
+
+  test('indexes filings by class and status', () => {
+    setTrademarkStore([...initial, filing('Zenledger', [36]), filing('Zenledger', [9], 'pending', '97123456'), filing('Quixotra', [25], 'dead')])
+    assert.equal(lookupMark('zenledger').length, 2)
+    assert.deepEqual(lookupMark('zenledger', { industry: 'finance' }).map(record => record.status), ['registered'])
+    assert.deepEqual(lookupMark('zenledger', { status: 'pending' }).map(record => record.classes), [[9]])
+    assert.deepEqual(lookupMark('zenledger', { industry: 'food' }), [])
+    assert.deepEqual(lookupMark('quixotra'), []) // Dead filings are not indexed
+    assert.deepEqual(findEmbeddedMarks('myzenledger', 5, { industry: 'finance' }), [{ normalized: 'zenledger', position: 2 }])
+    assert.deepEqual(findEmbeddedMarks('myzenledger', 5, { industry: 'food' }), [])
+  })
+
+  test('registered marks in the industry are severe and cited', () => {
+    setTrademarkStore([...initial, filing('Zenledger', [36])])
+    const match = findTrademarkMatch('zenledger.com', 'finance')
+    assert.equal(match?.flag, 'severe')
+    assert.deepEqual(match?.registrations, ['USPTO 1234567'])
+    assert.equal(findTrademarkMatch('zenledger.com', 'food')?.flag, 'warning')
+  })
+})
+
+describe('import-trademarks', () => {
+  test('reads USPTO case files from XML', async () => {
+    const records = await collect(readXmlRecords(path.join(__dirname, 'fixtures/trademarks/uspto.xml')))
+    assert.equal(records.length, 2)
+    assert.deepEqual(records[0], {
+      mark: 'ZENLEDGER', normalized: 'zenledger', office: 'USPTO', registrationNumber: '7123456',
+      owner: 'Zen Ledger Inc.', classes: [9, 36], status: 'registered'
+    })
+    assert.equal(records[1]?.registrationNumber, '97654321') // Zero-padded registration falls back to the serial
+    assert.equal(records[1]?.status, 'dead')
+  })
+
+  test('keeps XML buffering bounded when no filing element matches', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trademarks-'))
+    const filePath = path.join(dir, 'large.xml')
+    try {
+      const filler = `<other>${'x'.repeat(1024 * 1024)}</other>\n`
+      const record = '<case-file><mark-identification>Zenledger</mark-identification><status-code>800</status-code></case-file>'
+      fs.writeFileSync(filePath, `<root>${filler.repeat(6)}${record}<case-file><mark-identification>Unclosed`)
+      const records = await collect(readXmlRecords(filePath))
+      assert.deepEqual(records.map(found => found?.normalized), ['zenledger'])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('reads CSV rows and office status codes', () => {
+    const record = parseTrademarkCsvRow({ wordmark: 'Zenledger', registrationnumber: '018123456', niceclasses: '36, 9', status: 'Registered' }, 'EUIPO')
+    assert.deepEqual(record?.classes, [9, 36])
+    assert.equal(record?.registrationNumber, '018123456')
+    assert.equal(normalizeStatus('Expired'), 'dead')
+    assert.equal(normalizeStatus('710'), 'dead')
+    assert.equal(normalizeStatus('Application filed'), 'pending')
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { WEIGHT_PROFILES, resolveWeighting, validateWeights, getWeightOptionsError } from '../weight-profiles'
+
+describe('weight profiles', () => {
+  test('every profile sums to 1', () => {
+    for (const profile of Object.values(WEIGHT_PROFILES)) {
+      assert.equal(validateWeights(profile.weights), null, profile.name)
+    }
+  })
+
+  test('short premium names get premium-short, scaled as before the weights were rescaled', () => {
+    const weighting = resolveWeighting('abc.com')
+    assert.equal(weighting.profile, 'premium-short')
+    assert.equal(weighting.scoreScale, 1.1)
+    assert.equal(resolveWeighting('example.com').profile, 'balanced')
+    assert.equal(resolveWeighting('example.com').scoreScale, undefined)
+  })
+
+  test('caller weights and profiles win', () => {
+    assert.equal(resolveWeighting('abc.com', { weightProfile: 'end-user' }).profile, 'end-user')
+    const weights = { ...WEIGHT_PROFILES.balanced.weights }
+    assert.deepEqual(resolveWeighting('abc.com', { weights }), { profile: 'custom', weights })
+  })
+
+  test('rejects invalid weights', () => {
+    assert.match(validateWeights({ ...WEIGHT_PROFILES.balanced.weights, length: 0.5 }) || '', /sum to 1/)
+    assert.match(validateWeights({ ...WEIGHT_PROFILES.balanced.weights, legal: 0.1, length: 0.02 }) || '', /legal/)
+    assert.match(getWeightOptionsError({ weightProfile: 'nope' }) || '', /Unknown weight profile/)
+  })
+})
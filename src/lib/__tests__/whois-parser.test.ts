@@ -0,0 +1,96 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { parseWhoisResponse, parseWhoisDate, findWhoisReferral } from '../whois-parser'
+import { WhoisClient, WhoisError } from '../whois-client'
+
+// Raw port-43 responses, one per registry layout
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures/whois', name), 'utf8')
+
+describe('parseWhoisResponse', () => {
+  test('.com (ICANN layout)', () => {
+    const data = parseWhoisResponse('google.com', fixture('com.txt'))
+    assert.equal(data?.isAvailable, false)
+    assert.equal(data?.registrationDate, '1997-09-15T04:00:00.000Z')
+    assert.equal(data?.expirationDate, '2028-09-14T04:00:00.000Z')
+    assert.equal(data?.registrar, 'MarkMonitor Inc.')
+    assert.deepEqual(data?.nameServers, ['ns1.google.com', 'ns2.google.com', 'ns3.google.com', 'ns4.google.com'])
+    assert.equal(data?.status, 'clientDeleteProhibited')
+  })
+
+  test('.uk (indented Nominet blocks)', () => {
+    const data = parseWhoisResponse('example.co.uk', fixture('uk.txt'))
+    assert.equal(data?.isAvailable, false)
+    assert.equal(data?.registrationDate, '1996-08-26T00:00:00.000Z')
+    assert.equal(data?.expirationDate, '2026-08-26T00:00:00.000Z')
+    assert.equal(data?.registrar, 'Example Registrar Ltd')
+    assert.deepEqual(data?.nameServers, ['ns1.example.net', 'ns2.example.net'])
+  })
+
+  test('.de (DENIC, name servers only)', () => {
+    const data = parseWhoisResponse('example.de', fixture('de.txt'))
+    assert.equal(data?.isAvailable, false)
+    assert.deepEqual(data?.nameServers, ['ns1.example.net', 'ns2.example.net'])
+    assert.equal(data?.status, 'connect')
+  })
+
+  test('.jp (JPRS bracketed keys)', () => {
+    const data = parseWhoisResponse('example.jp', fixture('jp.txt'))
+    assert.equal(data?.isAvailable, false)
+    assert.equal(data?.registrationDate, '2001-05-17T00:00:00.000Z')
+    assert.equal(data?.expirationDate, '2025-05-31T00:00:00.000Z')
+    assert.deepEqual(data?.nameServers, ['ns1.example.jp', 'ns2.example.jp'])
+  })
+
+  test('.br (registro.br compact dates and handles)', () => {
+    const data = parseWhoisResponse('example.com.br', fixture('br.txt'))
+    assert.equal(data?.isAvailable, false)
+    assert.equal(data?.registrationDate, '1999-06-14T00:00:00.000Z') // The domain's, not the contact's
+    assert.equal(data?.expirationDate, '2025-06-14T00:00:00.000Z')
+    assert.deepEqual(data?.nameServers, ['a.dns.example.com.br', 'b.dns.example.com.br'])
+  })
+
+  test('not-found replies are available', () => {
+    for (const name of ['com-not-found.txt', 'de-not-found.txt', 'br-not-found.txt']) {
+      const data = parseWhoisResponse('unregistered.example', fixture(name))
+      assert.equal(data?.isAvailable, true, name)
+    }
+  })
+
+  test('empty and rate-limit replies are not treated as registered', () => {
+    assert.equal(parseWhoisResponse('example.org', fixture('empty.txt')), null)
+    assert.equal(parseWhoisResponse('example.org', fixture('rate-limit.txt')), null)
+  })
+})
+
+describe('parseWhoisDate', () => {
+  test('normalizes registry date formats', () => {
+    assert.equal(parseWhoisDate('26-Aug-1996'), '1996-08-26T00:00:00.000Z')
+    assert.equal(parseWhoisDate('2001/05/17'), '2001-05-17T00:00:00.000Z')
+    assert.equal(parseWhoisDate('19990614 #12345'), '1999-06-14T00:00:00.000Z')
+    assert.equal(parseWhoisDate('31.01.2024'), '2024-01-31T00:00:00.000Z')
+    assert.equal(parseWhoisDate('not a date'), undefined)
+  })
+})
+
+describe('findWhoisReferral', () => {
+  test('reads the registrar WHOIS server', () => {
+    assert.equal(findWhoisReferral(fixture('com.txt')), 'whois.markmonitor.com')
+  })
+})
+
+describe('WhoisClient.lookup', () => {
+  const clientReturning = (text: string) => new WhoisClient({ serverOverride: 'stub:43', transport: async () => text })
+
+  test('parses the registry answer', async () => {
+    const data = await clientReturning(fixture('uk.txt')).lookup('example.co.uk')
+    assert.equal(data.isAvailable, false)
+    assert.ok((data.ageInYears || 0) > 25)
+  })
+
+  test('rejects rate-limit and empty answers so callers fall back', async () => {
+    await assert.rejects(clientReturning(fixture('rate-limit.txt')).lookup('example.org'), WhoisError)
+    await assert.rejects(clientReturning(fixture('empty.txt')).lookup('example.org'), WhoisError)
+  })
+})
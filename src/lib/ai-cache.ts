@@ -0,0 +1,74 @@
+// Persistent cache for validated AI responses, keyed by domain, task, prompt version and the
+// provider and model that answered. Only real model output is stored (not mock or disabled providers).
+// Appraisal results are cached per options hash; AI analyses do not depend on the options,
+// so re-appraising a domain with different AppraisalOptions reuses them instead of spending tokens.
+
+import { createHash } from 'crypto';
+import { getStorage } from './database';
+import type { AIChatMessage, AITask } from './ai-provider';
+import type { AIAnalysisFilter } from './storage';
+
+// AI_CACHE_TTL_HOURS=0 disables the cache
+const CACHE_TTL_HOURS = parseFloat(process.env.AI_CACHE_TTL_HOURS || '168');
+
+let cacheEnabled = CACHE_TTL_HOURS > 0;
+
+export function isAICacheEnabled(): boolean {
+  return cacheEnabled;
+}
+
+/**
+ * Turn the cache off (or back on) for this process, e.g. so backtests never see stored AI answers
+ */
+export function setAICacheEnabled(enabled: boolean): void {
+  cacheEnabled = enabled && CACHE_TTL_HOURS > 0;
+}
+
+/**
+ * Version of a prompt as answered by one model: a hash of the provider, the model and the
+ * messages with the domain replaced by a placeholder, so editing a prompt or switching models
+ * automatically stops earlier cached answers from being used.
+ */
+export function getPromptVersion(messages: AIChatMessage[], subject: string, answeredBy: string): string {
+  const template = JSON.stringify(messages).split(subject).join('{domain}');
+  return createHash('md5').update(`${answeredBy}\n${template}`).digest('hex').slice(0, 12);
+}
+
+export async function getCachedAnalysis<T>(domain: string, task: AITask, promptVersion: string): Promise<T | null> {
+  if (!isAICacheEnabled()) return null;
+
+  try {
+    const since = new Date(Date.now() - CACHE_TTL_HOURS * 60 * 60 * 1000);
+    const cached = await getStorage().aiAnalyses.find(domain.toLowerCase(), task, promptVersion, since);
+    if (cached) {
+      console.log(`Using cached ${task} analysis for ${domain} from ${cached.createdAt}`);
+      return cached.result as T;
+    }
+  } catch (error) {
+    console.error(`AI cache lookup failed for ${task}:`, error);
+  }
+
+  return null;
+}
+
+export async function saveAnalysis(domain: string, task: AITask, promptVersion: string, result: unknown): Promise<void> {
+  if (!isAICacheEnabled()) return;
+
+  try {
+    await getStorage().aiAnalyses.save(domain.toLowerCase(), task, promptVersion, result);
+  } catch (error) {
+    // Caching is best effort - the analysis itself succeeded
+    console.error(`Failed to cache ${task} analysis:`, error);
+  }
+}
+
+/**
+ * Drop cached analyses, e.g. to force a domain to be re-analyzed. Prompt edits and model
+ * switches do not need this since they change the prompt version.
+ */
+export async function invalidateAICache(filter: AIAnalysisFilter = {}): Promise<number> {
+  return getStorage().aiAnalyses.invalidate({
+    ...filter,
+    domain: filter.domain?.toLowerCase()
+  });
+}
@@ -0,0 +1,207 @@
+// AI provider abstraction used by the analysis functions in xai.ts
+//
+// AI_PROVIDER=mock selects the deterministic offline provider and AI_PROVIDER=none disables
+// AI entirely (every analysis uses its heuristic fallback). Anything else uses an
+// OpenAI-compatible chat completions API, configured per task:
+//   AI_BASE_URL / AI_<TASK>_BASE_URL   (default https://api.x.ai/v1)
+//   AI_MODEL    / AI_<TASK>_MODEL      (default grok-2-1212)
+//   AI_API_KEY  / AI_<TASK>_API_KEY    (falls back to XAI_API_KEY)
+// where <TASK> is BRANDABILITY, TRAFFIC, TRADEMARK, AVAILABILITY or COMPARABLES.
+
+import OpenAI from "openai";
+import { createHash } from 'crypto';
+
+export type AITask = 'brandability' | 'traffic' | 'trademark' | 'availability' | 'comparables';
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  task: AITask;
+  subject: string; // The domain being analyzed
+  messages: AIChatMessage[];
+  timeoutMs?: number;
+}
+
+export interface AIProvider {
+  name: string;
+  /** Whether answers are real model output worth storing in the AI cache */
+  cacheable: boolean;
+  /** Model answering `task`; part of the AI cache key so a model switch does not reuse old answers */
+  modelFor(task: AITask): string;
+  /** Run a JSON-mode chat completion and return the raw response text */
+  completeJSON(request: AICompletionRequest): Promise<string>;
+}
+
+export interface AITaskConfig {
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+}
+
+const DEFAULT_BASE_URL = "https://api.x.ai/v1";
+const DEFAULT_MODEL = "grok-2-1212";
+
+export function getTaskConfig(task: AITask): AITaskConfig {
+  const prefix = `AI_${task.toUpperCase()}_`;
+  return {
+    baseURL: process.env[`${prefix}BASE_URL`] || process.env.AI_BASE_URL || DEFAULT_BASE_URL,
+    apiKey: process.env[`${prefix}API_KEY`] || process.env.AI_API_KEY || process.env.XAI_API_KEY,
+    model: process.env[`${prefix}MODEL`] || process.env.AI_MODEL || DEFAULT_MODEL
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, task: AITask): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  // Add timeout to prevent hanging
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timeout: ${task} analysis took too long`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Provider for xAI or any OpenAI-compatible server (vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  name = 'openai-compatible';
+  cacheable = true;
+  private clients = new Map<string, OpenAI>();
+
+  constructor(private resolveConfig: (task: AITask) => AITaskConfig = getTaskConfig) {}
+
+  modelFor(task: AITask): string {
+    const config = this.resolveConfig(task);
+    return `${config.baseURL}|${config.model}`;
+  }
+
+  private getClient(config: AITaskConfig): OpenAI {
+    if (!config.apiKey) {
+      throw new Error("AI API key is not set (AI_API_KEY or XAI_API_KEY)");
+    }
+
+    const cacheKey = `${config.baseURL}|${config.apiKey}`;
+    let client = this.clients.get(cacheKey);
+    if (!client) {
+      client = new OpenAI({ baseURL: config.baseURL, apiKey: config.apiKey });
+      this.clients.set(cacheKey, client);
+    }
+    return client;
+  }
+
+  async completeJSON(request: AICompletionRequest): Promise<string> {
+    const config = this.resolveConfig(request.task);
+    const client = this.getClient(config);
+
+    const response = await withTimeout(
+      client.chat.completions.create({
+        model: config.model,
+        messages: request.messages,
+        response_format: { type: "json_object" },
+      }),
+      request.timeoutMs,
+      request.task
+    );
+
+    return response.choices[0].message.content || '{}';
+  }
+}
+
+/**
+ * Deterministic offline provider: the same task and domain always produce the
+ * same plausible response, so analyses can run in tests without network access.
+ */
+export class MockAIProvider implements AIProvider {
+  name = 'mock';
+  cacheable = false;
+
+  modelFor(): string {
+    return 'mock';
+  }
+
+  async completeJSON(request: AICompletionRequest): Promise<string> {
+    const domain = request.subject.toLowerCase();
+    const seed = parseInt(createHash('sha1').update(`${request.task}:${domain}`).digest('hex').slice(0, 8), 16);
+    const label = domain.split('.')[0];
+    const tld = domain.slice(label.length + 1) || 'com';
+
+    switch (request.task) {
+      case 'brandability':
+        return JSON.stringify({
+          score: 40 + (seed % 50),
+          commentary: `Mock brandability analysis for ${domain}.`
+        });
+      case 'traffic':
+        return JSON.stringify({
+          monthlyTraffic: 50 + (seed % 5000),
+          explanation: `Mock traffic estimate for ${domain}.`
+        });
+      case 'trademark':
+        return JSON.stringify({
+          hasConflict: false,
+          severity: 'clear',
+          explanation: `Mock trademark review for ${domain}: no conflicts.`
+        });
+      case 'availability':
+        return JSON.stringify({
+          isAvailable: label.length > 8 && seed % 2 === 0,
+          confidence: 50 + (seed % 40),
+          reasoning: `Mock availability estimate for ${domain}.`
+        });
+      case 'comparables':
+        return JSON.stringify({
+          comparables: Array.from({ length: 5 }, (_, i) => ({
+            domain: `${label.slice(0, Math.max(3, label.length - 1))}${i + 1}.${tld}`,
+            soldPrice: 500 + ((seed >>> i) % 4500),
+            soldDate: `2024-0${(i % 9) + 1}-15`,
+            source: 'Mock',
+            similarity: 60 + ((seed >>> (i + 1)) % 30)
+          }))
+        });
+    }
+  }
+}
+
+/**
+ * Provider that always fails, so every analysis falls back to its heuristics (offline backtests)
+ */
+export class DisabledAIProvider implements AIProvider {
+  name = 'none';
+  cacheable = false;
+
+  modelFor(): string {
+    return 'none';
+  }
+
+  async completeJSON(request: AICompletionRequest): Promise<string> {
+    throw new Error(`AI disabled: ${request.task} analysis uses heuristics`);
+  }
+}
+
+let provider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    const name = process.env.AI_PROVIDER?.toLowerCase();
+    provider = name === 'mock'
+      ? new MockAIProvider()
+      : name === 'none'
+        ? new DisabledAIProvider()
+        : new OpenAICompatibleProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replace the active provider (e.g. with MockAIProvider in tests or offline scripts)
+ */
+export function setAIProvider(next: AIProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,232 @@
+// Response schemas for AI analyses, plus validated completion with retry and repair
+
+import { getAIProvider, type AICompletionRequest, type AIChatMessage } from './ai-provider';
+import { getCachedAnalysis, saveAnalysis, getPromptVersion } from './ai-cache';
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; error: string };
+export type Schema<T> = (input: unknown) => SchemaResult<T>;
+
+const MAX_RETRIES = parseInt(process.env.AI_MAX_RETRIES || '2', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '500', 10);
+
+/**
+ * Thrown when the AI response could not be used; `reason` is recorded on fallback results
+ */
+export class AIResponseError extends Error {
+  constructor(public reason: string, message: string = reason) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+// --- Field checks -----------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(obj: Record<string, unknown>, key: string, min: number, max: number): string | null {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return `"${key}" must be a number`;
+  if (value < min || value > max) return `"${key}" must be between ${min} and ${max}`;
+  return null;
+}
+
+function checkString(obj: Record<string, unknown>, key: string): string | null {
+  const value = obj[key];
+  if (typeof value !== 'string' || value.trim() === '') return `"${key}" must be a non-empty string`;
+  return null;
+}
+
+function checkBoolean(obj: Record<string, unknown>, key: string): string | null {
+  return typeof obj[key] === 'boolean' ? null : `"${key}" must be a boolean`;
+}
+
+function checkEnum(obj: Record<string, unknown>, key: string, allowed: readonly string[]): string | null {
+  const value = obj[key];
+  return typeof value === 'string' && allowed.includes(value)
+    ? null
+    : `"${key}" must be one of ${allowed.join(', ')}`;
+}
+
+function objectSchema<T>(checks: (obj: Record<string, unknown>) => (string | null)[]): Schema<T> {
+  return (input) => {
+    if (!isObject(input)) return { ok: false, error: 'response must be a JSON object' };
+    const error = checks(input).find(Boolean);
+    return error ? { ok: false, error } : { ok: true, value: input as T };
+  };
+}
+
+// --- Task schemas -----------------------------------------------------------
+
+export interface BrandabilityResponse {
+  score: number;
+  commentary: string;
+}
+
+export interface TrafficResponse {
+  monthlyTraffic: number;
+  explanation: string;
+}
+
+export interface TrademarkResponse {
+  hasConflict: boolean;
+  severity: 'clear' | 'warning' | 'severe';
+  explanation: string;
+}
+
+export interface AvailabilityResponse {
+  isAvailable: boolean;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface ComparableResponse {
+  domain: string;
+  soldPrice: number;
+  soldDate: string;
+  source: string;
+  similarity: number;
+}
+
+export interface ComparablesResponse {
+  comparables: ComparableResponse[];
+}
+
+export const brandabilitySchema = objectSchema<BrandabilityResponse>(obj => [
+  checkNumber(obj, 'score', 0, 100),
+  checkString(obj, 'commentary')
+]);
+
+export const trafficSchema = objectSchema<TrafficResponse>(obj => [
+  checkNumber(obj, 'monthlyTraffic', 0, 1e10),
+  checkString(obj, 'explanation')
+]);
+
+export const trademarkSchema = objectSchema<TrademarkResponse>(obj => [
+  checkBoolean(obj, 'hasConflict'),
+  checkEnum(obj, 'severity', ['clear', 'warning', 'severe']),
+  checkString(obj, 'explanation')
+]);
+
+export const availabilitySchema = objectSchema<AvailabilityResponse>(obj => [
+  checkBoolean(obj, 'isAvailable'),
+  checkNumber(obj, 'confidence', 0, 100),
+  checkString(obj, 'reasoning')
+]);
+
+const comparableSchema = objectSchema<ComparableResponse>(obj => [
+  typeof obj.domain === 'string' && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(obj.domain) ? null : '"domain" must be a domain name',
+  checkNumber(obj, 'soldPrice', 1, 1e9),
+  typeof obj.soldDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(obj.soldDate) ? null : '"soldDate" must be YYYY-MM-DD',
+  checkString(obj, 'source'),
+  checkNumber(obj, 'similarity', 0, 100)
+]);
+
+export const comparablesSchema: Schema<ComparablesResponse> = (input) => {
+  if (!isObject(input) || !Array.isArray(input.comparables) || input.comparables.length === 0) {
+    return { ok: false, error: '"comparables" must be a non-empty array' };
+  }
+  for (let i = 0; i < input.comparables.length; i++) {
+    const result = comparableSchema(input.comparables[i]);
+    if (!result.ok) return { ok: false, error: `comparables[${i}]: ${result.error}` };
+  }
+  return { ok: true, value: input as unknown as ComparablesResponse };
+};
+
+// --- Validated completion ---------------------------------------------------
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export interface CompleteValidatedOptions {
+  maxRetries?: number;
+  /** Reuse a stored response for the same domain, task, prompt version and model (see ai-cache.ts) */
+  cache?: boolean;
+}
+
+/**
+ * Run an AI completion and validate it against a schema. Malformed output is
+ * retried (with exponential backoff) by showing the model its previous answer
+ * and the validation error so it can repair it. Provider errors such as
+ * timeouts or a missing API key are not retried.
+ */
+export async function completeValidated<T>(
+  request: AICompletionRequest,
+  schema: Schema<T>,
+  { maxRetries = MAX_RETRIES, cache = false }: CompleteValidatedOptions = {}
+): Promise<T> {
+  const provider = getAIProvider();
+  if (!cache || !provider.cacheable) {
+    return completeWithRetries(request, schema, maxRetries);
+  }
+
+  const promptVersion = getPromptVersion(request.messages, request.subject, `${provider.name}|${provider.modelFor(request.task)}`);
+  const cached = await getCachedAnalysis<unknown>(request.subject, request.task, promptVersion);
+  // Re-validate so entries written under an older schema are ignored
+  const cachedResult = cached !== null ? schema(cached) : null;
+  if (cachedResult?.ok) {
+    return cachedResult.value;
+  }
+
+  const value = await completeWithRetries(request, schema, maxRetries);
+  await saveAnalysis(request.subject, request.task, promptVersion, value);
+  return value;
+}
+
+async function completeWithRetries<T>(request: AICompletionRequest, schema: Schema<T>, maxRetries: number): Promise<T> {
+  let messages: AIChatMessage[] = request.messages;
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+
+    let content: string;
+    try {
+      content = await getAIProvider().completeJSON({ ...request, messages });
+    } catch (error) {
+      throw new AIResponseError(
+        `provider_error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      lastError = 'response was not valid JSON';
+      messages = repairMessages(request.messages, content, lastError);
+      continue;
+    }
+
+    const result = schema(parsed);
+    if (result.ok) {
+      return result.value;
+    }
+
+    lastError = result.error;
+    messages = repairMessages(request.messages, content, lastError);
+    console.warn(`AI ${request.task} response failed validation (attempt ${attempt + 1}): ${lastError}`);
+  }
+
+  throw new AIResponseError(`invalid_response: ${lastError} after ${maxRetries + 1} attempts`);
+}
+
+function repairMessages(original: AIChatMessage[], previous: string, error: string): AIChatMessage[] {
+  return [
+    ...original,
+    { role: 'assistant', content: previous },
+    { role: 'user', content: `That response was invalid: ${error}. Reply again with only JSON in exactly the requested format.` }
+  ];
+}
+
+/**
+ * Human-readable reason for falling back to heuristics
+ */
+export function describeFallbackReason(error: unknown): string {
+  if (error instanceof AIResponseError) return error.reason;
+  return `provider_error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto'
+import { getStorage } from './database'
+import { evaluateDomain } from './valuation'
+import { startBackgroundWhoisUpdate } from './background-whois'
+import { WEIGHT_PROFILES } from './weight-profiles'
+import { localizeAppraisal } from './exchange-rates'
+import type { DomainAppraisal, AppraisalOptions, FactorBreakdown } from '../types'
+
+const CACHE_WINDOW_MS = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+
+/**
+ * Generate the options hash used as part of the appraisal cache key.
+ * A named weight profile is hashed together with its weights, so editing a profile
+ * does not serve appraisals scored with the old table. Currency and locale only change how
+ * prices are presented, so they are left out.
+ */
+export function hashAppraisalOptions(options: AppraisalOptions = {}): string {
+  const { currency: _currency, locale: _locale, ...scoringOptions } = options || {}
+  const keyOptions = scoringOptions.weightProfile && !scoringOptions.weights && WEIGHT_PROFILES[scoringOptions.weightProfile]
+    ? { ...scoringOptions, weights: WEIGHT_PROFILES[scoringOptions.weightProfile].weights }
+    : scoringOptions
+  return createHash('md5').update(JSON.stringify(keyOptions)).digest('hex')
+}
+
+/**
+ * Look up a recent (within 24 hours) appraisal for a domain and options hash
+ */
+export async function getCachedAppraisal(domain: string, optionsHash: string): Promise<DomainAppraisal | null> {
+  try {
+    const cached = await getStorage().appraisals.findRecent(domain, optionsHash, new Date(Date.now() - CACHE_WINDOW_MS))
+
+    if (cached) {
+      console.log(`Using cached evaluation for ${domain} from ${cached.createdAt}`)
+
+      // Return cached evaluation in the same format as fresh evaluation
+      const { id, optionsHash: _optionsHash, createdAt, ...appraisal } = cached
+      return appraisal
+    }
+  } catch (cacheError) {
+    console.error('Cache lookup failed, proceeding with fresh evaluation:', cacheError)
+  }
+
+  return null
+}
+
+/**
+ * Persist a fresh appraisal and return its row id
+ */
+export async function saveAppraisal(appraisal: DomainAppraisal, optionsHash: string): Promise<number | null> {
+  try {
+    return await getStorage().appraisals.insert(appraisal, optionsHash)
+  } catch (dbError) {
+    console.error('Failed to persist appraisal:', dbError)
+    // Continue anyway - don't fail the request if DB save fails
+    return null
+  }
+}
+
+/**
+ * Return the cached appraisal for a domain, or run a fast evaluation
+ * (WHOIS deferred to the background) and persist it. Appraisals are stored in USD and
+ * converted to `options.currency` on the way out.
+ * `onFactor` receives each breakdown row as it resolves (replayed on cache hits).
+ */
+export async function appraiseWithCache(
+  domain: string,
+  options: AppraisalOptions = {},
+  onFactor?: (factor: FactorBreakdown) => void
+): Promise<{ appraisal: DomainAppraisal; cached: boolean }> {
+  const optionsHash = hashAppraisalOptions(options)
+
+  const cached = await getCachedAppraisal(domain, optionsHash)
+  if (cached) {
+    console.log(`Cache hit: returning cached evaluation for ${domain}`)
+    cached.breakdown.forEach(factor => onFactor?.(factor))
+    return { appraisal: localizeAppraisal(cached, options), cached: true }
+  }
+
+  console.log(`Performing fast evaluation for ${domain} (WHOIS in background)`)
+  const appraisal = await evaluateDomain(domain, { ...options, skipWhois: true, onFactor })
+
+  const appraisalId = await saveAppraisal(appraisal, optionsHash)
+
+  // Start WHOIS lookup in background to update the record later
+  if (appraisalId) {
+    startBackgroundWhoisUpdate(domain, appraisalId)
+  }
+
+  return { appraisal: localizeAppraisal(appraisal, options), cached: false }
+}
@@ -1,5 +1,5 @@
 import { getWhoisData } from './xai'
-import { getSupabaseClient } from './database'
+import { getStorage } from './database'
 
 /**
  * Update WHOIS data for a domain in the background
@@ -12,53 +12,25 @@ export async function updateWhoisInBackground(domain: string, appraisalId?: numb
     // Get WHOIS data
     const whoisData = await getWhoisData(domain)
     
-    // Update the database record if we have an appraisal ID
-    if (appraisalId) {
-      const supabase = await getSupabaseClient()
-      
-      const { error } = await supabase
-        .from('appraisals')
-        .update({ 
-          whois_data: whoisData 
-        })
-        .eq('id', appraisalId)
-      
-      if (error) {
-        console.error('Failed to update WHOIS data in database:', error)
-      } else {
-        console.log(`WHOIS data updated for ${domain} (ID: ${appraisalId})`)
-      }
-    } else {
-      // If no appraisal ID, find the most recent appraisal for this domain first
-      const supabase = await getSupabaseClient()
-      
-      const { data: latestAppraisal, error: selectError } = await supabase
-        .from('appraisals')
-        .select('id')
-        .eq('domain', domain)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single()
-      
-      if (selectError) {
-        console.error('Failed to find latest appraisal for WHOIS update:', selectError)
+    const appraisals = getStorage().appraisals
+    
+    // Update the database record if we have an appraisal ID,
+    // otherwise find the most recent appraisal for this domain first
+    let targetId = appraisalId
+    if (!targetId) {
+      const latestAppraisal = await appraisals.findLatest(domain)
+      if (!latestAppraisal) {
+        console.error(`Failed to find latest appraisal for WHOIS update of ${domain}`)
         return
       }
-      
-      if (latestAppraisal) {
-        const { error: updateError } = await supabase
-          .from('appraisals')
-          .update({ 
-            whois_data: whoisData 
-          })
-          .eq('id', latestAppraisal.id)
-        
-        if (updateError) {
-          console.error('Failed to update WHOIS data in database:', updateError)
-        } else {
-          console.log(`WHOIS data updated for latest ${domain} appraisal (ID: ${latestAppraisal.id})`)
-        }
-      }
+      targetId = latestAppraisal.id
+    }
+    
+    try {
+      await appraisals.updateWhois(targetId, whoisData)
+      console.log(`WHOIS data updated for ${domain} (ID: ${targetId})`)
+    } catch (updateError) {
+      console.error('Failed to update WHOIS data in database:', updateError)
     }
     
   } catch (error) {
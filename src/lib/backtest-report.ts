@@ -0,0 +1,105 @@
+// Standalone HTML rendering of a backtest report (no external assets, opens from disk)
+import type { BacktestReport, BacktestMetrics } from './backtest'
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatPct(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`
+}
+
+function formatNumber(value: number | null, digits: number = 2): string {
+  return value === null ? 'n/a' : value.toFixed(digits)
+}
+
+function formatPrice(value: number | null): string {
+  return value === null ? 'n/a' : `$${Math.round(value).toLocaleString('en-US')}`
+}
+
+function metricsTable(title: string, groups: Record<string, BacktestMetrics>): string {
+  const rows = Object.entries(groups).map(([group, m]) => `
+      <tr>
+        <td>${escapeHtml(group)}</td>
+        <td>${m.count}</td>
+        <td>${formatPct(m.medianAbsPctError)}</td>
+        <td>${formatPct(m.medianAbsPctErrorInvestor)}</td>
+        <td>${formatPct(m.bracketHitRate)}</td>
+        <td>${formatNumber(m.rankCorrelation)}</td>
+        <td>${formatPrice(m.medianSoldPrice)}</td>
+        <td>${formatPrice(m.medianPredictedRetail)}</td>
+      </tr>`).join('')
+
+  return `
+  <h2>${escapeHtml(title)}</h2>
+  <table>
+    <thead>
+      <tr>
+        <th>Group</th><th>Cases</th><th>Median abs % error (retail)</th><th>Median abs % error (investor)</th>
+        <th>Bracket hit-rate</th><th>Rank correlation</th><th>Median sold</th><th>Median predicted</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`
+}
+
+/**
+ * Render a backtest report as a self-contained HTML page
+ */
+export function renderBacktestHtml(report: BacktestReport): string {
+  const worstCases = [...report.cases].sort((a, b) => b.absPctError - a.absPctError).slice(0, 25)
+  const caseRows = worstCases.map(c => `
+      <tr>
+        <td>${escapeHtml(c.domain)}</td>
+        <td>${formatPrice(c.soldPrice)}</td>
+        <td>${escapeHtml(c.soldDate)}</td>
+        <td>${c.finalScore.toFixed(1)}</td>
+        <td>${formatPrice(c.predictedRetail)}</td>
+        <td>${formatPct(c.absPctError)}</td>
+        <td>${c.bracketHit ? 'yes' : 'no'}</td>
+      </tr>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Valuation backtest - ${escapeHtml(report.generatedAt)}</title>
+  <style>
+    body { font-family: ui-monospace, Menlo, monospace; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    th { background: #f3f4f6; }
+    .summary td { text-align: left; }
+  </style>
+</head>
+<body>
+  <h1>Valuation backtest</h1>
+  <table class="summary">
+    <tr><td>Generated</td><td>${escapeHtml(report.generatedAt)}</td></tr>
+    <tr><td>Sample</td><td>${report.overall.count} appraised of ${report.options.sampleSize} requested (seed "${escapeHtml(report.options.seed)}", min price ${formatPrice(report.options.minPrice)}${report.options.since ? `, since ${escapeHtml(report.options.since)}` : ''})</td></tr>
+    <tr><td>Comparables</td><td>${report.options.useComps ? 'on (own sales excluded)' : 'off'}</td></tr>
+    <tr><td>Weight profile</td><td>${escapeHtml(report.options.weightProfile || 'automatic')}</td></tr>
+    <tr><td>Failures</td><td>${report.failures.length}</td></tr>
+  </table>
+${metricsTable('Overall', { all: report.overall })}
+${metricsTable('By TLD', report.byTld)}
+${metricsTable('By length', report.byLength)}
+${metricsTable('By price band', report.byPriceBand)}
+  <h2>Largest errors</h2>
+  <table>
+    <thead>
+      <tr><th>Domain</th><th>Sold</th><th>Date</th><th>Score</th><th>Predicted retail</th><th>Abs % error</th><th>Bracket hit</th></tr>
+    </thead>
+    <tbody>${caseRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`
+}
@@ -0,0 +1,246 @@
+// Backtesting: appraise names that actually sold and measure how far the model's prices are off.
+// Runs fully offline - WHOIS is skipped, AI analyses use their heuristic fallbacks, and the
+// domain under test is excluded from its own comparables so its sale price cannot leak in.
+// Comparables are limited to sales before the tested sale, and only names in the price model's
+// holdout split are sampled, so neither comps nor the model have seen the answer.
+import type { DomainAppraisal } from '../types'
+import type { DomainSaleRecord } from './storage'
+import { getStorage } from './database'
+import { evaluateDomain, mapScoreToPriceBracket } from './valuation'
+import { getPriceModel, isPriceModelHoldout } from './price-model'
+import { setAIProvider, DisabledAIProvider } from './ai-provider'
+import { setAICacheEnabled } from './ai-cache'
+import { mapWithConcurrency } from './concurrency'
+import { extractTLD, extractDomainName } from './tld-utils'
+
+export interface BacktestOptions {
+  sampleSize?: number
+  seed?: string
+  minPrice?: number
+  since?: string // Only sales on or after this date (YYYY-MM-DD)
+  useComps?: boolean
+  weightProfile?: string
+  concurrency?: number
+}
+
+export interface BacktestCase {
+  domain: string
+  tld: string
+  length: number
+  soldPrice: number
+  soldDate: string
+  venue: string
+  finalScore: number
+  bracket: string
+  bracketMin: number
+  bracketMax: number
+  predictedInvestor: number
+  predictedRetail: number
+  absPctError: number // |retail - sold| / sold
+  bracketHit: boolean // Sale price inside the appraisal's price range (mapScoreToPriceBracket)
+}
+
+export interface BacktestMetrics {
+  count: number
+  medianAbsPctError: number | null
+  medianAbsPctErrorInvestor: number | null
+  bracketHitRate: number | null
+  rankCorrelation: number | null // Spearman rho between predicted retail and sold price
+  medianSoldPrice: number | null
+  medianPredictedRetail: number | null
+}
+
+export interface BacktestReport {
+  generatedAt: string
+  options: Required<Omit<BacktestOptions, 'weightProfile' | 'since'>> & Pick<BacktestOptions, 'weightProfile' | 'since'>
+  overall: BacktestMetrics
+  byTld: Record<string, BacktestMetrics>
+  byLength: Record<string, BacktestMetrics>
+  byPriceBand: Record<string, BacktestMetrics>
+  failures: { domain: string; error: string }[]
+  cases: BacktestCase[]
+}
+
+const DEFAULT_OPTIONS = {
+  sampleSize: 200,
+  seed: 'domainosaur',
+  minPrice: 100,
+  useComps: true,
+  concurrency: 4
+}
+
+// TLDs with fewer cases than this are grouped under "other"
+const MIN_TLD_GROUP = 5
+
+const LENGTH_BUCKETS: [string, number, number][] = [
+  ['1-3', 1, 3],
+  ['4-5', 4, 5],
+  ['6-8', 6, 8],
+  ['9-12', 9, 12],
+  ['13+', 13, Infinity]
+]
+
+const PRICE_BANDS: [string, number, number][] = [
+  ['<$500', 0, 499],
+  ['$500-2k', 500, 1999],
+  ['$2k-10k', 2000, 9999],
+  ['$10k-50k', 10000, 49999],
+  ['$50k+', 50000, Infinity]
+]
+
+/**
+ * Sample sold names, appraise them offline and compute error metrics
+ */
+export async function runBacktest(options: BacktestOptions = {}): Promise<BacktestReport> {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+
+  // Offline: no AI calls and no stored AI answers, so every run is reproducible
+  setAIProvider(new DisabledAIProvider())
+  setAICacheEnabled(false)
+
+  // Oversample so enough sales remain after dropping the ones the price model was trained on
+  const model = getPriceModel()
+  const oversample = model ? Math.ceil(100 / Math.max(1, model.holdoutPercent)) : 1
+  const sampled = await getStorage().domainSales.sample({
+    limit: settings.sampleSize * oversample,
+    seed: settings.seed,
+    minPrice: settings.minPrice,
+    since: settings.since
+  })
+  const sales = sampled
+    .filter(sale => !model || isPriceModelHoldout(model, sale.domain))
+    .slice(0, settings.sampleSize)
+
+  const failures: { domain: string; error: string }[] = []
+  const results = await mapWithConcurrency(sales, settings.concurrency, async sale => {
+    try {
+      const appraisal = await evaluateDomain(sale.domain, {
+        skipWhois: true,
+        useComps: settings.useComps,
+        excludeOwnSales: true,
+        compsBefore: sale.date,
+        weightProfile: settings.weightProfile
+      })
+      return toBacktestCase(sale, appraisal)
+    } catch (error) {
+      failures.push({ domain: sale.domain, error: error instanceof Error ? error.message : 'Unknown error' })
+      return null
+    }
+  })
+  const cases = results.filter((result): result is BacktestCase => result !== null)
+
+  return {
+    generatedAt: new Date().toISOString(),
+    options: settings,
+    overall: computeMetrics(cases),
+    byTld: groupMetrics(cases, groupTld(cases)),
+    byLength: groupMetrics(cases, c => bucketFor(LENGTH_BUCKETS, c.length)),
+    byPriceBand: groupMetrics(cases, c => bucketFor(PRICE_BANDS, c.soldPrice)),
+    failures,
+    cases
+  }
+}
+
+function toBacktestCase(sale: DomainSaleRecord, appraisal: DomainAppraisal): BacktestCase {
+  const predictedRetail = appraisal.priceEstimate.retailAmount
+  const predictedInvestor = appraisal.priceEstimate.investorAmount
+  const bracket = mapScoreToPriceBracket(appraisal.finalScore, sale.domain)
+
+  return {
+    domain: sale.domain,
+    tld: extractTLD(sale.domain),
+    length: extractDomainName(sale.domain).length,
+    soldPrice: sale.price,
+    soldDate: sale.date,
+    venue: sale.venue,
+    finalScore: Math.round(appraisal.finalScore * 10) / 10,
+    bracket: bracket.bracket,
+    bracketMin: bracket.min,
+    bracketMax: bracket.max,
+    predictedInvestor,
+    predictedRetail,
+    absPctError: Math.abs(predictedRetail - sale.price) / sale.price,
+    bracketHit: sale.price >= bracket.min && sale.price <= bracket.max
+  }
+}
+
+// --- Metrics ----------------------------------------------------------------
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// Average ranks (1-based), with ties sharing the mean of their positions
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const result = new Array<number>(values.length)
+  for (let i = 0; i < order.length;) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+    const rank = (i + j) / 2 + 1
+    for (let k = i; k <= j; k++) result[order[k].index] = rank
+    i = j + 1
+  }
+  return result
+}
+
+/**
+ * Spearman rank correlation (Pearson correlation of the ranks, which handles ties)
+ */
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3 || xs.length !== ys.length) return null
+  const rx = ranks(xs)
+  const ry = ranks(ys)
+  const mean = (rx.length + 1) / 2
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mean) * (ry[i] - mean)
+    varianceX += (rx[i] - mean) ** 2
+    varianceY += (ry[i] - mean) ** 2
+  }
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+export function computeMetrics(cases: BacktestCase[]): BacktestMetrics {
+  return {
+    count: cases.length,
+    medianAbsPctError: median(cases.map(c => c.absPctError)),
+    medianAbsPctErrorInvestor: median(cases.map(c => Math.abs(c.predictedInvestor - c.soldPrice) / c.soldPrice)),
+    bracketHitRate: cases.length > 0 ? cases.filter(c => c.bracketHit).length / cases.length : null,
+    rankCorrelation: spearman(cases.map(c => c.predictedRetail), cases.map(c => c.soldPrice)),
+    medianSoldPrice: median(cases.map(c => c.soldPrice)),
+    medianPredictedRetail: median(cases.map(c => c.predictedRetail))
+  }
+}
+
+function groupMetrics(cases: BacktestCase[], keyOf: (c: BacktestCase) => string): Record<string, BacktestMetrics> {
+  const groups = new Map<string, BacktestCase[]>()
+  for (const c of cases) {
+    const key = keyOf(c)
+    groups.set(key, [...(groups.get(key) || []), c])
+  }
+
+  // Largest groups first
+  return Object.fromEntries(
+    Array.from(groups.entries())
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([key, group]) => [key, computeMetrics(group)])
+  )
+}
+
+function groupTld(cases: BacktestCase[]): (c: BacktestCase) => string {
+  const counts = new Map<string, number>()
+  cases.forEach(c => counts.set(c.tld, (counts.get(c.tld) || 0) + 1))
+  return c => (counts.get(c.tld) || 0) >= MIN_TLD_GROUP ? c.tld : 'other'
+}
+
+function bucketFor(buckets: [string, number, number][], value: number): string {
+  return buckets.find(([, min, max]) => value >= min && value <= max)?.[0] || 'unknown'
+}
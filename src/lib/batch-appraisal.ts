@@ -0,0 +1,54 @@
+// Portfolio (batch) appraisal built on top of the cached single-domain flow
+import type { AppraisalOptions, BatchAppraisalItem, BatchAppraisalResult } from '../types'
+import { appraiseWithCache } from './appraisal-cache'
+import { mapWithConcurrency } from './concurrency'
+import { normalizeDomainInput, isValidDomainFormat } from './domain-input'
+
+export const BATCH_MAX_DOMAINS = parseInt(process.env.BATCH_MAX_DOMAINS || '500', 10)
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '4', 10)
+
+/**
+ * Normalized domains with duplicates dropped, in the submitted order
+ */
+export function uniqueBatchDomains(domains: string[]): string[] {
+  return Array.from(new Set(domains.map(normalizeDomainInput).filter(Boolean)))
+}
+
+/**
+ * Appraise a list of domains with bounded concurrency.
+ * Each domain succeeds or fails on its own - one bad name never fails the batch.
+ */
+export async function appraiseBatch(
+  domains: string[],
+  options: AppraisalOptions = {},
+  concurrency: number = BATCH_CONCURRENCY
+): Promise<BatchAppraisalResult> {
+  const uniqueDomains = uniqueBatchDomains(domains)
+
+  const results = await mapWithConcurrency(uniqueDomains, concurrency, async (domain): Promise<BatchAppraisalItem> => {
+    if (!isValidDomainFormat(domain)) {
+      return { domain, status: 'error', error: 'Invalid domain format' }
+    }
+
+    try {
+      const { appraisal, cached } = await appraiseWithCache(domain, options)
+      return { domain, status: 'ok', cached, appraisal }
+    } catch (error) {
+      console.error(`Batch evaluation failed for ${domain}:`, error)
+      return {
+        domain,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to evaluate domain'
+      }
+    }
+  })
+
+  const succeeded = results.filter(result => result.status === 'ok').length
+
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  }
+}
@@ -0,0 +1,108 @@
+// Price formatting and currency conversion. Appraisals are priced and stored in USD;
+// conversion happens when they are returned, using a rate table (see exchange-rates.ts).
+// No Node APIs here - the UI formats prices with the same helpers.
+import type { PriceEstimate, HoldingCost } from '../types'
+
+export const BASE_CURRENCY = 'USD'
+export const DEFAULT_LOCALE = 'en-US'
+
+export interface ExchangeRateTable {
+  base: string // Always BASE_CURRENCY
+  updatedAt: string
+  rates: Record<string, number> // Units of each currency per 1 unit of base
+}
+
+/**
+ * Whole-unit price for a locale, e.g. "$1,250" (en-US, USD) or "1.150 €" (de-DE, EUR).
+ * `locale` undefined uses the runtime's default, which in the browser is the user's.
+ */
+export function formatPrice(amount: number, currency: string = BASE_CURRENCY, locale?: string): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+    minimumFractionDigits: 0
+  }).format(amount)
+}
+
+/**
+ * Whether Intl recognizes the locale tag
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Amount converted between two currencies in the table, rounded to whole units.
+ * Throws if the table has no rate for either currency.
+ */
+export function convertAmount(amount: number, table: ExchangeRateTable, from: string, to: string): number {
+  const fromRate = table.rates[from]
+  const toRate = table.rates[to]
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate for ${fromRate ? to : from}`)
+  }
+  return Math.round(amount * toRate / fromRate)
+}
+
+/**
+ * Price estimate in `currency`, with display strings formatted for `locale`.
+ * Throws if the table has no rate for either currency.
+ */
+export function convertPriceEstimate(
+  estimate: PriceEstimate,
+  table: ExchangeRateTable,
+  currency: string = BASE_CURRENCY,
+  locale: string = DEFAULT_LOCALE
+): PriceEstimate {
+  const convert = (amount: number) => convertAmount(amount, table, estimate.currency, currency)
+  const investorAmount = convert(estimate.investorAmount)
+  const retailAmount = convert(estimate.retailAmount)
+
+  return {
+    ...estimate,
+    investor: formatPrice(investorAmount, currency, locale),
+    retail: formatPrice(retailAmount, currency, locale),
+    investorAmount,
+    retailAmount,
+    currency,
+    range: estimate.range && {
+      low: convert(estimate.range.low),
+      mid: convert(estimate.range.mid),
+      high: convert(estimate.range.high)
+    }
+  }
+}
+
+/**
+ * Holding cost in `currency`. Throws if the table has no rate for either currency.
+ */
+export function convertHoldingCost(cost: HoldingCost, table: ExchangeRateTable, currency: string = BASE_CURRENCY): HoldingCost {
+  return {
+    ...cost,
+    annual: convertAmount(cost.annual, table, cost.currency, currency),
+    fiveYear: convertAmount(cost.fiveYear, table, cost.currency, currency),
+    currency
+  }
+}
+
+/**
+ * Fill in the numeric fields of estimates stored before they existed, which only had
+ * USD display strings like "$1,250"
+ */
+export function normalizePriceEstimate(estimate: Partial<PriceEstimate> | null | undefined): PriceEstimate {
+  const parse = (value?: string) => Number((value || '').replace(/[^0-9.]/g, '')) || 0
+  return {
+    investor: estimate?.investor || '',
+    retail: estimate?.retail || '',
+    investorAmount: estimate?.investorAmount ?? parse(estimate?.investor),
+    retailAmount: estimate?.retailAmount ?? parse(estimate?.retail),
+    currency: estimate?.currency || BASE_CURRENCY,
+    explanation: estimate?.explanation || '',
+    ...(estimate?.range ? { range: estimate.range } : {})
+  }
+}
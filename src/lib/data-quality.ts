@@ -0,0 +1,108 @@
+// Data quality of an appraisal: which inputs were looked up or supplied and which were estimated
+// or defaulted, rolled up into a 0-100 confidence score. Low confidence widens the price range.
+import type { DataQuality, DataQualityInput, DataQualityLevel, ComparableSale, WhoisData, PriceRange } from '../types'
+import { isVerifiedWhois } from './provenance'
+import { formatPrice, BASE_CURRENCY } from './currency'
+
+// How much each input contributes to the overall confidence (sums to 1)
+const INPUT_WEIGHTS: Record<DataQualityInput['input'], number> = {
+  whois: 0.15,
+  age: 0.15,
+  traffic: 0.15,
+  brandability: 0.1,
+  comps: 0.35,
+  legal: 0.1
+}
+
+const LEVEL_SCORES: Record<DataQualityLevel, number> = {
+  verified: 100,
+  estimated: 60,
+  fallback: 20
+}
+
+export const DATA_QUALITY_LABELS: Record<DataQualityLevel, string> = {
+  verified: 'Verified',
+  estimated: 'Estimated',
+  fallback: 'Default value'
+}
+
+export function describeWhoisQuality(whoisData: WhoisData, skipped: boolean): DataQualityInput {
+  if (skipped) {
+    return { input: 'whois', source: 'skipped', level: 'fallback', detail: 'Lookup skipped for fast evaluation' }
+  }
+  if (isVerifiedWhois(whoisData)) {
+    return { input: 'whois', source: whoisData.dataSource as string, level: 'verified' }
+  }
+  return {
+    input: 'whois',
+    source: whoisData.dataSource || 'unknown',
+    level: whoisData.fallbackReason ? 'fallback' : 'estimated',
+    detail: whoisData.fallbackReason
+  }
+}
+
+/**
+ * Age and traffic sources as reported by scoreDomainAge / scoreDomainTraffic
+ */
+export function describeSourceQuality(input: 'age' | 'traffic', source: string, detail?: string): DataQualityInput {
+  const level: DataQualityLevel = source === 'fallback' || source === 'estimated'
+    ? 'fallback'
+    : source === 'ai_estimate' ? 'estimated' : 'verified'
+  return { input, source, level, detail }
+}
+
+export function describeCompsQuality(comps: ComparableSale[], useComps?: boolean): DataQualityInput {
+  if (useComps === false) {
+    return { input: 'comps', source: 'disabled', level: 'fallback', detail: 'Comparable sales turned off' }
+  }
+  if (comps.length === 0) {
+    return { input: 'comps', source: 'none', level: 'fallback', detail: 'No comparable sales found' }
+  }
+  const recorded = comps.filter(comp => !comp.synthetic).length
+  return recorded > 0
+    ? { input: 'comps', source: 'database', level: 'verified', detail: `${recorded} of ${comps.length} are recorded sales` }
+    : { input: 'comps', source: 'ai_estimate', level: 'estimated', detail: 'All comparables are estimates' }
+}
+
+/**
+ * AI-backed analyses (brandability, trademark risk) are estimates; heuristic fallbacks rank lower
+ */
+export function describeAnalysisQuality(input: 'brandability' | 'legal', fallbackReason?: string): DataQualityInput {
+  return fallbackReason
+    ? { input, source: 'heuristic', level: 'fallback', detail: fallbackReason }
+    : { input, source: 'ai_estimate', level: 'estimated' }
+}
+
+export function assessDataQuality(inputs: DataQualityInput[]): DataQuality {
+  const confidence = inputs.reduce((sum, entry) => sum + INPUT_WEIGHTS[entry.input] * LEVEL_SCORES[entry.level], 0)
+  return { confidence: Math.round(confidence), inputs }
+}
+
+/**
+ * Range around a mid price. `baseSpread` is the high/mid ratio at full confidence; the
+ * spread is raised to a higher power as confidence drops, up to squared at 0.
+ */
+export function widenPriceRange(mid: number, baseSpread: number, confidence: number): PriceRange {
+  const spread = Math.pow(Math.max(baseSpread, 1), 1 + (100 - confidence) / 100)
+  return {
+    low: Math.round(mid / spread),
+    mid: Math.round(mid),
+    high: Math.round(mid * spread)
+  }
+}
+
+/**
+ * e.g. "$1,200 - $4,800"; `locale` undefined uses the runtime's default
+ */
+export function formatPriceRange(range: PriceRange, currency: string = BASE_CURRENCY, locale?: string): string {
+  return `${formatPrice(range.low, currency, locale)} - ${formatPrice(range.high, currency, locale)}`
+}
+
+/**
+ * e.g. "Traffic: Estimated (ai_estimate)" or "Comps: Default value - No comparable sales found"
+ */
+export function describeDataQualityInput(entry: DataQualityInput): string {
+  const name = entry.input === 'whois' ? 'WHOIS' : entry.input.charAt(0).toUpperCase() + entry.input.slice(1)
+  const text = `${name}: ${DATA_QUALITY_LABELS[entry.level]} (${entry.source})`
+  return entry.detail ? `${text} - ${entry.detail}` : text
+}
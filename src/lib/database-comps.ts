@@ -1,6 +1,10 @@
-import { getSupabaseClient } from './database'
+import { getStorage } from './database'
 import type { ComparableSale } from '../types'
+import type { DomainSalesStats } from './storage'
 import { extractTLD, extractDomainName } from './tld-utils'
+import { segmentWords } from './word-segmentation'
+import { classifyDomainPattern } from './domain-pattern'
+import type { DomainPattern } from '../types'
 
 export interface SimilarityFactors {
   lengthWeight: number
@@ -16,13 +20,19 @@ const DEFAULT_SIMILARITY_WEIGHTS: SimilarityFactors = {
   priceRangeWeight: 0.15
 }
 
+export interface ComparablesQueryOptions {
+  excludeOwnSales?: boolean // Skip past sales of the target itself (backtesting)
+  soldBefore?: string // Only sales before this date, YYYY-MM-DD (backtesting)
+}
+
 /**
  * Find comparable domain sales from the database using similarity matching
  */
 export async function findDatabaseComparables(
   targetDomain: string, 
   limit: number = 5,
-  weights: SimilarityFactors = DEFAULT_SIMILARITY_WEIGHTS
+  weights: SimilarityFactors = DEFAULT_SIMILARITY_WEIGHTS,
+  options: ComparablesQueryOptions = {}
 ): Promise<ComparableSale[]> {
   try {
     const targetInfo = extractDomainInfo(targetDomain)
@@ -30,28 +40,27 @@ export async function findDatabaseComparables(
       return []
     }
     
-    const supabase = await getSupabaseClient()
-    
     // Calculate reasonable price range based on domain characteristics
     const estimatedPriceRange = estimatePriceRange(targetInfo)
     
-    // Get candidates using Supabase query
+    // Get candidates from the domain sales repository
     // We'll filter by similar characteristics and then calculate similarity
-    const { data: candidates, error } = await supabase
-      .from('domain_sales')
-      .select('date, domain, price, venue')
-      .gte('price', estimatedPriceRange.min)
-      .lte('price', estimatedPriceRange.max)
-      .gte('date', '2014-01-01') // Recent sales (last 10+ years)
-      .order('date', { ascending: false })
-      .limit(limit * 10) // Get more candidates to choose from
-    
-    if (error) {
+    let candidates
+    try {
+      candidates = await getStorage().domainSales.findCandidates({
+        minPrice: estimatedPriceRange.min,
+        maxPrice: estimatedPriceRange.max,
+        since: '2014-01-01', // Recent sales (last 10+ years)
+        limit: limit * 10, // Get more candidates to choose from
+        excludeDomain: options.excludeOwnSales ? targetDomain.toLowerCase() : undefined,
+        before: options.soldBefore
+      })
+    } catch (error) {
       console.error('Error querying domain sales:', error)
       return []
     }
     
-    if (!candidates || candidates.length === 0) {
+    if (candidates.length === 0) {
       return []
     }
     
@@ -164,26 +173,24 @@ function calculateKeywordSimilarity(target: string, candidate: string): number {
 }
 
 /**
- * Extract meaningful words from domain name
+ * Extract meaningful words from domain name, splitting compounds like "cloudbank"
  */
 function extractWords(domain: string): string[] {
-  // Split on common separators and extract meaningful parts
-  return domain
-    .toLowerCase()
-    .split(/[-_]/)
-    .flatMap(part => {
-      // Try to split camelCase and extract known words
-      return part.match(/[a-z]+/g) || []
-    })
-    .filter(word => word.length >= 2) // Filter very short words
+  return segmentWords(domain).words
+    .filter(word => /^[a-z]/.test(word) && word.length >= 2) // Drop digit runs and very short words
 }
 
 /**
- * Calculate structure similarity (hyphens, numbers, etc.)
+ * Calculate structure similarity (pattern, hyphens, numbers, etc.)
  */
 function calculateStructureSimilarity(target: DomainInfo, candidate: DomainInfo): number {
   let score = 100
   
+  // Names are priced by pattern - an LLLL is a poor comparable for a dictionary word
+  if (target.pattern !== candidate.pattern) {
+    score -= 30
+  }
+  
   // Penalize different hyphen usage
   if (target.hasHyphens !== candidate.hasHyphens) {
     score -= 30
@@ -237,6 +244,7 @@ interface DomainInfo {
   domainLength: number
   hasHyphens: boolean
   hasNumbers: boolean
+  pattern: DomainPattern
 }
 
 /**
@@ -261,78 +269,24 @@ function extractDomainInfo(domain: string): DomainInfo | null {
     tld,
     domainLength: domainName.length,
     hasHyphens: domainName.includes('-'),
-    hasNumbers: /\d/.test(domainName)
+    hasNumbers: /\d/.test(domainName),
+    pattern: classifyDomainPattern(lowerDomain)
   }
 }
 
 /**
  * Get statistics about comparable sales for debugging
  */
-export async function getComparablesStats(): Promise<any> {
+export async function getComparablesStats(): Promise<DomainSalesStats> {
   try {
-    const supabase = await getSupabaseClient()
-    
-    // Get total count and basic stats
-    const { count: totalRecords, error: countError } = await supabase
-      .from('domain_sales')
-      .select('*', { count: 'exact', head: true })
-    
-    if (countError) {
-      console.error('Error getting total count:', countError)
-      return getDefaultStats()
-    }
-    
-    // Get aggregated stats
-    const { data: statsData, error: statsError } = await supabase
-      .rpc('get_domain_sales_stats')
-    
-    if (statsError) {
-      // Fallback: get basic stats with separate queries
-      const { data: priceData } = await supabase
-        .from('domain_sales')
-        .select('price')
-        .order('price', { ascending: false })
-        .limit(1000)
-      
-      const { data: dateData } = await supabase
-        .from('domain_sales')
-        .select('date')
-        .order('date', { ascending: true })
-        .limit(1)
-      
-      const { data: latestDateData } = await supabase
-        .from('domain_sales')
-        .select('date')
-        .order('date', { ascending: false })
-        .limit(1)
-      
-      const avgPrice = priceData ? 
-        Math.round(priceData.reduce((sum, row) => sum + row.price, 0) / priceData.length) : 0
-      
-      return {
-        total_records: totalRecords || 0,
-        unique_tlds: 'N/A',
-        avg_price: avgPrice,
-        oldest_sale: dateData?.[0]?.date || null,
-        newest_sale: latestDateData?.[0]?.date || null
-      }
-    }
-    
-    return {
-      total_records: totalRecords || 0,
-      unique_tlds: statsData?.unique_tlds || 'N/A',
-      avg_price: Math.round(statsData?.avg_price || 0),
-      oldest_sale: statsData?.oldest_sale || null,
-      newest_sale: statsData?.newest_sale || null
-    }
-    
+    return await getStorage().domainSales.getStats()
   } catch (error) {
     console.error('Error getting comparables stats:', error)
     return getDefaultStats()
   }
 }
 
-function getDefaultStats() {
+function getDefaultStats(): DomainSalesStats {
   return {
     total_records: 0,
     unique_tlds: 0,
@@ -340,4 +294,4 @@ function getDefaultStats() {
     oldest_sale: null,
     newest_sale: null
   }
-}
\ No newline at end of file
+}
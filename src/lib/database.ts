@@ -1,31 +1,4 @@
-import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
-
-// Create a Supabase client for server-side operations
-async function getSupabaseClient() {
-  const cookieStore = await cookies()
-  
-  return createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        getAll() {
-          return cookieStore.getAll()
-        },
-        setAll(cookiesToSet) {
-          try {
-            cookiesToSet.forEach(({ name, value, options }) =>
-              cookieStore.set(name, value, options)
-            )
-          } catch {
-            // Server component - ignore
-          }
-        },
-      },
-    }
-  )
-}
+import { getStorage } from './storage'
 
 // Database initialization promise to prevent multiple concurrent initializations
 let initPromise: Promise<void> | null = null
@@ -46,18 +19,16 @@ export async function initDatabase() {
 }
 
 async function performInit() {
-  const supabase = await getSupabaseClient()
-  
+  const storage = getStorage()
+
   try {
-    // Note: With Supabase, table creation should be done through the Supabase dashboard
-    // or SQL editor, not programmatically. This is just a placeholder to maintain compatibility.
-    // The actual table should be created in your Supabase project.
-    
-    console.log('Database initialized successfully (using Supabase)')
+    await storage.init()
+
+    console.log(`Database initialized successfully (using ${storage.name})`)
   } catch (error) {
-    console.error('Failed to initialize Supabase:', error)
+    console.error(`Failed to initialize ${storage.name} storage:`, error)
     throw error
   }
 }
 
-export { getSupabaseClient }
\ No newline at end of file
+export { getStorage }
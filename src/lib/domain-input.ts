@@ -0,0 +1,50 @@
+// Helpers for cleaning and validating user-supplied domain names
+import { toASCIIDomain, hasValidPunycode } from './idn'
+import { getRegistrableDomain } from './tld-utils'
+
+// Supports multi-level TLDs like .co.uk, .com.au, etc., and IDN TLDs like .xn--p1ai (.рф)
+const DOMAIN_FORMAT = /^[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9]*\.(([a-zA-Z]{2,}|xn--[a-zA-Z0-9-]+)\.)*([a-zA-Z]{2,}|xn--[a-zA-Z0-9-]+)$/
+
+/**
+ * Normalize a raw domain entry (case, whitespace, pasted URLs). Internationalized
+ * names are converted to their ASCII (punycode) form, e.g. "münchen.de" -> "xn--mnchen-3ya.de",
+ * and subdomains are dropped, so "blog.example.com" is appraised as "example.com".
+ */
+export function normalizeDomainInput(raw: string): string {
+  const domain = raw
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/[\u3002\uff0e\uff61]/g, '.') // Ideographic and fullwidth full stops
+    .replace(/\.$/, '')
+  return getRegistrableDomain(toASCIIDomain(domain))
+}
+
+/**
+ * Checks the ASCII form: LDH labels of at most 63 characters, and xn-- labels that are valid punycode
+ */
+export function isValidDomainFormat(domain: string): boolean {
+  return DOMAIN_FORMAT.test(domain) &&
+    domain.split('.').every(label => label.length <= 63) &&
+    hasValidPunycode(domain)
+}
+
+/**
+ * Extract domain names from an uploaded CSV or TXT portfolio file.
+ * Takes the first cell of each line that looks like a domain, so header
+ * rows and extra columns (price, notes, ...) are ignored.
+ */
+export function parseDomainList(text: string): string[] {
+  const domains: string[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split(/[,;\t]/).map(cell => cell.replace(/^"|"$/g, ''))
+    const candidate = cells.map(normalizeDomainInput).find(cell => cell.includes('.'))
+    if (candidate) {
+      domains.push(candidate)
+    }
+  }
+
+  return domains
+}
@@ -0,0 +1,85 @@
+// Pattern classifier: labels a name the way investors price it (LLL, NNNN, CVCV,
+// dictionary word, two-word compound, brandable coinage, ...)
+import type { DomainPattern } from '../types'
+import { extractDomainName } from './tld-utils'
+import { segmentWords } from './word-segmentation'
+import { isIDN } from './idn'
+
+export const DOMAIN_PATTERN_LABELS: Record<DomainPattern, string> = {
+  L: 'Single letter',
+  LL: '2 letters',
+  LLL: '3 letters',
+  LLLL: '4 letters',
+  N: 'Single digit',
+  NN: '2 digits',
+  NNN: '3 digits',
+  NNNN: '4 digits',
+  NNNNN: '5 digits',
+  numeric: 'Long number',
+  CVCV: 'Consonant-vowel-consonant-vowel',
+  CVCCV: 'Consonant-vowel-consonant-consonant-vowel',
+  dictionary: 'Dictionary word',
+  'two-word': 'Two-word compound',
+  'multi-word': 'Three or more words',
+  acronym: 'Acronym-like',
+  brandable: 'Brandable coinage',
+  alphanumeric: 'Letters and digits',
+  idn: 'Internationalized (non-ASCII)',
+  hyphenated: 'Hyphenated',
+  unclassified: 'Unclassified'
+}
+
+const VOWELS = /[aeiou]/g
+
+// Four or more consonants in a row reads as a string of initials, not a word ("y" counts as a vowel here)
+const HARD_CONSONANT_CLUSTER = /[^aeiouy]{4,}/
+
+function vowelCount(name: string): number {
+  return (name.match(VOWELS) || []).length
+}
+
+// Short all-letter or all-digit names are labelled by their length (LLL, NNNN, ...)
+function shortPattern(length: number, symbol: 'L' | 'N'): DomainPattern {
+  return symbol.repeat(length) as DomainPattern
+}
+
+/**
+ * Investor-style pattern of a domain's second-level name
+ */
+export function classifyDomainPattern(domain: string): DomainPattern {
+  const name = extractDomainName(domain).toLowerCase()
+  if (isIDN(name)) return 'idn'
+
+  if (/^[0-9]+$/.test(name)) {
+    return name.length <= 5 ? shortPattern(name.length, 'N') : 'numeric'
+  }
+  if (name.includes('-')) return 'hyphenated'
+  if (!/^[a-z]+$/.test(name)) return 'alphanumeric'
+
+  if (name.length <= 3) return shortPattern(name.length, 'L')
+
+  const { words, coverage } = segmentWords(name)
+  const fullyDictionary = coverage === 1
+
+  if (fullyDictionary && words.length === 1) return 'dictionary'
+  if (name.length === 4) {
+    return /^[^aeiou][aeiou][^aeiou][aeiou]$/.test(name) ? 'CVCV' : 'LLLL'
+  }
+  if (/^[^aeiou][aeiou][^aeiou]{2}[aeiou]$/.test(name)) return 'CVCCV'
+  if (fullyDictionary) return words.length === 2 ? 'two-word' : 'multi-word'
+  if (name.length <= 6 && vowelCount(name) <= 1) return 'acronym'
+
+  // Pronounceable coinage: a reasonable share of vowels and no long consonant runs
+  const vowelShare = vowelCount(name) / name.length
+  if (name.length <= 12 && vowelShare >= 0.25 && vowelShare <= 0.65 && !HARD_CONSONANT_CLUSTER.test(name) && !/(.)\1\1/.test(name)) {
+    return 'brandable'
+  }
+  return 'unclassified'
+}
+
+/**
+ * LL, LLL, LLLL, CVCV and 4-letter dictionary words - the short letter names priced as premium
+ */
+export function isShortLetterPattern(pattern: DomainPattern, length: number): boolean {
+  return /^L+$/.test(pattern) || pattern === 'CVCV' || (pattern === 'dictionary' && length <= 4)
+}
@@ -0,0 +1,75 @@
+// Exchange-rate table used to convert appraisal prices. The bundled table is
+// data/exchange-rates.json; set EXCHANGE_RATES_PATH to load a locally maintained file instead.
+// Rates are never fetched at runtime, so conversions are reproducible.
+
+import bundledRates from '../../data/exchange-rates.json'
+import { BASE_CURRENCY, DEFAULT_LOCALE, convertAmount, convertPriceEstimate, convertHoldingCost, isValidLocale, type ExchangeRateTable } from './currency'
+import { readJsonOverride } from './json-override'
+import type { AppraisalOptions, DomainAppraisal } from '../types'
+
+let table: ExchangeRateTable | undefined
+
+function isUsableTable(candidate: ExchangeRateTable): boolean {
+  return candidate?.base === BASE_CURRENCY &&
+    candidate.rates?.[BASE_CURRENCY] === 1 &&
+    Object.values(candidate.rates).every(rate => typeof rate === 'number' && rate > 0)
+}
+
+/**
+ * The rate table in use: EXCHANGE_RATES_PATH if set and valid, otherwise the bundled table
+ */
+export function getExchangeRates(): ExchangeRateTable {
+  if (table) return table
+
+  table = readJsonOverride({
+    envVar: 'EXCHANGE_RATES_PATH',
+    description: 'exchange rates',
+    requirement: `must be based on ${BASE_CURRENCY} with positive rates`,
+    fallback: 'using the bundled table',
+    isUsable: isUsableTable
+  }) ?? bundledRates as ExchangeRateTable
+  return table
+}
+
+/**
+ * Replace the rate table in use (undefined reloads it on next use)
+ */
+export function setExchangeRates(next: ExchangeRateTable | undefined): void {
+  table = next
+}
+
+/**
+ * Validation message for the currency and locale options, or null when they are usable
+ */
+export function getCurrencyOptionsError(options: AppraisalOptions): string | null {
+  if (options.currency !== undefined) {
+    const rates = getExchangeRates().rates
+    if (typeof options.currency !== 'string' || !rates[options.currency.toUpperCase()]) {
+      return `Unsupported currency "${options.currency}". Available currencies: ${Object.keys(rates).join(', ')}`
+    }
+  }
+  if (options.locale !== undefined && (typeof options.locale !== 'string' || !isValidLocale(options.locale))) {
+    return `Invalid locale "${options.locale}"`
+  }
+  return null
+}
+
+/**
+ * The appraisal with its prices converted and formatted per the options' currency and locale.
+ * Comparable sale prices are converted too, so they are always in the estimate's currency.
+ */
+export function localizeAppraisal<T extends DomainAppraisal>(appraisal: T, options: Pick<AppraisalOptions, 'currency' | 'locale'> = {}): T {
+  const currency = (options.currency || appraisal.priceEstimate.currency).toUpperCase()
+  const locale = options.locale || DEFAULT_LOCALE
+  if (currency === appraisal.priceEstimate.currency && locale === DEFAULT_LOCALE) {
+    return appraisal
+  }
+  const rates = getExchangeRates()
+  const from = appraisal.priceEstimate.currency
+  return {
+    ...appraisal,
+    priceEstimate: convertPriceEstimate(appraisal.priceEstimate, rates, currency, locale),
+    comps: appraisal.comps?.map(comp => ({ ...comp, soldPrice: convertAmount(comp.soldPrice, rates, from, currency) })),
+    holdingCost: appraisal.holdingCost && convertHoldingCost(appraisal.holdingCost, rates, currency)
+  }
+}
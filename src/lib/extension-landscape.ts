@@ -0,0 +1,114 @@
+// Extension landscape: the same second-level name under other TLDs. How many alternates are
+// registered shows demand for the name, and whoever holds the .com sets the ceiling for the rest.
+// Lookups go to the registries only (RDAP, then port-43 WHOIS) - an AI guess per TLD would
+// cost more than it tells. EXTENSION_LANDSCAPE_TLDS overrides the TLDs checked (comma-separated).
+
+import type { ExtensionCheck, ExtensionLandscape, ExtensionUsage, WhoisData } from '../types'
+import { extractDomainName, extractTLD } from './tld-utils'
+import { lookupRegistryData } from './xai'
+import { mapWithConcurrency } from './concurrency'
+
+export const DEFAULT_LANDSCAPE_TLDS = ['com', 'net', 'org', 'io', 'ai', 'co']
+
+const LOOKUP_CONCURRENCY = 3
+
+// Name servers of parking, lander and marketplace services
+const PARKING_NAMESERVERS = [
+  'sedoparking.com', 'parkingcrew.net', 'bodis.com', 'above.com', 'afternic.com', 'dan.com',
+  'undeveloped.com', 'hugedomains.com', 'parklogic.com', 'uniregistrymarket.link',
+  'namebrightdns.com', 'smartname.com', 'domainmarket.com', 'voodoo.com'
+]
+
+// Each registered alternate adds a little demand, up to a cap
+const DEMAND_BONUS_PER_EXTENSION = 0.02
+const MAX_DEMAND_BONUS = 0.1
+
+// Multiplier for a name on another TLD, by who holds its .com
+const COM_STATUS_MULTIPLIERS: Record<NonNullable<ExtensionLandscape['comStatus']>, number> = {
+  active: 0.85, // An operating business owns the brand; buyers of the alternate live in its shadow
+  parked: 1.0, // Investor-held, so the alternate is the affordable option
+  available: 0.9, // Nobody wanted the .com - weak demand for the name itself
+  unknown: 1.0
+}
+
+/**
+ * TLDs to check: EXTENSION_LANDSCAPE_TLDS if set, otherwise DEFAULT_LANDSCAPE_TLDS
+ */
+export function getLandscapeTLDs(): string[] {
+  const configured = (process.env.EXTENSION_LANDSCAPE_TLDS || '')
+    .split(',')
+    .map(tld => tld.trim().toLowerCase().replace(/^\./, ''))
+    .filter(Boolean)
+  return configured.length > 0 ? configured : DEFAULT_LANDSCAPE_TLDS
+}
+
+/**
+ * Whether a registered name is in use, judged from its name servers and status:
+ * parking services, no name servers or a hold status count as parked
+ */
+export function classifyUsage(whoisData: WhoisData): ExtensionUsage {
+  const nameServers = (whoisData.nameServers || []).map(server => server.toLowerCase().replace(/\.$/, ''))
+  if (nameServers.length === 0) return 'parked'
+  if (/hold/i.test(whoisData.status || '')) return 'parked'
+  if (nameServers.some(server => PARKING_NAMESERVERS.some(parking => server === parking || server.endsWith(`.${parking}`)))) {
+    return 'parked'
+  }
+  return 'active'
+}
+
+async function checkExtension(domain: string, tld: string): Promise<ExtensionCheck> {
+  const whoisData = await lookupRegistryData(domain)
+  if (!whoisData) {
+    return { domain, tld, status: 'unknown' }
+  }
+  if (whoisData.isAvailable) {
+    return { domain, tld, status: 'available' }
+  }
+  return {
+    domain,
+    tld,
+    status: 'registered',
+    usage: classifyUsage(whoisData),
+    registrar: whoisData.registrar,
+    registrationDate: whoisData.registrationDate
+  }
+}
+
+/**
+ * Score multiplier and summary for a set of checks of `domain`'s name on other TLDs
+ */
+export function summarizeLandscape(domain: string, checked: ExtensionCheck[]): ExtensionLandscape {
+  const registered = checked.filter(check => check.status === 'registered')
+  const registeredCount = registered.length
+  const demandBonus = Math.min(MAX_DEMAND_BONUS, DEMAND_BONUS_PER_EXTENSION * registeredCount)
+
+  const com = extractTLD(domain) === 'com' ? undefined : checked.find(check => check.tld === 'com')
+  const comStatus = com && (com.status === 'registered' ? com.usage : com.status)
+  const multiplier = Math.round(((comStatus ? COM_STATUS_MULTIPLIERS[comStatus] : 1) + demandBonus) * 100) / 100
+
+  const parts = [`${registeredCount} of ${checked.length} other extensions registered`]
+  if (comStatus === 'active') parts.push('the .com is in use by an active site')
+  else if (comStatus === 'parked') parts.push('the .com is parked or for sale')
+  else if (comStatus === 'available') parts.push('the .com is unregistered')
+  else if (comStatus === 'unknown') parts.push('the .com could not be checked')
+
+  return {
+    checked,
+    registeredCount,
+    comStatus,
+    multiplier,
+    explanation: `${parts.join('; ')}. Acts as ${multiplier}x multiplier.`
+  }
+}
+
+/**
+ * Look up `domain`'s second-level name on each TLD in `tlds` (other than its own)
+ */
+export async function analyzeExtensionLandscape(domain: string, tlds: string[] = getLandscapeTLDs()): Promise<ExtensionLandscape> {
+  const name = extractDomainName(domain)
+  const ownTld = extractTLD(domain)
+  const otherTlds = tlds.filter(tld => tld !== ownTld)
+
+  const checked = await mapWithConcurrency(otherTlds, LOOKUP_CONCURRENCY, tld => checkExtension(`${name}.${tld}`, tld))
+  return summarizeLandscape(domain, checked)
+}
@@ -0,0 +1,50 @@
+// Reasons behind factor scores. Each scoring function in valuation.ts reports the rule that set
+// its starting score, every adjustment applied on top and where its data came from, so the
+// results page and PDF report can show why a factor scored what it did.
+
+import type { FactorReason, FactorScore } from '../types'
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value))
+
+export function baseReason(points: number, text: string): FactorReason {
+  return { kind: 'base', text, points }
+}
+
+export function adjustmentReason(points: number, text: string): FactorReason {
+  return { kind: 'adjustment', text, points }
+}
+
+export function sourceReason(text: string): FactorReason {
+  return { kind: 'source', text }
+}
+
+/**
+ * `scored` with `points` added, clamped to 0-100, and the reason recorded with the points
+ * actually applied (so a +10 on a score of 95 shows as +5). Adjustments that change nothing
+ * leave it unchanged.
+ */
+export function adjustScore(scored: FactorScore, points: number, text: string): FactorScore {
+  const score = clamp(scored.score + points)
+  const applied = score - scored.score
+  if (applied === 0) return scored
+  return { score, reasons: [...scored.reasons, adjustmentReason(applied, text)] }
+}
+
+/**
+ * `scored` held within [min, max], noting when the bound changed the score
+ */
+export function boundScore(scored: FactorScore, min: number, max: number): FactorScore {
+  const score = Math.max(min, Math.min(max, scored.score))
+  if (score === scored.score) return scored
+  const text = score === min ? `Raised to the minimum of ${min}` : `Capped at ${max}`
+  return { score, reasons: [...scored.reasons, adjustmentReason(score - scored.score, text)] }
+}
+
+/**
+ * A reason as one line of text, e.g. "Contains a hyphen (-20)" or "6 characters (starts at 75)"
+ */
+export function formatReason(reason: FactorReason): string {
+  if (reason.points === undefined) return reason.text
+  if (reason.kind === 'base') return `${reason.text} (starts at ${reason.points})`
+  return `${reason.text} (${reason.points > 0 ? '+' : ''}${reason.points})`
+}
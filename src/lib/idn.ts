@@ -0,0 +1,295 @@
+// Internationalized domain names: Unicode <-> punycode (RFC 3492), script detection,
+// mixed-script and homograph checks, and length in user-perceived characters.
+// Domains are handled in ASCII (A-label) form everywhere and converted for display.
+// No Node APIs here - the UI uses toUnicodeDomain too.
+import type { IDNInfo } from '../types'
+import { extractDomainName } from './tld-utils'
+
+const ACE_PREFIX = 'xn--'
+
+// RFC 3492 parameters
+const BASE = 36
+const T_MIN = 1
+const T_MAX = 26
+const SKEW = 38
+const DAMP = 700
+const INITIAL_BIAS = 72
+const INITIAL_N = 128
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1
+  delta += Math.floor(delta / numPoints)
+  let k = 0
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN))
+    k += BASE
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW))
+}
+
+function encodeDigit(digit: number): string {
+  return String.fromCharCode(digit < 26 ? 97 + digit : 22 + digit) // a-z, then 0-9
+}
+
+function decodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22
+  if (code >= 97 && code <= 122) return code - 97
+  if (code >= 65 && code <= 90) return code - 65
+  return BASE
+}
+
+/**
+ * Punycode-encode one label (without the xn-- prefix)
+ */
+export function punycodeEncode(label: string): string {
+  const codePoints = Array.from(label, char => char.codePointAt(0) as number)
+  let output = codePoints.filter(code => code < 0x80).map(code => String.fromCharCode(code)).join('')
+  const basicLength = output.length
+  let handled = basicLength
+  if (basicLength > 0) output += '-'
+
+  let n = INITIAL_N
+  let delta = 0
+  let bias = INITIAL_BIAS
+
+  while (handled < codePoints.length) {
+    const next = Math.min(...codePoints.filter(code => code >= n))
+    delta += (next - n) * (handled + 1)
+    n = next
+
+    for (const code of codePoints) {
+      if (code < n) delta++
+      if (code === n) {
+        let q = delta
+        for (let k = BASE; ; k += BASE) {
+          const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias
+          if (q < t) break
+          output += encodeDigit(t + ((q - t) % (BASE - t)))
+          q = Math.floor((q - t) / (BASE - t))
+        }
+        output += encodeDigit(q)
+        bias = adaptBias(delta, handled + 1, handled === basicLength)
+        delta = 0
+        handled++
+      }
+    }
+    delta++
+    n++
+  }
+
+  return output
+}
+
+/**
+ * Decode one punycode label (without the xn-- prefix). Throws on malformed input.
+ */
+export function punycodeDecode(input: string): string {
+  const separator = input.lastIndexOf('-')
+  const output = separator > 0 ? Array.from(input.slice(0, separator), char => char.codePointAt(0) as number) : []
+  if (output.some(code => code >= 0x80)) throw new Error('Invalid punycode: non-basic code point')
+
+  let n = INITIAL_N
+  let i = 0
+  let bias = INITIAL_BIAS
+  let position = separator > 0 ? separator + 1 : 0
+
+  while (position < input.length) {
+    const oldI = i
+    let w = 1
+    for (let k = BASE; ; k += BASE) {
+      if (position >= input.length) throw new Error('Invalid punycode: truncated input')
+      const digit = decodeDigit(input.charCodeAt(position++))
+      if (digit >= BASE) throw new Error('Invalid punycode: bad digit')
+      i += digit * w
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias
+      if (digit < t) break
+      w *= BASE - t
+    }
+    bias = adaptBias(i - oldI, output.length + 1, oldI === 0)
+    n += Math.floor(i / (output.length + 1))
+    i %= output.length + 1
+    if (n > 0x10ffff) throw new Error('Invalid punycode: code point out of range')
+    output.splice(i, 0, n)
+    i++
+  }
+
+  return String.fromCodePoint(...output)
+}
+
+/**
+ * ASCII (A-label) form, e.g. "münchen.de" -> "xn--mnchen-3ya.de".
+ * Labels are NFKC-normalized and lowercased first (a simplified UTS #46 mapping).
+ */
+export function toASCIIDomain(domain: string): string {
+  return domain.split('.').map(label => {
+    const mapped = label.normalize('NFKC').toLowerCase()
+    return /^[\x00-\x7f]*$/.test(mapped) ? mapped : ACE_PREFIX + punycodeEncode(mapped)
+  }).join('.')
+}
+
+/**
+ * Unicode (U-label) form for display; malformed xn-- labels are left as they are
+ */
+export function toUnicodeDomain(domain: string): string {
+  return domain.split('.').map(label => {
+    if (!label.toLowerCase().startsWith(ACE_PREFIX)) return label
+    try {
+      return punycodeDecode(label.slice(ACE_PREFIX.length).toLowerCase())
+    } catch {
+      return label
+    }
+  }).join('.')
+}
+
+/**
+ * Whether every xn-- label decodes to a non-ASCII label, free of control characters,
+ * that encodes back to itself
+ */
+export function hasValidPunycode(domain: string): boolean {
+  return domain.split('.').every(label => {
+    if (!label.startsWith(ACE_PREFIX)) return true
+    try {
+      const decoded = punycodeDecode(label.slice(ACE_PREFIX.length))
+      return !/^[\x00-\x7f]*$/.test(decoded) && !/[\x00-\x1f\x7f-\x9f.]/.test(decoded) && toASCIIDomain(decoded) === label
+    } catch {
+      return false
+    }
+  })
+}
+
+export function isIDN(domain: string): boolean {
+  return domain.split('.').some(label => label.startsWith(ACE_PREFIX) || /[^\x00-\x7f]/.test(label))
+}
+
+// Scripts checked for, in order. Characters in none of them (digits, hyphen) are "Common".
+const SCRIPTS = [
+  'Latin', 'Cyrillic', 'Greek', 'Armenian', 'Hebrew', 'Arabic', 'Devanagari', 'Bengali', 'Tamil',
+  'Thai', 'Georgian', 'Hangul', 'Hiragana', 'Katakana', 'Han', 'Bopomofo', 'Ethiopic'
+]
+let scriptPatterns: { script: string; pattern: RegExp }[] | undefined
+
+// Built lazily: Unicode property escapes need the "u" flag at runtime
+function getScriptPatterns() {
+  if (!scriptPatterns) {
+    scriptPatterns = SCRIPTS.map(script => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'u') }))
+  }
+  return scriptPatterns
+}
+
+/**
+ * Scripts used by a piece of text, e.g. ["Latin"] or ["Latin", "Cyrillic"]
+ */
+export function detectScripts(text: string): string[] {
+  const found = new Set<string>()
+  for (const char of Array.from(text)) {
+    if (/[\x00-\x7f]/.test(char) && !/[a-z]/i.test(char)) continue // Digits, hyphen
+    const match = getScriptPatterns().find(({ pattern }) => pattern.test(char))
+    found.add(match ? match.script : 'Other')
+  }
+  return Array.from(found)
+}
+
+// Script combinations that are normal in one language (UTS #39 "highly restrictive")
+const ALLOWED_SCRIPT_SETS = [
+  ['Latin', 'Han', 'Hiragana', 'Katakana'], // Japanese
+  ['Latin', 'Han', 'Bopomofo'], // Chinese
+  ['Latin', 'Han', 'Hangul'] // Korean
+]
+
+export function isMixedScript(scripts: string[]): boolean {
+  return scripts.length > 1 && !ALLOWED_SCRIPT_SETS.some(allowed => scripts.every(script => allowed.includes(script)))
+}
+
+// Non-Latin letters that render like Latin ones (subset of the Unicode confusables table)
+const LATIN_LOOKALIKES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'т': 't', 'ѵ': 'v', 'ԝ': 'w',
+  'х': 'x', 'у': 'y', 'ү': 'y',
+  // Armenian
+  'ս': 'u', 'օ': 'o', 'հ': 'h',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ω': 'w',
+  // Latin letters with easily missed marks
+  'ı': 'i', 'ŀ': 'l', 'ǀ': 'l', 'ɡ': 'g'
+}
+
+/**
+ * Latin text a label can pass for, when every letter is Latin or a Latin lookalike
+ * and at least one is a lookalike (e.g. Cyrillic "аррӏе" -> "apple"); otherwise null
+ */
+export function findLatinLookalike(label: string): string | null {
+  let substituted = false
+  let skeleton = ''
+  for (const char of Array.from(label.normalize('NFC'))) {
+    if (/[a-z0-9-]/.test(char)) {
+      skeleton += char
+    } else if (LATIN_LOOKALIKES[char]) {
+      skeleton += LATIN_LOOKALIKES[char]
+      substituted = true
+    } else {
+      return null
+    }
+  }
+  return substituted ? skeleton : null
+}
+
+/**
+ * Number of user-perceived characters (grapheme clusters), e.g. 2 for "🇩🇪"
+ */
+export function graphemeLength(text: string): number {
+  // Typed by the es2022.intl lib, but missing from some older runtimes
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text)).length
+  }
+  // Without Intl.Segmenter: count code points, folding combining marks into their base
+  return Array.from(text.normalize('NFC')).filter(char => !/[\u0300-\u036f]/.test(char)).length
+}
+
+/**
+ * Latin letters with their diacritics removed ("münchen" -> "munchen"); other scripts are kept
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC')
+}
+
+/**
+ * Second-level name in Unicode form, e.g. "münchen" for "xn--mnchen-3ya.de"
+ */
+export function extractDisplayName(domain: string): string {
+  // Suffix rules are in ASCII form, so the name is found before decoding
+  return toUnicodeDomain(extractDomainName(toASCIIDomain(domain)))
+}
+
+/**
+ * The name to run English-language analysis on: ASCII names as they are, Latin-script
+ * IDNs with diacritics folded ("münchen" -> "munchen"), and null for other scripts
+ */
+export function toLatinName(domain: string): string | null {
+  const folded = foldDiacritics(extractDisplayName(domain))
+  return /^[\x00-\x7f]*$/.test(folded) ? folded : null
+}
+
+/**
+ * IDN details of a domain (ASCII or Unicode input), or null for plain ASCII names
+ */
+export function analyzeIDN(domain: string): IDNInfo | null {
+  const ascii = toASCIIDomain(domain)
+  if (!isIDN(ascii)) return null
+
+  const unicode = toUnicodeDomain(ascii)
+  const name = extractDisplayName(ascii)
+  const scripts = detectScripts(name)
+  const lookalike = findLatinLookalike(name)
+
+  return {
+    ascii,
+    unicode,
+    scripts,
+    mixedScript: isMixedScript(scripts),
+    homograph: lookalike !== null,
+    lookalike: lookalike ?? undefined,
+    length: graphemeLength(name)
+  }
+}
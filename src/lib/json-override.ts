@@ -0,0 +1,31 @@
+// Local JSON files that stand in for bundled data tables, named by an environment variable
+// (EXCHANGE_RATES_PATH, TLD_METADATA_PATH, TRADEMARKS_PATH). A missing, unreadable or invalid
+// file is logged and the bundled data is used, so a bad local file never stops the app.
+
+import fs from 'fs'
+
+export interface JsonOverride<T> {
+  envVar: string
+  description: string // What the file holds, e.g. "exchange rates"
+  requirement: string // What a usable file looks like, e.g. "must be based on USD with positive rates"
+  fallback: string // What happens instead, e.g. "using the bundled table"
+  isUsable: (candidate: T) => boolean
+}
+
+/**
+ * The parsed file named by `envVar`, or undefined when the variable is unset or the file
+ * cannot be used
+ */
+export function readJsonOverride<T>({ envVar, description, requirement, fallback, isUsable }: JsonOverride<T>): T | undefined {
+  const filePath = process.env[envVar]
+  if (!filePath) return undefined
+
+  try {
+    const loaded = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    if (isUsable(loaded)) return loaded
+    console.error(`${description.charAt(0).toUpperCase()}${description.slice(1)} in ${filePath} ${requirement}, ${fallback}`)
+  } catch (error) {
+    console.error(`Failed to load ${description} from ${filePath}, ${fallback}:`, error)
+  }
+  return undefined
+}
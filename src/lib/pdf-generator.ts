@@ -1,7 +1,16 @@
 // PDF report generation for domain valuations
 import jsPDF from 'jspdf'
+import type { StoredAppraisal } from './storage'
+import { describeWhoisProvenance, describeComparableSource } from './provenance'
+import { formatPriceRange, describeDataQualityInput } from './data-quality'
+import { DEFAULT_LOCALE, formatPrice } from './currency'
+import { DOMAIN_PATTERN_LABELS } from './domain-pattern'
+import { formatReason } from './factor-reasons'
 
-export function generateValuationPDF(appraisal: any): Buffer {
+/**
+ * `appraisal` prices are printed as stored (see localizeAppraisal); `locale` formats the range
+ */
+export function generateValuationPDF(appraisal: StoredAppraisal, locale: string = DEFAULT_LOCALE): Buffer {
   const doc = new jsPDF()
   
   // Title
@@ -11,35 +20,61 @@ export function generateValuationPDF(appraisal: any): Buffer {
   // Domain and basic info
   doc.setFontSize(12)
   doc.text(`Domain: ${appraisal.domain}`, 20, 50)
-  doc.text(`Generated: ${new Date(appraisal.created_at).toLocaleDateString()}`, 20, 60)
-  doc.text(`Final Score: ${appraisal.final_score.toFixed(1)}/100`, 20, 70)
+  doc.text(`Generated: ${new Date(appraisal.createdAt).toLocaleDateString()}`, 20, 60)
+  doc.text(`Final Score: ${appraisal.finalScore.toFixed(1)}/100`, 20, 70)
+  if (appraisal.pattern) {
+    doc.text(`Pattern: ${DOMAIN_PATTERN_LABELS[appraisal.pattern]} (${appraisal.pattern})`, 20, 80)
+  }
   
   // Price estimate
   doc.setFontSize(14)
   doc.text('PRICE ESTIMATE', 20, 90)
   doc.setFontSize(12)
   
-  const priceEstimate = JSON.parse(appraisal.price_estimate)
+  const priceEstimate = appraisal.priceEstimate
   doc.text(`Investor Price: ${priceEstimate.investor}`, 20, 105)
   doc.text(`Retail Price: ${priceEstimate.retail}`, 20, 115)
   
+  let yPos = 130
+  if (priceEstimate.range) {
+    const confidence = appraisal.dataQuality ? ` (${appraisal.dataQuality.confidence}% confidence)` : ''
+    doc.text(`Likely Range: ${formatPriceRange(priceEstimate.range, priceEstimate.currency, locale)}${confidence}`, 20, 125)
+    yPos = 140
+  }
+  
+  if (appraisal.holdingCost) {
+    const { annual, fiveYear, currency, premiumRenewal } = appraisal.holdingCost
+    const premium = premiumRenewal ? ' - may renew at a registry premium' : ''
+    doc.text(`Holding Cost: ${formatPrice(annual, currency, locale)}/year, ${formatPrice(fiveYear, currency, locale)} over 5 years${premium}`, 20, yPos)
+    yPos += 15
+  }
+  
   // Split explanation text if too long
   const explanation = priceEstimate.explanation
   const lines = doc.splitTextToSize(explanation, 170)
-  doc.text(lines, 20, 130)
+  doc.text(lines, 20, yPos)
+  yPos += lines.length * 5 + 20
   
   // Factor breakdown
-  let yPos = 155
   doc.setFontSize(14)
   doc.text('FACTOR BREAKDOWN', 20, yPos)
   yPos += 15
   
   doc.setFontSize(10)
-  const breakdown = JSON.parse(appraisal.breakdown)
-  breakdown.forEach((factor: any) => {
+  appraisal.breakdown.forEach(factor => {
     const text = `${factor.factor.toUpperCase()}: ${factor.score}/100 (Weight: ${(factor.weight * 100).toFixed(0)}%)`
     doc.text(text, 20, yPos)
-    yPos += 10
+    yPos += 6
+    
+    // Why the factor scored what it did, one reason per line
+    doc.setFontSize(8)
+    for (const reason of factor.reasons || []) {
+      const reasonLines = doc.splitTextToSize(`- ${formatReason(reason)}`, 160)
+      doc.text(reasonLines, 25, yPos)
+      yPos += reasonLines.length * 4
+    }
+    doc.setFontSize(10)
+    yPos += 4
     
     if (yPos > 270) { // Page break
       doc.addPage()
@@ -54,7 +89,7 @@ export function generateValuationPDF(appraisal: any): Buffer {
   yPos += 15
   
   doc.setFontSize(10)
-  const aiCommentLines = doc.splitTextToSize(appraisal.ai_comment, 170)
+  const aiCommentLines = doc.splitTextToSize(appraisal.aiComment || '', 170)
   doc.text(aiCommentLines, 20, yPos)
   yPos += aiCommentLines.length * 5 + 10
   
@@ -64,11 +99,97 @@ export function generateValuationPDF(appraisal: any): Buffer {
   yPos += 15
   
   doc.setFontSize(10)
-  doc.text(`Status: ${appraisal.legal_flag.toUpperCase()}`, 20, yPos)
-  yPos += 15
+  doc.text(`Status: ${appraisal.legalFlag.toUpperCase()}`, 20, yPos)
+  yPos += 10
+  const legalDescription = appraisal.breakdown.find(factor => factor.factor === 'legal')?.description
+  if (appraisal.legalFlag !== 'clear' && legalDescription) {
+    const legalLines = doc.splitTextToSize(legalDescription, 170)
+    doc.text(legalLines, 20, yPos)
+    yPos += legalLines.length * 5
+  }
+  yPos += 5
+  
+  // Registration data, with where it came from
+  const whoisData = appraisal.whoisData
+  if (whoisData) {
+    if (yPos > 230) {
+      doc.addPage()
+      yPos = 30
+    }
+    
+    doc.setFontSize(14)
+    doc.text('REGISTRATION DATA', 20, yPos)
+    yPos += 15
+    
+    doc.setFontSize(10)
+    doc.text(`Status: ${whoisData.isAvailable ? 'Available' : 'Registered'}`, 20, yPos)
+    yPos += 10
+    if (whoisData.registrationDate) {
+      doc.text(`Registered: ${whoisData.registrationDate.split('T')[0]}`, 20, yPos)
+      yPos += 10
+    }
+    if (whoisData.registrar) {
+      doc.text(`Registrar: ${whoisData.registrar}`, 20, yPos)
+      yPos += 10
+    }
+    doc.text(`Source: ${describeWhoisProvenance(whoisData)}`, 20, yPos)
+    yPos += 15
+  }
+  
+  // The same name on other TLDs
+  const landscape = appraisal.extensionLandscape
+  if (landscape) {
+    if (yPos > 230) {
+      doc.addPage()
+      yPos = 30
+    }
+    
+    doc.setFontSize(14)
+    doc.text('EXTENSION LANDSCAPE', 20, yPos)
+    yPos += 15
+    
+    doc.setFontSize(10)
+    const summaryLines = doc.splitTextToSize(landscape.explanation, 170)
+    doc.text(summaryLines, 20, yPos)
+    yPos += summaryLines.length * 5 + 5
+    landscape.checked.forEach(check => {
+      const status = check.status === 'registered' ? `Registered (${check.usage === 'active' ? 'in use' : 'parked'})` : check.status === 'available' ? 'Available' : 'Unknown'
+      doc.text(`${check.domain}: ${status}`, 20, yPos)
+      yPos += 8
+    })
+    yPos += 7
+  }
+  
+  // Which inputs were real data and which were estimates or defaults
+  const dataQuality = appraisal.dataQuality
+  if (dataQuality) {
+    if (yPos > 230) {
+      doc.addPage()
+      yPos = 30
+    }
+    
+    doc.setFontSize(14)
+    doc.text('DATA QUALITY', 20, yPos)
+    yPos += 15
+    
+    doc.setFontSize(10)
+    doc.text(`Confidence: ${dataQuality.confidence}/100`, 20, yPos)
+    yPos += 10
+    dataQuality.inputs.forEach(entry => {
+      const entryLines = doc.splitTextToSize(describeDataQualityInput(entry), 170)
+      doc.text(entryLines, 20, yPos)
+      yPos += entryLines.length * 5 + 5
+      
+      if (yPos > 270) {
+        doc.addPage()
+        yPos = 30
+      }
+    })
+    yPos += 5
+  }
   
   // Comparable sales if available
-  const comps = JSON.parse(appraisal.comps || '[]')
+  const comps = appraisal.comps || []
   if (comps.length > 0) {
     if (yPos > 250) {
       doc.addPage()
@@ -80,8 +201,8 @@ export function generateValuationPDF(appraisal: any): Buffer {
     yPos += 15
     
     doc.setFontSize(10)
-    comps.forEach((comp: any) => {
-      const compText = `${comp.domain} - $${comp.soldPrice.toLocaleString()} (${comp.soldDate}) - ${comp.source}`
+    comps.forEach(comp => {
+      const compText = `${comp.domain} - ${formatPrice(comp.soldPrice, priceEstimate.currency, locale)} (${comp.soldDate}) - ${describeComparableSource(comp)}`
       doc.text(compText, 20, yPos)
       yPos += 10
       
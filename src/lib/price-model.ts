@@ -0,0 +1,317 @@
+// Data-driven price model: ridge regression of ln(sale price) on name features, fitted to
+// domain_sales. The fitted coefficients are a versioned artifact in data/price-model.json
+// (retrain with `npm run train:price-model`); set PRICE_MODEL_PATH to load a different file.
+// Valuation falls back to the score brackets when no model is available.
+//
+// Name features explain little of what the bundled sales sold for (holdout R^2 0.064;
+// most of the spread is down to the venue, which is unknown at appraisal time), so valuation
+// weights the model by its R^2 and the score brackets remain the primary source of prices.
+// The median price of other sales sharing a word with the name was tried as a comps feature and
+// added nothing on top of the pattern class.
+
+import fs from 'fs'
+import { createHash } from 'crypto'
+import bundledModel from '../../data/price-model.json'
+import { findKeywordValue } from '../data/industry-keywords'
+import { extractTLD, extractDomainName, getTLDScore } from './tld-utils'
+import { classifyDomainPattern, DOMAIN_PATTERN_LABELS } from './domain-pattern'
+import type { DomainPattern } from '../types'
+
+// Bump when the feature set changes, or when a helper the features rely on (findKeywordValue,
+// extractTLD, extractDomainName, getTLDScore, classifyDomainPattern) changes its output, so stale
+// artifacts are rejected instead of misread. 2: keyword matching and public-suffix TLD extraction
+// changed. 3: investor pattern classes replace the character patterns, keywords skip the TLD.
+export const PRICE_MODEL_FORMAT = 3
+
+export interface PriceModelMetrics {
+  holdoutRows: number
+  rSquared: number // On ln(price), holdout set
+  medianAbsPctError: number // Holdout, |predicted - sold| / sold
+}
+
+export interface PriceModel {
+  format: number
+  version: string // Hash of the coefficients, reported with every estimate
+  trainedAt: string
+  trainingRows: number
+  since?: string
+  lambda: number
+  holdoutPercent: number // Share of domains held out of training, see isPriceModelHoldout
+  featureNames: string[]
+  coefficients: number[] // Intercept first, then one per feature name
+  residualStd: number // Standard deviation of ln(price) residuals on the holdout set
+  metrics: PriceModelMetrics
+}
+
+export interface PriceModelSale {
+  domain: string
+  price: number
+  date: string
+}
+
+export interface TrainPriceModelOptions {
+  lambda?: number // Ridge penalty (the intercept is not penalized)
+  since?: string // Only train on sales on or after this date (YYYY-MM-DD)
+  holdoutPercent?: number // Share of domains held out for metrics
+}
+
+const LENGTH_BUCKETS: [string, number, number][] = [
+  ['len_1_2', 1, 2],
+  ['len_3', 3, 3],
+  ['len_4', 4, 4],
+  ['len_5', 5, 5],
+  ['len_6', 6, 6],
+  ['len_7_8', 7, 8],
+  ['len_9_10', 9, 10],
+  ['len_11_13', 11, 13],
+  ['len_14_plus', 14, Infinity]
+]
+
+const TLD_FEATURES = ['com', 'net', 'org', 'io', 'ai', 'co', 'info', 'biz', 'us', 'me', 'tv']
+
+const PATTERN_FEATURES = (Object.keys(DOMAIN_PATTERN_LABELS) as DomainPattern[]).map(pattern => `pattern_${pattern}`)
+
+export const PRICE_FEATURE_NAMES: string[] = [
+  ...LENGTH_BUCKETS.map(([name]) => name),
+  ...TLD_FEATURES.map(tld => `tld_${tld}`),
+  'tld_cctld',
+  'tld_other',
+  ...PATTERN_FEATURES,
+  'keyword_score',
+  'keyword_count',
+  'tld_score',
+  'vowel_ratio'
+]
+
+/**
+ * Feature vector for a domain, in PRICE_FEATURE_NAMES order (without the intercept)
+ */
+export function extractPriceFeatures(domain: string): number[] {
+  const domainName = extractDomainName(domain)
+  const tld = extractTLD(domain)
+  const keywords = findKeywordValue(domain)
+  const letters = domainName.replace(/[^a-z]/g, '')
+  const vowels = letters.replace(/[^aeiouy]/g, '').length
+
+  const features = new Map<string, number>()
+  const lengthBucket = LENGTH_BUCKETS.find(([, min, max]) => domainName.length >= min && domainName.length <= max)
+  if (lengthBucket) features.set(lengthBucket[0], 1)
+
+  if (TLD_FEATURES.includes(tld)) features.set(`tld_${tld}`, 1)
+  else if (/^[a-z]{2}$/.test(tld.split('.').pop() || '')) features.set('tld_cctld', 1)
+  else features.set('tld_other', 1)
+
+  features.set(`pattern_${classifyDomainPattern(domain)}`, 1)
+  features.set('keyword_score', keywords.score / 100)
+  features.set('keyword_count', Math.min(keywords.matchedKeywords.length, 3))
+  features.set('tld_score', getTLDScore(tld) / 100)
+  features.set('vowel_ratio', letters.length > 0 ? vowels / letters.length : 0)
+
+  return PRICE_FEATURE_NAMES.map(name => features.get(name) || 0)
+}
+
+/**
+ * Predicted sale price in dollars (the median of the fitted log-normal)
+ */
+export function predictPrice(model: PriceModel, domain: string): number {
+  const features = extractPriceFeatures(domain)
+  const logPrice = features.reduce((sum, value, i) => sum + value * model.coefficients[i + 1], model.coefficients[0])
+  return Math.exp(logPrice)
+}
+
+/**
+ * Whether the model never saw `domain`'s sales in training (its holdout split), so a backtest
+ * of the domain measures the model out of sample
+ */
+export function isPriceModelHoldout(model: PriceModel, domain: string): boolean {
+  return isHoldout(domain, model.holdoutPercent)
+}
+
+/**
+ * Price range covering the middle `coverage` share of the model's residuals around a prediction
+ */
+export function predictPriceRange(model: PriceModel, domain: string, coverage: number = 0.5): { low: number; mid: number; high: number } {
+  const mid = predictPrice(model, domain)
+  const spread = Math.exp(normalQuantile((1 + coverage) / 2) * model.residualStd)
+  return { low: mid / spread, mid, high: mid * spread }
+}
+
+// Acklam's rational approximation of the standard normal inverse CDF (central region is enough here)
+function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628274631000]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const q = Math.min(Math.max(p, 0.0001), 0.9999) - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// --- Training ---------------------------------------------------------------
+
+// Deterministic holdout split so retraining on the same data reports the same metrics
+function isHoldout(domain: string, holdoutPercent: number): boolean {
+  return parseInt(createHash('md5').update(domain).digest('hex').slice(0, 8), 16) % 100 < holdoutPercent
+}
+
+// Solve the symmetric positive definite system A x = b (Gaussian elimination with partial pivoting)
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]]
+    if (Math.abs(m[col][col]) < 1e-12) {
+      throw new Error('Price model training failed: feature matrix is singular')
+    }
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n]
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k]
+    x[row] = sum / m[row][row]
+  }
+  return x
+}
+
+/**
+ * Fit the price model to a set of sales. Training rows are accumulated straight into the
+ * normal equations; only the holdout rows are kept in memory.
+ */
+export function trainPriceModel(sales: Iterable<PriceModelSale>, options: TrainPriceModelOptions = {}): PriceModel {
+  const lambda = options.lambda ?? 1
+  const holdoutPercent = options.holdoutPercent ?? 10
+  const size = PRICE_FEATURE_NAMES.length + 1
+
+  const xtx = Array.from({ length: size }, () => new Array<number>(size).fill(0))
+  const xty = new Array<number>(size).fill(0)
+  const holdout: { x: number[]; y: number; price: number }[] = []
+  let trainingRows = 0
+
+  for (const sale of sales) {
+    if (!(sale.price > 0)) continue
+    if (options.since && sale.date < options.since) continue
+
+    const x = [1, ...extractPriceFeatures(sale.domain)]
+    const y = Math.log(sale.price)
+    if (isHoldout(sale.domain, holdoutPercent)) {
+      holdout.push({ x, y, price: sale.price })
+      continue
+    }
+
+    trainingRows++
+    for (let i = 0; i < size; i++) {
+      if (x[i] === 0) continue
+      xty[i] += x[i] * y
+      for (let j = 0; j < size; j++) xtx[i][j] += x[i] * x[j]
+    }
+  }
+
+  if (trainingRows < size * 10) {
+    throw new Error(`Price model training needs at least ${size * 10} sales (got ${trainingRows})`)
+  }
+
+  // Ridge penalty on everything but the intercept
+  for (let i = 1; i < size; i++) xtx[i][i] += lambda
+  const coefficients = solve(xtx, xty)
+
+  const predict = (x: number[]) => x.reduce((sum, value, i) => sum + value * coefficients[i], 0)
+  const { residualStd, ...metrics } = evaluateHoldout(holdout, predict)
+
+  const model: PriceModel = {
+    format: PRICE_MODEL_FORMAT,
+    version: '',
+    trainedAt: new Date().toISOString(),
+    trainingRows,
+    since: options.since,
+    lambda,
+    holdoutPercent,
+    featureNames: PRICE_FEATURE_NAMES,
+    coefficients: coefficients.map(value => Math.round(value * 1e6) / 1e6),
+    residualStd,
+    metrics
+  }
+  model.version = createHash('md5').update(JSON.stringify(model.coefficients)).digest('hex').slice(0, 12)
+  return model
+}
+
+// Out-of-sample fit, plus the residual spread used for price ranges
+function evaluateHoldout(
+  holdout: { x: number[]; y: number; price: number }[],
+  predict: (x: number[]) => number
+): PriceModelMetrics & { residualStd: number } {
+  if (holdout.length < 2) {
+    throw new Error(`Price model training needs a holdout set (got ${holdout.length} rows)`)
+  }
+
+  const meanY = holdout.reduce((sum, row) => sum + row.y, 0) / holdout.length
+  let residualSum = 0
+  let totalSum = 0
+  const pctErrors: number[] = []
+  for (const row of holdout) {
+    const predicted = predict(row.x)
+    residualSum += (row.y - predicted) ** 2
+    totalSum += (row.y - meanY) ** 2
+    pctErrors.push(Math.abs(Math.exp(predicted) - row.price) / row.price)
+  }
+  pctErrors.sort((a, b) => a - b)
+
+  return {
+    holdoutRows: holdout.length,
+    rSquared: totalSum > 0 ? Math.round((1 - residualSum / totalSum) * 1e4) / 1e4 : 0,
+    medianAbsPctError: Math.round(pctErrors[Math.floor(pctErrors.length / 2)] * 1e4) / 1e4,
+    residualStd: Math.round(Math.sqrt(residualSum / (holdout.length - 1)) * 1e4) / 1e4
+  }
+}
+
+// --- Loading ----------------------------------------------------------------
+
+let model: PriceModel | null | undefined
+
+function isUsableModel(candidate: PriceModel): boolean {
+  return candidate.format === PRICE_MODEL_FORMAT &&
+    candidate.coefficients.length === PRICE_FEATURE_NAMES.length + 1 &&
+    candidate.featureNames.every((name, i) => name === PRICE_FEATURE_NAMES[i])
+}
+
+/**
+ * The price model in use: PRICE_MODEL_PATH if set, otherwise the bundled artifact.
+ * Returns null (bracket pricing) when the artifact is missing or was trained on a different feature set.
+ */
+export function getPriceModel(): PriceModel | null {
+  if (model !== undefined) return model
+
+  let candidate: PriceModel = bundledModel as PriceModel
+  const modelPath = process.env.PRICE_MODEL_PATH
+  if (modelPath) {
+    try {
+      candidate = JSON.parse(fs.readFileSync(modelPath, 'utf8'))
+    } catch (error) {
+      console.error(`Failed to load price model from ${modelPath}, using the bundled model:`, error)
+    }
+  }
+
+  if (isUsableModel(candidate)) {
+    model = candidate
+  } else {
+    console.warn(`Price model ${candidate.version} does not match feature format ${PRICE_MODEL_FORMAT}; using score brackets`)
+    model = null
+  }
+  return model
+}
+
+/**
+ * Replace the model in use (null forces bracket pricing)
+ */
+export function setPriceModel(next: PriceModel | null): void {
+  model = next
+}
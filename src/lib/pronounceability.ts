@@ -0,0 +1,258 @@
+// Deterministic pronounceability and memorability scorer, the baseline for brandability.
+// Names are transcribed to rough phonemes with spelling rules; phoneme bigram probabilities
+// come from transcribing the bundled word list (data/english-words.json) with the same rules,
+// so a name scores as "English-sounding" when its sound sequences are common in real words.
+
+import englishWords from '../../data/english-words.json'
+import { extractDisplayName, toLatinName, detectScripts } from './idn'
+import { segmentWords } from './word-segmentation'
+
+export interface LinguisticScore {
+  score: number // 0-100 baseline brandability
+  pronounceability: number // 0-100, from phoneme bigram probabilities and consonant clusters
+  memorability: number // 0-100, from length, syllables, real words and repetition
+  syllables: number
+  explanation: string
+  issues: string[] // e.g. "hard consonant cluster \"rstr\"", "ambiguous spelling \"ph\""
+}
+
+// Words used to train the bigram table (most frequent first)
+const LEXICON_SIZE = 20000
+const SMOOTHING = 0.5
+
+// Dictionary words score at least this for pronounceability
+const REAL_WORD_FLOOR = 80
+
+// Spelling-to-sound rules, longest match first. Vowel groups are kept as written ("ea", "oo")
+const DIGRAPHS: [string, string][] = [
+  ['tch', 'CH'], ['sch', 'SK'], ['ch', 'CH'], ['sh', 'SH'], ['th', 'TH'], ['ph', 'F'], ['wh', 'W'],
+  ['ck', 'K'], ['qu', 'KW'], ['ng', 'NG'], ['gh', 'G'], ['kn', 'N'], ['wr', 'R']
+]
+
+// Spellings a listener cannot reliably write down after hearing the name (the "radio test")
+const AMBIGUOUS_SPELLINGS: [RegExp, string][] = [
+  [/ph/, 'ph'],
+  [/ck/, 'ck'],
+  [/c(?=[eiy])/, 'soft c'],
+  [/x/, 'x'],
+  [/(?:ei|ie)/, 'ie/ei'],
+  [/(?:ee|ea)/, 'ee/ea'],
+  [/(?:ou|ow)/, 'ou/ow'],
+  [/[^aeiou]y[^aeiou]/, 'y as vowel'],
+  [/([bcdfgklmnprstz])\1/, 'double consonant'],
+  [/(?:^kn|^wr|^gn|mb$|gh)/, 'silent letter'],
+  [/[kc]/, 'c/k'],
+  [/z/, 'z/s']
+]
+
+const isVowel = (char: string) => char.length === 1 && 'aeiou'.includes(char)
+
+/**
+ * Rough phoneme sequence for a run of letters, e.g. "checkout" -> CH e K ou T
+ */
+export function toPhonemes(word: string): string[] {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '')
+  const phonemes: string[] = []
+  let i = 0
+
+  while (i < letters.length) {
+    const rest = letters.slice(i)
+
+    // Silent final e after a consonant ("make", "code")
+    if (rest === 'e' && letters.length > 3 && !isVowel(letters[i - 1])) break
+
+    const digraph = DIGRAPHS.find(([spelling]) => rest.startsWith(spelling))
+    if (digraph) {
+      phonemes.push(digraph[1])
+      i += digraph[0].length
+      continue
+    }
+
+    const char = letters[i]
+    const next = letters[i + 1] || ''
+    if (isVowel(char) || (char === 'y' && i > 0 && !isVowel(next))) {
+      // Vowel group: up to two vowel letters make one sound
+      const group = isVowel(next) && char !== 'y' ? char + next : char === 'y' ? 'i' : char
+      phonemes.push(group)
+      i += group.length === 2 ? 2 : 1
+      continue
+    }
+
+    if (char === 'c') phonemes.push('eiy'.includes(next) ? 'S' : 'K')
+    else if (char === 'x') phonemes.push('K', 'S')
+    else if (char === 'q') phonemes.push('K')
+    else if (char !== letters[i - 1]) phonemes.push(char.toUpperCase()) // Double consonants sound once
+    i += 1
+  }
+
+  return phonemes
+}
+
+function countSyllables(phonemes: string[]): number {
+  return Math.max(1, phonemes.filter(phoneme => /^[a-z]/.test(phoneme)).length)
+}
+
+let model: { logProbs: Map<string, number>; unseenLogProb: (from: string) => number; reference: { low: number; high: number } } | undefined
+
+function bigramsOf(phonemes: string[]): [string, string][] {
+  const sequence = ['^', ...phonemes, '$']
+  return sequence.slice(1).map((phoneme, index) => [sequence[index], phoneme])
+}
+
+// Built on first use from the bundled word list
+function getBigramModel() {
+  if (model) return model
+
+  const counts = new Map<string, number>()
+  const totals = new Map<string, number>()
+  const symbols = new Set<string>(['$'])
+  const lexicon = englishWords.words.slice(0, LEXICON_SIZE).filter(word => word.length >= 3)
+
+  for (const word of lexicon) {
+    for (const [from, to] of bigramsOf(toPhonemes(word))) {
+      counts.set(`${from} ${to}`, (counts.get(`${from} ${to}`) || 0) + 1)
+      totals.set(from, (totals.get(from) || 0) + 1)
+      symbols.add(to)
+    }
+  }
+
+  const logProbs = new Map<string, number>()
+  counts.forEach((count, key) => {
+    const from = key.split(' ')[0]
+    logProbs.set(key, Math.log((count + SMOOTHING) / ((totals.get(from) || 0) + SMOOTHING * symbols.size)))
+  })
+  const unseenLogProb = (from: string) => Math.log(SMOOTHING / ((totals.get(from) || 0) + SMOOTHING * symbols.size))
+
+  model = { logProbs, unseenLogProb, reference: { low: 0, high: 0 } }
+
+  // Calibrate: the lexicon's 1st percentile maps to 0 and its upper quartile to 100
+  const lexiconScores = lexicon.filter((_, index) => index % 10 === 0)
+    .map(word => averageLogProb(toPhonemes(word)))
+    .sort((a, b) => a - b)
+  model.reference = {
+    low: lexiconScores[Math.floor(lexiconScores.length * 0.01)],
+    high: lexiconScores[Math.floor(lexiconScores.length * 0.75)]
+  }
+  return model
+}
+
+function averageLogProb(phonemes: string[]): number {
+  const { logProbs, unseenLogProb } = getBigramModel()
+  const bigrams = bigramsOf(phonemes)
+  const total = bigrams.reduce((sum, [from, to]) => sum + (logProbs.get(`${from} ${to}`) ?? unseenLogProb(from)), 0)
+  return total / bigrams.length
+}
+
+const clamp = (value: number) => Math.round(Math.max(0, Math.min(100, value)))
+
+/**
+ * Score how easy a name is to say and remember. Works on letters only; digits and
+ * hyphens are penalised but otherwise ignored. Latin-script IDNs are scored without
+ * their diacritics; other scripts get a neutral score.
+ */
+export function scorePronounceability(domain: string): LinguisticScore {
+  const latinName = toLatinName(domain)
+  if (latinName === null) {
+    const displayName = extractDisplayName(domain)
+    return {
+      score: 50,
+      pronounceability: 50,
+      memorability: 50,
+      syllables: 0,
+      explanation: `${displayName} is written in ${detectScripts(displayName).join('/')} script; pronounceability is only assessed for Latin-script names.`,
+      issues: []
+    }
+  }
+
+  const name = latinName.toLowerCase()
+  const letters = name.replace(/[^a-z]/g, '')
+  const issues: string[] = []
+
+  if (!letters) {
+    return {
+      score: 20,
+      pronounceability: 0,
+      memorability: 40,
+      syllables: 0,
+      explanation: `${name.toUpperCase()} has no letters to pronounce; numeric names are remembered as numbers, not words.`,
+      issues: ['no letters']
+    }
+  }
+
+  const { words, unknown, coverage } = segmentWords(name)
+  const letterWords = words.filter(word => /^[a-z]/.test(word))
+  const syllables = letterWords.reduce((sum, word) => sum + countSyllables(toPhonemes(word)), 0)
+
+  // Pronounceability: phonotactic likelihood of each word (real words are pronounceable
+  // by definition), weighted by length, minus hard clusters
+  const { reference } = getBigramModel()
+  const wordScores = letterWords.map(word => {
+    const likelihood = 100 * (averageLogProb(toPhonemes(word)) - reference.low) / (reference.high - reference.low)
+    return { length: word.length, score: unknown.includes(word) ? likelihood : Math.max(likelihood, REAL_WORD_FLOOR) }
+  })
+  let pronounceability = wordScores.reduce((sum, entry) => sum + entry.score * entry.length, 0) / letters.length
+  const clusters = (letters.match(/[^aeiouy]{4,}/g) || [])
+    .filter(cluster => !words.some(word => word.includes(cluster))) // Fine inside real words ("strengths")
+  if (clusters.length > 0) {
+    pronounceability -= 20 * clusters.length
+    issues.push(`hard consonant cluster "${clusters[0]}"`)
+  }
+  if (!/[aeiouy]/.test(letters)) {
+    pronounceability -= 40
+    issues.push('no vowels')
+  }
+  pronounceability = clamp(pronounceability)
+
+  // Memorability: short, two or three syllables, real words, no stutter
+  let memorability = letters.length <= 6 ? 90 : letters.length <= 9 ? 75 : letters.length <= 12 ? 55 : 35
+  if (syllables >= 2 && syllables <= 3) memorability += 5
+  else if (syllables >= 5) memorability -= 15
+  memorability += Math.round(coverage * 10)
+  if (pronounceability < 30 && letters.length > 4) memorability -= 25 // A string you cannot say is hard to recall
+  if (/(.)\1\1/.test(letters)) {
+    memorability -= 20
+    issues.push('letter repeated three times')
+  } else if (/(..).*\1/.test(letters) && letters.length > 6) {
+    memorability -= 5
+    issues.push('repeated letter pair')
+  }
+  if (/[0-9]/.test(name)) {
+    memorability -= 10
+    issues.push('mixes digits with letters')
+  }
+  if (name.includes('-')) {
+    memorability -= 15
+    issues.push('hyphenated')
+  }
+
+  // Spelling ambiguity only matters for coinages - real words are spelled as expected
+  const coinedLetters = words.filter(word => !/^[0-9]/.test(word) && coverage < 1).join('')
+  const ambiguous = AMBIGUOUS_SPELLINGS.filter(([pattern]) => pattern.test(coinedLetters)).map(([, label]) => label)
+  if (ambiguous.length > 0) {
+    memorability -= Math.min(20, 7 * ambiguous.length)
+    issues.push(`ambiguous spelling (${ambiguous.slice(0, 2).join(', ')})`)
+  }
+  memorability = clamp(memorability)
+
+  const score = clamp(0.5 * pronounceability + 0.5 * memorability)
+  return {
+    score,
+    pronounceability,
+    memorability,
+    syllables,
+    explanation: describeScore(name, syllables, pronounceability, memorability, coverage, issues),
+    issues
+  }
+}
+
+function describeScore(name: string, syllables: number, pronounceability: number, memorability: number, coverage: number, issues: string[]): string {
+  const sound = pronounceability >= 70 ? 'sounds natural in English'
+    : pronounceability >= 40 ? 'is pronounceable with some effort'
+    : 'is hard to pronounce'
+  const recall = memorability >= 75 ? 'easy to remember'
+    : memorability >= 50 ? 'reasonably memorable'
+    : 'hard to remember'
+  const words = coverage === 1 ? ' Built from real words.' : coverage > 0 ? ' Partly built from real words.' : ''
+  const problems = issues.length > 0 ? ` Watch for: ${issues.join('; ')}.` : ''
+  return `${name.toUpperCase()} (${syllables} syllable${syllables === 1 ? '' : 's'}) ${sound} and is ${recall}.${words}${problems}`
+}
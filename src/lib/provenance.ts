@@ -0,0 +1,41 @@
+// Human-readable provenance for WHOIS data and comparables, shared by the UI and PDF reports
+import type { WhoisData, WhoisDataSource, ComparableSale } from '../types'
+
+export const WHOIS_SOURCE_LABELS: Record<WhoisDataSource, string> = {
+  rdap: 'Registry RDAP',
+  whois: 'Registry WHOIS',
+  ip2whois: 'IP2WHOIS',
+  ai_estimate: 'AI estimate'
+}
+
+/**
+ * Whether the data was looked up from a registry (or mirror) rather than guessed
+ */
+export function isVerifiedWhois(whoisData: WhoisData): boolean {
+  return whoisData.dataSource !== undefined && whoisData.dataSource !== 'ai_estimate'
+}
+
+/**
+ * e.g. "Registry RDAP, fetched Jan 5, 2025, 95% confidence"
+ */
+export function describeWhoisProvenance(whoisData: WhoisData): string {
+  if (!whoisData.dataSource) {
+    return 'Source unknown'
+  }
+
+  const parts = [WHOIS_SOURCE_LABELS[whoisData.dataSource]]
+  if (whoisData.fetchedAt) {
+    const fetched = new Date(whoisData.fetchedAt)
+    if (!isNaN(fetched.getTime())) {
+      parts.push(`fetched ${fetched.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`)
+    }
+  }
+  if (whoisData.confidence !== undefined) {
+    parts.push(`${whoisData.confidence}% confidence`)
+  }
+  return parts.join(', ')
+}
+
+export function describeComparableSource(comp: ComparableSale): string {
+  return comp.synthetic ? `${comp.source} (estimated, not a recorded sale)` : comp.source
+}
@@ -13,9 +13,17 @@ interface SessionRateLimit {
 const rateLimitMap = new Map<string, RateLimitEntry>()
 const sessionLimitMap = new Map<string, SessionRateLimit>()
 // Use environment variables or default to 3 requests (matching frontend)
-const RATE_LIMIT = parseInt(process.env.RATE_LIMIT_REQUESTS || '3', 10)
+export const RATE_LIMIT = parseInt(process.env.RATE_LIMIT_REQUESTS || '3', 10)
 const WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW || '3600', 10) * 1000 // Convert seconds to milliseconds
 
+// Resolve the client IP from proxy headers with a safe fallback
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')
+  return forwarded ? forwarded.split(',')[0].trim() :
+         headers.get('x-real-ip') ||
+         'unknown'
+}
+
 // Enhanced rate limiting with IP validation and session support
 export function checkRateLimit(ip: string, userAgent?: string, sessionId?: string): { allowed: boolean; remaining: number; resetTime: number } {
   const now = Date.now()
@@ -0,0 +1,241 @@
+// RDAP (RFC 9082/9083) client for domain registration data.
+// The TLD -> server mapping comes from the IANA bootstrap file (RFC 9224). A copy is bundled in
+// data/rdap-dns.json (refresh with `npm run update:rdap-bootstrap`); set RDAP_BOOTSTRAP_URL to
+// load it at runtime instead. RDAP_BASE_URL sends every lookup to one server (e.g. a local stub).
+
+import bundledBootstrap from '../../data/rdap-dns.json'
+import type { WhoisData } from '../types'
+
+export interface RdapBootstrap {
+  version?: string
+  publication?: string
+  services: string[][][] // [[tlds], [server URLs]]
+}
+
+export type RdapFetch = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface RdapClientOptions {
+  bootstrap?: RdapBootstrap
+  /** Fetch the bootstrap file from this URL instead of using the bundled copy */
+  bootstrapUrl?: string
+  /** Send all queries to this server, ignoring the bootstrap file */
+  baseUrl?: string
+  /** HTTP layer, swappable in tests */
+  fetch?: RdapFetch
+  timeoutMs?: number
+}
+
+/**
+ * Thrown when a domain cannot be looked up over RDAP (no server for the TLD, HTTP or parse errors)
+ */
+export class RdapError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message)
+    this.name = 'RdapError'
+  }
+}
+
+// Subset of the RDAP domain object (RFC 9083 section 5.3) that we read
+interface RdapEvent {
+  eventAction: string
+  eventDate: string
+}
+
+interface RdapEntity {
+  roles?: string[]
+  vcardArray?: [string, [string, Record<string, unknown>, string, unknown][]]
+  publicIds?: { type: string; identifier: string }[]
+  entities?: RdapEntity[]
+}
+
+interface RdapDomain {
+  objectClassName?: string
+  ldhName?: string
+  status?: string[]
+  events?: RdapEvent[]
+  entities?: RdapEntity[]
+  nameservers?: { ldhName?: string }[]
+}
+
+const DEFAULT_TIMEOUT_MS = 8000
+
+// Registry RDAP data is authoritative; a 404 is slightly less certain since some
+// registries also answer 404 for reserved or blocked names
+const REGISTERED_CONFIDENCE = 95
+const NOT_FOUND_CONFIDENCE = 90
+
+export class RdapClient {
+  private bootstrap: RdapBootstrap | null
+  private bootstrapPromise: Promise<RdapBootstrap> | null = null
+  private fetchImpl: RdapFetch
+  private timeoutMs: number
+
+  constructor(private options: RdapClientOptions = {}) {
+    this.bootstrap = options.bootstrap || (options.bootstrapUrl ? null : bundledBootstrap)
+    this.fetchImpl = options.fetch || ((url, init) => fetch(url, init))
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS
+  }
+
+  /**
+   * RDAP base URL for a TLD, or null if the registry does not offer RDAP
+   */
+  async findServer(tld: string): Promise<string | null> {
+    if (this.options.baseUrl) {
+      return withTrailingSlash(this.options.baseUrl)
+    }
+
+    const bootstrap = await this.getBootstrap()
+    const label = tld.toLowerCase().replace(/^\./, '')
+    const service = bootstrap.services.find(([tlds]) => tlds.includes(label))
+    if (!service) return null
+
+    // Prefer HTTPS when the registry lists several URLs
+    const urls = service[1]
+    return withTrailingSlash(urls.find(url => url.startsWith('https://')) || urls[0])
+  }
+
+  /**
+   * Look up a domain. A 404 from the registry means the name is not registered.
+   */
+  async lookup(domain: string): Promise<WhoisData> {
+    const name = domain.toLowerCase()
+    const tld = name.slice(name.lastIndexOf('.') + 1)
+
+    const server = await this.findServer(tld)
+    if (!server) {
+      throw new RdapError(`No RDAP server for .${tld}`)
+    }
+
+    const response = await this.fetchImpl(`${server}domain/${encodeURIComponent(name)}`, {
+      headers: { Accept: 'application/rdap+json, application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    })
+
+    if (response.status === 404) {
+      return {
+        domain,
+        isAvailable: true,
+        status: 'available',
+        dataSource: 'rdap',
+        fetchedAt: new Date().toISOString(),
+        confidence: NOT_FOUND_CONFIDENCE
+      }
+    }
+    if (!response.ok) {
+      throw new RdapError(`RDAP server returned ${response.status} for ${name}`, response.status)
+    }
+
+    let body: RdapDomain
+    try {
+      body = await response.json()
+    } catch {
+      throw new RdapError(`RDAP server returned invalid JSON for ${name}`)
+    }
+
+    return parseRdapDomain(domain, body)
+  }
+
+  private async getBootstrap(): Promise<RdapBootstrap> {
+    if (this.bootstrap) return this.bootstrap
+
+    if (!this.bootstrapPromise) {
+      this.bootstrapPromise = this.fetchImpl(this.options.bootstrapUrl!, { signal: AbortSignal.timeout(this.timeoutMs) })
+        .then(async response => {
+          if (!response.ok) throw new RdapError(`Bootstrap fetch failed with ${response.status}`, response.status)
+          return response.json() as Promise<RdapBootstrap>
+        })
+        .then(bootstrap => {
+          this.bootstrap = bootstrap
+          return bootstrap
+        })
+        .catch(error => {
+          // Fall back to the bundled copy rather than failing every lookup
+          console.error('RDAP bootstrap fetch failed, using bundled copy:', error)
+          this.bootstrap = bundledBootstrap
+          return bundledBootstrap
+        })
+    }
+    return this.bootstrapPromise
+  }
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`
+}
+
+/**
+ * Map an RDAP domain object onto WhoisData
+ */
+export function parseRdapDomain(domain: string, body: RdapDomain): WhoisData {
+  const eventDate = (action: string) => body.events?.find(event => event.eventAction === action)?.eventDate
+  const registrationDate = eventDate('registration')
+
+  const whoisData: WhoisData = {
+    domain,
+    isAvailable: false,
+    dataSource: 'rdap',
+    fetchedAt: new Date().toISOString(),
+    confidence: REGISTERED_CONFIDENCE,
+    registrationDate,
+    expirationDate: eventDate('expiration'),
+    registrar: entityName(findEntity(body.entities, 'registrar')),
+    nameServers: (body.nameservers || [])
+      .map(ns => ns.ldhName?.toLowerCase())
+      .filter((ns): ns is string => Boolean(ns)),
+    registrant: entityName(findEntity(body.entities, 'registrant')),
+    adminContact: entityName(findEntity(body.entities, 'administrative')),
+    status: body.status?.[0],
+    lastUpdated: eventDate('last changed')
+  }
+
+  if (registrationDate) {
+    whoisData.ageInYears = calculateAgeInYears(registrationDate)
+  }
+
+  return whoisData
+}
+
+// Entities can be nested (e.g. the abuse contact inside the registrar), so search depth-first
+function findEntity(entities: RdapEntity[] | undefined, role: string): RdapEntity | undefined {
+  for (const entity of entities || []) {
+    if (entity.roles?.includes(role)) return entity
+    const nested = findEntity(entity.entities, role)
+    if (nested) return nested
+  }
+  return undefined
+}
+
+// jCard (RFC 7095): ["vcard", [["fn", {}, "text", "Example Registrar, Inc."], ...]]
+function entityName(entity: RdapEntity | undefined): string | undefined {
+  const properties = entity?.vcardArray?.[1] || []
+  const fn = properties.find(([name]) => name === 'fn')?.[3]
+  if (typeof fn === 'string' && fn.trim() !== '') return fn
+  const org = properties.find(([name]) => name === 'org')?.[3]
+  return typeof org === 'string' && org.trim() !== '' ? org : undefined
+}
+
+export function calculateAgeInYears(registrationDate: string): number | undefined {
+  const creationDate = new Date(registrationDate)
+  if (isNaN(creationDate.getTime())) return undefined
+  const now = new Date()
+  return Math.floor(((now.getTime() - creationDate.getTime()) / (1000 * 60 * 60 * 24 * 365.25)) * 10) / 10
+}
+
+let client: RdapClient | null = null
+
+export function getRdapClient(): RdapClient {
+  if (!client) {
+    client = new RdapClient({
+      bootstrapUrl: process.env.RDAP_BOOTSTRAP_URL || undefined,
+      baseUrl: process.env.RDAP_BASE_URL || undefined
+    })
+  }
+  return client
+}
+
+/**
+ * Replace the shared client (e.g. with one pointed at a local stub server)
+ */
+export function setRdapClient(next: RdapClient | null): void {
+  client = next
+}
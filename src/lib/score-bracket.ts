@@ -0,0 +1,14 @@
+// Score brackets: the 20-point bands of the final score that prices are looked up by and
+// that stored appraisals are reported in. Kept apart from valuation.ts so the storage
+// drivers can label rows without loading the valuation pipeline.
+
+/**
+ * Bracket of a final score, e.g. "60-80"
+ */
+export function getScoreBracket(score: number): string {
+  if (score >= 80) return '80-100'
+  if (score >= 60) return '60-80'
+  if (score >= 40) return '40-60'
+  if (score >= 20) return '20-40'
+  return '0-20'
+}
@@ -0,0 +1,35 @@
+// Storage driver selection.
+// STORAGE_DRIVER=supabase|postgres picks the backend explicitly; otherwise Supabase is
+// used when its URL is configured and plain Postgres (DATABASE_URL) when it is not.
+import type { StorageAdapter } from './types'
+import { createSupabaseStorage } from './supabase'
+import { createPostgresStorage } from './postgres'
+
+export type { StorageAdapter, StoredAppraisal, AppraisalRepository, DomainSalesRepository, DomainSaleRecord, DomainSalesQuery, DomainSalesSampleQuery, DomainSalesStats, AIAnalysisRepository, AIAnalysisRecord, AIAnalysisFilter } from './types'
+
+let storage: StorageAdapter | null = null
+
+export function resolveStorageDriver(): 'supabase' | 'postgres' {
+  const driver = process.env.STORAGE_DRIVER?.toLowerCase()
+  if (driver === 'supabase' || driver === 'postgres') {
+    return driver
+  }
+  if (driver) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}" - expected "supabase" or "postgres"`)
+  }
+  return process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'postgres'
+}
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = resolveStorageDriver() === 'supabase' ? createSupabaseStorage() : createPostgresStorage()
+  }
+  return storage
+}
+
+/**
+ * Replace the active storage adapter (e.g. from offline scripts)
+ */
+export function setStorage(adapter: StorageAdapter | null): void {
+  storage = adapter
+}
@@ -0,0 +1,189 @@
+// Plain PostgreSQL storage driver (via node-postgres) for running without Supabase
+import { Pool } from 'pg'
+import type { StorageAdapter } from './types'
+import { toStoredAppraisal, toAppraisalRow, toAIAnalysisRecord } from './rows'
+
+// Same schema as SUPABASE_SETUP.md, minus the Supabase-specific RLS policies
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS appraisals (
+    id SERIAL PRIMARY KEY,
+    domain VARCHAR(255) NOT NULL,
+    final_score DECIMAL(5,2) NOT NULL,
+    breakdown JSONB NOT NULL,
+    price_estimate JSONB NOT NULL,
+    comps JSONB DEFAULT '[]',
+    legal_flag VARCHAR(10) DEFAULT 'clear',
+    ai_comment TEXT,
+    whois_data JSONB NULL,
+    options_hash VARCHAR(32) NULL,
+    weighting JSONB NULL,
+    data_quality JSONB NULL,
+    extension_landscape JSONB NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    user_id VARCHAR(255) NULL
+  );
+  ALTER TABLE appraisals ADD COLUMN IF NOT EXISTS weighting JSONB NULL;
+  ALTER TABLE appraisals ADD COLUMN IF NOT EXISTS data_quality JSONB NULL;
+  ALTER TABLE appraisals ADD COLUMN IF NOT EXISTS extension_landscape JSONB NULL;
+  CREATE INDEX IF NOT EXISTS idx_appraisals_domain_created ON appraisals (domain, created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_appraisals_domain_options_created ON appraisals (domain, options_hash, created_at DESC);
+
+  CREATE TABLE IF NOT EXISTS domain_sales (
+    id SERIAL PRIMARY KEY,
+    date DATE NOT NULL,
+    domain VARCHAR(255) NOT NULL,
+    price INTEGER NOT NULL,
+    venue VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS idx_domain_sales_domain ON domain_sales (domain);
+  CREATE INDEX IF NOT EXISTS idx_domain_sales_date ON domain_sales (date);
+  CREATE INDEX IF NOT EXISTS idx_domain_sales_price ON domain_sales (price);
+
+  CREATE TABLE IF NOT EXISTS ai_analyses (
+    id SERIAL PRIMARY KEY,
+    domain VARCHAR(255) NOT NULL,
+    task VARCHAR(32) NOT NULL,
+    prompt_version VARCHAR(32) NOT NULL,
+    result JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_analyses_key ON ai_analyses (domain, task, prompt_version);
+`
+
+export function createPostgresStorage(connectionString: string | undefined = process.env.DATABASE_URL): StorageAdapter {
+  if (!connectionString) {
+    throw new Error('DATABASE_URL environment variable is not set')
+  }
+
+  const pool = new Pool({ connectionString })
+
+  return {
+    name: 'postgres',
+
+    async init() {
+      await pool.query(SCHEMA_SQL)
+    },
+
+    appraisals: {
+      async findRecent(domain, optionsHash, since) {
+        const { rows } = await pool.query(
+          `SELECT * FROM appraisals
+           WHERE domain = $1 AND (options_hash = $2 OR options_hash IS NULL) AND created_at > $3
+           ORDER BY created_at DESC
+           LIMIT 1`,
+          [domain, optionsHash, since]
+        )
+        return rows.length > 0 ? toStoredAppraisal(rows[0]) : null
+      },
+
+      async findLatest(domain) {
+        const { rows } = await pool.query(
+          'SELECT * FROM appraisals WHERE domain = $1 ORDER BY created_at DESC LIMIT 1',
+          [domain]
+        )
+        return rows.length > 0 ? toStoredAppraisal(rows[0]) : null
+      },
+
+      async insert(appraisal, optionsHash) {
+        const row = toAppraisalRow(appraisal, optionsHash)
+        const { rows } = await pool.query(
+          `INSERT INTO appraisals (domain, final_score, breakdown, price_estimate, comps, legal_flag, ai_comment, whois_data, weighting, data_quality, extension_landscape, options_hash)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+           RETURNING id`,
+          [
+            row.domain,
+            row.final_score,
+            JSON.stringify(row.breakdown),
+            JSON.stringify(row.price_estimate),
+            JSON.stringify(row.comps),
+            row.legal_flag,
+            row.ai_comment,
+            row.whois_data ? JSON.stringify(row.whois_data) : null,
+            row.weighting ? JSON.stringify(row.weighting) : null,
+            row.data_quality ? JSON.stringify(row.data_quality) : null,
+            row.extension_landscape ? JSON.stringify(row.extension_landscape) : null,
+            row.options_hash
+          ]
+        )
+        return rows[0].id
+      },
+
+      async updateWhois(id, whoisData) {
+        await pool.query('UPDATE appraisals SET whois_data = $1 WHERE id = $2', [JSON.stringify(whoisData), id])
+      }
+    },
+
+    domainSales: {
+      async findCandidates({ minPrice, maxPrice, since, limit, excludeDomain, before }) {
+        const { rows } = await pool.query(
+          `SELECT to_char(date, 'YYYY-MM-DD') AS date, domain, price, venue
+           FROM domain_sales
+           WHERE price >= $1 AND price <= $2 AND date >= $3 AND ($5::text IS NULL OR domain <> $5)
+             AND ($6::date IS NULL OR date < $6)
+           ORDER BY date DESC
+           LIMIT $4`,
+          [minPrice, maxPrice, since, limit, excludeDomain ?? null, before ?? null]
+        )
+        return rows
+      },
+
+      async sample({ limit, seed, minPrice = 0, since = '1990-01-01' }) {
+        // Ordering by a seeded hash gives a stable pseudo-random sample
+        const { rows } = await pool.query(
+          `SELECT to_char(date, 'YYYY-MM-DD') AS date, domain, price, venue
+           FROM domain_sales
+           WHERE price >= $1 AND date >= $2
+           ORDER BY md5(domain || to_char(date, 'YYYY-MM-DD') || $3)
+           LIMIT $4`,
+          [minPrice, since, seed, limit]
+        )
+        return rows
+      },
+
+      async getStats() {
+        const { rows } = await pool.query(`
+          SELECT
+            COUNT(*)::int AS total_records,
+            COUNT(DISTINCT substring(domain from '\\.([^.]+)$'))::int AS unique_tlds,
+            COALESCE(ROUND(AVG(price)), 0)::int AS avg_price,
+            to_char(MIN(date), 'YYYY-MM-DD') AS oldest_sale,
+            to_char(MAX(date), 'YYYY-MM-DD') AS newest_sale
+          FROM domain_sales
+        `)
+        return rows[0]
+      }
+    },
+
+    aiAnalyses: {
+      async find(domain, task, promptVersion, since) {
+        const { rows } = await pool.query(
+          `SELECT * FROM ai_analyses
+           WHERE domain = $1 AND task = $2 AND prompt_version = $3 AND created_at > $4
+           LIMIT 1`,
+          [domain, task, promptVersion, since]
+        )
+        return rows.length > 0 ? toAIAnalysisRecord(rows[0]) : null
+      },
+
+      async save(domain, task, promptVersion, result) {
+        await pool.query(
+          `INSERT INTO ai_analyses (domain, task, prompt_version, result)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (domain, task, prompt_version)
+           DO UPDATE SET result = EXCLUDED.result, created_at = CURRENT_TIMESTAMP`,
+          [domain, task, promptVersion, JSON.stringify(result)]
+        )
+      },
+
+      async invalidate({ domain, task }) {
+        const { rowCount } = await pool.query(
+          `DELETE FROM ai_analyses
+           WHERE ($1::text IS NULL OR domain = $1) AND ($2::text IS NULL OR task = $2)`,
+          [domain ?? null, task ?? null]
+        )
+        return rowCount ?? 0
+      }
+    }
+  }
+}
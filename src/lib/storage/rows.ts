@@ -0,0 +1,131 @@
+// Mapping between `appraisals` table rows and application objects (shared by all drivers)
+import type {
+  DomainAppraisal,
+  FactorBreakdown,
+  PriceEstimate,
+  ComparableSale,
+  WhoisData,
+  AppliedWeighting,
+  DataQuality,
+  ExtensionLandscape
+} from '../../types'
+import type { StoredAppraisal, AIAnalysisRecord } from './types'
+import { normalizePriceEstimate } from '../currency'
+import { getScoreBracket } from '../score-bracket'
+import { segmentDomainName } from '../word-segmentation'
+import { classifyDomainPattern } from '../domain-pattern'
+import { analyzeIDN } from '../idn'
+import { extractTLD } from '../tld-utils'
+import { getTLDMetadata, estimateHoldingCost } from '../tld-metadata'
+
+// JSON columns come back parsed from JSONB but as strings from older text columns
+type JsonColumn<T> = T | string
+
+// The columns written for a new appraisal; optional ones are left out when empty, so tables
+// created before a column was added keep accepting appraisals that do not use it
+export interface AppraisalInsertRow {
+  domain: string
+  final_score: number
+  breakdown: FactorBreakdown[]
+  price_estimate: PriceEstimate
+  comps: ComparableSale[]
+  legal_flag: 'clear' | 'warning' | 'severe'
+  ai_comment: string
+  whois_data: WhoisData | null
+  options_hash: string
+  weighting?: AppliedWeighting
+  data_quality?: DataQuality
+  extension_landscape?: ExtensionLandscape
+}
+
+export interface AppraisalRow {
+  id: number
+  domain: string
+  final_score: string | number
+  breakdown: JsonColumn<FactorBreakdown[]>
+  price_estimate: JsonColumn<Partial<PriceEstimate>> | null
+  comps: JsonColumn<ComparableSale[]> | null
+  legal_flag: 'clear' | 'warning' | 'severe'
+  ai_comment: string
+  whois_data: JsonColumn<WhoisData> | null
+  options_hash: string | null
+  weighting?: JsonColumn<AppliedWeighting> | null
+  data_quality?: JsonColumn<DataQuality> | null
+  extension_landscape?: JsonColumn<ExtensionLandscape> | null
+  created_at: string | Date
+}
+
+function parseJson<T, F>(value: JsonColumn<T> | null | undefined, fallback: F): T | F {
+  if (value === null || value === undefined) return fallback
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return fallback
+    }
+  }
+  return value
+}
+
+export function toStoredAppraisal(row: AppraisalRow): StoredAppraisal {
+  const finalScore = typeof row.final_score === 'number' ? row.final_score : parseFloat(row.final_score)
+
+  return {
+    id: row.id,
+    domain: row.domain,
+    finalScore,
+    bracket: getScoreBracket(finalScore),
+    priceEstimate: normalizePriceEstimate(parseJson(row.price_estimate, null)),
+    breakdown: parseJson(row.breakdown, []),
+    legalFlag: row.legal_flag,
+    aiComment: row.ai_comment,
+    // Derived from the name, so not stored
+    words: segmentDomainName(row.domain).words,
+    pattern: classifyDomainPattern(row.domain),
+    idn: analyzeIDN(row.domain) ?? undefined,
+    tld: getTLDMetadata(extractTLD(row.domain)),
+    holdingCost: estimateHoldingCost(row.domain),
+    comps: parseJson(row.comps, []),
+    whoisData: parseJson(row.whois_data, undefined),
+    weighting: parseJson(row.weighting, undefined),
+    dataQuality: parseJson(row.data_quality, undefined),
+    extensionLandscape: parseJson(row.extension_landscape, undefined),
+    optionsHash: row.options_hash,
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+  }
+}
+
+export function toAppraisalRow(appraisal: DomainAppraisal, optionsHash: string): AppraisalInsertRow {
+  return {
+    domain: appraisal.domain,
+    final_score: appraisal.finalScore,
+    breakdown: appraisal.breakdown,
+    price_estimate: appraisal.priceEstimate,
+    comps: appraisal.comps || [],
+    legal_flag: appraisal.legalFlag,
+    ai_comment: appraisal.aiComment,
+    whois_data: appraisal.whoisData || null,
+    options_hash: optionsHash,
+    ...(appraisal.weighting && { weighting: appraisal.weighting }),
+    ...(appraisal.dataQuality && { data_quality: appraisal.dataQuality }),
+    ...(appraisal.extensionLandscape && { extension_landscape: appraisal.extensionLandscape })
+  }
+}
+
+export interface AIAnalysisRow {
+  domain: string
+  task: string
+  prompt_version: string
+  result: JsonColumn<unknown> | null
+  created_at: string | Date
+}
+
+export function toAIAnalysisRecord(row: AIAnalysisRow): AIAnalysisRecord {
+  return {
+    domain: row.domain,
+    task: row.task,
+    promptVersion: row.prompt_version,
+    result: parseJson(row.result, null),
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+  }
+}
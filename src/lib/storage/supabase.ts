@@ -0,0 +1,270 @@
+// Supabase storage driver
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { StorageAdapter, DomainSalesStats } from './types'
+import { toStoredAppraisal, toAppraisalRow, toAIAnalysisRecord } from './rows'
+
+let client: SupabaseClient | undefined
+
+// Only the service role may read or write cached AI analyses (the table has no anon policy,
+// so the public key cannot poison cached trademark verdicts); without it they are not cached
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+// Storage runs without a user session (API routes, scripts, backtests), so the client needs no
+// request cookies and one instance is shared for the process
+export function getSupabaseClient(): SupabaseClient {
+  if (!client) {
+    client = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      serviceRoleKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    )
+  }
+  return client
+}
+
+function getDefaultStats(): DomainSalesStats {
+  return {
+    total_records: 0,
+    unique_tlds: 0,
+    avg_price: 0,
+    oldest_sale: null,
+    newest_sale: null
+  }
+}
+
+export function createSupabaseStorage(): StorageAdapter {
+  return {
+    name: 'supabase',
+
+    async init() {
+      // Note: With Supabase, table creation should be done through the Supabase dashboard
+      // or SQL editor, not programmatically (see SUPABASE_SETUP.md). Check the columns added
+      // since then exist, so a missing migration fails here rather than on every insert.
+      const { error } = await getSupabaseClient()
+        .from('appraisals')
+        .select('id, options_hash, weighting, data_quality, extension_landscape')
+        .limit(1)
+      if (error) {
+        throw new Error(`The appraisals table is missing columns, run the ALTER TABLE statements in SUPABASE_SETUP.md: ${error.message}`)
+      }
+    },
+
+    appraisals: {
+      async findRecent(domain, optionsHash, since) {
+        const supabase = getSupabaseClient()
+
+        const { data, error } = await supabase
+          .from('appraisals')
+          .select('*')
+          .eq('domain', domain)
+          .or(`options_hash.eq.${optionsHash},options_hash.is.null`)
+          .gt('created_at', since.toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1)
+
+        if (error) throw error
+        return data && data.length > 0 ? toStoredAppraisal(data[0]) : null
+      },
+
+      async findLatest(domain) {
+        const supabase = getSupabaseClient()
+
+        const { data, error } = await supabase
+          .from('appraisals')
+          .select('*')
+          .eq('domain', domain)
+          .order('created_at', { ascending: false })
+          .limit(1)
+
+        if (error) throw error
+        return data && data.length > 0 ? toStoredAppraisal(data[0]) : null
+      },
+
+      async insert(appraisal, optionsHash) {
+        const supabase = getSupabaseClient()
+
+        const { data, error } = await supabase
+          .from('appraisals')
+          .insert(toAppraisalRow(appraisal, optionsHash))
+          .select('id')
+          .single()
+
+        if (error) throw error
+        return data.id
+      },
+
+      async updateWhois(id, whoisData) {
+        const supabase = getSupabaseClient()
+
+        const { error } = await supabase
+          .from('appraisals')
+          .update({ whois_data: whoisData })
+          .eq('id', id)
+
+        if (error) throw error
+      }
+    },
+
+    domainSales: {
+      async findCandidates({ minPrice, maxPrice, since, limit, excludeDomain, before }) {
+        const supabase = getSupabaseClient()
+
+        let query = supabase
+          .from('domain_sales')
+          .select('date, domain, price, venue')
+          .gte('price', minPrice)
+          .lte('price', maxPrice)
+          .gte('date', since)
+        if (excludeDomain) query = query.neq('domain', excludeDomain)
+        if (before) query = query.lt('date', before)
+
+        const { data, error } = await query
+          .order('date', { ascending: false })
+          .limit(limit)
+
+        if (error) throw error
+        return data || []
+      },
+
+      async sample({ limit, seed, minPrice = 0, since = '1990-01-01' }) {
+        const supabase = getSupabaseClient()
+
+        const { count, error: countError } = await supabase
+          .from('domain_sales')
+          .select('*', { count: 'exact', head: true })
+          .gte('price', minPrice)
+          .gte('date', since)
+        if (countError) throw countError
+
+        // PostgREST has no seeded random ordering, so take small pages at seeded offsets
+        const total = count || 0
+        const pageSize = 20
+        const pages = Math.ceil(limit / pageSize)
+        let state = Array.from(seed).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7)
+        const sales = []
+
+        for (let i = 0; i < pages && total > 0; i++) {
+          state = (state * 1103515245 + 12345) >>> 0
+          const offset = state % Math.max(1, total - pageSize)
+          const { data, error } = await supabase
+            .from('domain_sales')
+            .select('date, domain, price, venue')
+            .gte('price', minPrice)
+            .gte('date', since)
+            .order('id', { ascending: true })
+            .range(offset, offset + pageSize - 1)
+
+          if (error) throw error
+          sales.push(...(data || []))
+        }
+
+        return sales.slice(0, limit)
+      },
+
+      async getStats() {
+        const supabase = getSupabaseClient()
+
+        // Get total count and basic stats
+        const { count: totalRecords, error: countError } = await supabase
+          .from('domain_sales')
+          .select('*', { count: 'exact', head: true })
+
+        if (countError) {
+          console.error('Error getting total count:', countError)
+          return getDefaultStats()
+        }
+
+        // Get aggregated stats
+        const { data: statsData, error: statsError } = await supabase
+          .rpc('get_domain_sales_stats')
+
+        if (statsError) {
+          // Fallback: get basic stats with separate queries
+          const { data: priceData } = await supabase
+            .from('domain_sales')
+            .select('price')
+            .order('price', { ascending: false })
+            .limit(1000)
+
+          const { data: dateData } = await supabase
+            .from('domain_sales')
+            .select('date')
+            .order('date', { ascending: true })
+            .limit(1)
+
+          const { data: latestDateData } = await supabase
+            .from('domain_sales')
+            .select('date')
+            .order('date', { ascending: false })
+            .limit(1)
+
+          const avgPrice = priceData && priceData.length > 0 ?
+            Math.round(priceData.reduce((sum, row) => sum + row.price, 0) / priceData.length) : 0
+
+          return {
+            total_records: totalRecords || 0,
+            unique_tlds: 'N/A',
+            avg_price: avgPrice,
+            oldest_sale: dateData?.[0]?.date || null,
+            newest_sale: latestDateData?.[0]?.date || null
+          }
+        }
+
+        return {
+          total_records: totalRecords || 0,
+          unique_tlds: statsData?.unique_tlds || 'N/A',
+          avg_price: Math.round(statsData?.avg_price || 0),
+          oldest_sale: statsData?.oldest_sale || null,
+          newest_sale: statsData?.newest_sale || null
+        }
+      }
+    },
+
+    aiAnalyses: {
+      async find(domain, task, promptVersion, since) {
+        if (!serviceRoleKey) return null
+        const supabase = getSupabaseClient()
+
+        const { data, error } = await supabase
+          .from('ai_analyses')
+          .select('*')
+          .eq('domain', domain)
+          .eq('task', task)
+          .eq('prompt_version', promptVersion)
+          .gt('created_at', since.toISOString())
+          .limit(1)
+
+        if (error) throw error
+        return data && data.length > 0 ? toAIAnalysisRecord(data[0]) : null
+      },
+
+      async save(domain, task, promptVersion, result) {
+        if (!serviceRoleKey) return
+        const supabase = getSupabaseClient()
+
+        const { error } = await supabase
+          .from('ai_analyses')
+          .upsert(
+            { domain, task, prompt_version: promptVersion, result, created_at: new Date().toISOString() },
+            { onConflict: 'domain,task,prompt_version' }
+          )
+
+        if (error) throw error
+      },
+
+      async invalidate({ domain, task }) {
+        if (!serviceRoleKey) return 0
+        const supabase = getSupabaseClient()
+
+        // Supabase refuses unfiltered deletes, so match every row by id when no filter is given
+        let query = supabase.from('ai_analyses').delete({ count: 'exact' }).gte('id', 0)
+        if (domain) query = query.eq('domain', domain)
+        if (task) query = query.eq('task', task)
+
+        const { count, error } = await query
+        if (error) throw error
+        return count || 0
+      }
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { DomainAppraisal, WhoisData } from '../../types'
+
+// An appraisal as persisted in the `appraisals` table
+export interface StoredAppraisal extends DomainAppraisal {
+  id: number
+  optionsHash?: string | null
+  createdAt: string
+}
+
+export interface AppraisalRepository {
+  /** Most recent appraisal for a domain/options hash created after `since` (legacy rows without a hash also match) */
+  findRecent(domain: string, optionsHash: string, since: Date): Promise<StoredAppraisal | null>
+  /** Most recent appraisal for a domain regardless of options */
+  findLatest(domain: string): Promise<StoredAppraisal | null>
+  /** Persist an appraisal and return its id */
+  insert(appraisal: DomainAppraisal, optionsHash: string): Promise<number>
+  updateWhois(id: number, whoisData: WhoisData): Promise<void>
+}
+
+// A row of the `domain_sales` table
+export interface DomainSaleRecord {
+  date: string
+  domain: string
+  price: number
+  venue: string
+}
+
+export interface DomainSalesQuery {
+  minPrice: number
+  maxPrice: number
+  since: string
+  limit: number
+  excludeDomain?: string // Leave out sales of this name (used by backtests to avoid leakage)
+  before?: string // Only sales before this date, YYYY-MM-DD (backtests, so later prices cannot leak in)
+}
+
+export interface DomainSalesSampleQuery {
+  limit: number
+  seed: string // The same seed returns the same sample
+  minPrice?: number
+  since?: string
+}
+
+export interface DomainSalesStats {
+  total_records: number
+  unique_tlds: number | string
+  avg_price: number
+  oldest_sale: string | null
+  newest_sale: string | null
+}
+
+export interface DomainSalesRepository {
+  /** Recent sales within a price range, newest first */
+  findCandidates(query: DomainSalesQuery): Promise<DomainSaleRecord[]>
+  /** Pseudo-random, reproducible sample of sales */
+  sample(query: DomainSalesSampleQuery): Promise<DomainSaleRecord[]>
+  getStats(): Promise<DomainSalesStats>
+}
+
+// A validated AI response as persisted in the `ai_analyses` table
+export interface AIAnalysisRecord {
+  domain: string
+  task: string
+  promptVersion: string
+  result: unknown
+  createdAt: string
+}
+
+export interface AIAnalysisFilter {
+  domain?: string
+  task?: string
+}
+
+export interface AIAnalysisRepository {
+  /** Cached result for a domain/task/prompt version created after `since` */
+  find(domain: string, task: string, promptVersion: string, since: Date): Promise<AIAnalysisRecord | null>
+  /** Insert or replace the cached result for a domain/task/prompt version */
+  save(domain: string, task: string, promptVersion: string, result: unknown): Promise<void>
+  /** Delete cached results matching the filter (all of them when it is empty); returns the number removed */
+  invalidate(filter: AIAnalysisFilter): Promise<number>
+}
+
+export interface StorageAdapter {
+  name: 'supabase' | 'postgres'
+  appraisals: AppraisalRepository
+  domainSales: DomainSalesRepository
+  aiAnalyses: AIAnalysisRepository
+  /** Prepare the backing store (create tables where the driver allows it) */
+  init(): Promise<void>
+}
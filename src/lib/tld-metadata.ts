@@ -0,0 +1,142 @@
+// TLD metadata: type, launch date, typical registration and renewal prices, registry premium
+// tiers, registration restrictions and abuse reputation. The bundled table is
+// data/tld-metadata.json; set TLD_METADATA_PATH to load a locally maintained file instead.
+// TLDs missing from the table get defaults inferred from their shape.
+
+import bundledMetadata from '../../data/tld-metadata.json'
+import { extractTLD, extractDomainName, getTLDCountry } from './tld-utils'
+import { classifyDomainPattern, isShortLetterPattern } from './domain-pattern'
+import { BASE_CURRENCY } from './currency'
+import { adjustScore } from './factor-reasons'
+import { readJsonOverride } from './json-override'
+import type { TLDMetadata, TLDType, HoldingCost, FactorScore } from '../types'
+
+type TLDEntry = Omit<TLDMetadata, 'tld' | 'known'>
+
+export interface TLDMetadataTable {
+  updatedAt: string
+  currency: string // Always BASE_CURRENCY
+  tlds: Record<string, TLDEntry>
+}
+
+const TLD_TYPES: TLDType[] = ['generic', 'ccTLD', 'brand', 'restricted']
+
+// Used for TLDs not in the table
+const CCTLD_DEFAULTS: TLDEntry = { type: 'ccTLD', registrationPrice: 20, renewalPrice: 25, reputation: 'neutral' }
+const GENERIC_DEFAULTS: TLDEntry = { type: 'generic', registrationPrice: 10, renewalPrice: 30, reputation: 'neutral' }
+
+let table: TLDMetadataTable | undefined
+
+function isUsableTable(candidate: TLDMetadataTable): boolean {
+  return candidate?.currency === BASE_CURRENCY &&
+    typeof candidate.tlds === 'object' &&
+    Object.values(candidate.tlds).every(entry =>
+      TLD_TYPES.includes(entry.type) &&
+      typeof entry.registrationPrice === 'number' && entry.registrationPrice >= 0 &&
+      typeof entry.renewalPrice === 'number' && entry.renewalPrice >= 0
+    )
+}
+
+/**
+ * The metadata table in use: TLD_METADATA_PATH if set and valid, otherwise the bundled table
+ */
+export function getTLDMetadataTable(): TLDMetadataTable {
+  if (table) return table
+
+  table = readJsonOverride({
+    envVar: 'TLD_METADATA_PATH',
+    description: 'TLD metadata',
+    requirement: `must be priced in ${BASE_CURRENCY} with a known type per TLD`,
+    fallback: 'using the bundled table',
+    isUsable: isUsableTable
+  }) ?? bundledMetadata as TLDMetadataTable
+  return table
+}
+
+/**
+ * Replace the metadata table in use (undefined reloads it on next use)
+ */
+export function setTLDMetadataTable(next: TLDMetadataTable | undefined): void {
+  table = next
+}
+
+/**
+ * Metadata for a TLD such as "com" or "co.uk". Second-level suffixes missing from the table
+ * inherit their country TLD's entry; anything else gets ccTLD or generic defaults.
+ */
+export function getTLDMetadata(tld: string): TLDMetadata {
+  const normalized = tld.toLowerCase()
+  const { tlds } = getTLDMetadataTable()
+  if (tlds[normalized]) {
+    return { tld: normalized, ...tlds[normalized], known: true }
+  }
+
+  const parent = normalized.split('.').pop() || ''
+  if (parent !== normalized && tlds[parent]) {
+    return { tld: normalized, ...tlds[parent], known: false }
+  }
+
+  const country = getTLDCountry(normalized)
+  return country
+    ? { tld: normalized, ...CCTLD_DEFAULTS, country, known: false }
+    : { tld: normalized, ...GENERIC_DEFAULTS, known: false }
+}
+
+// Holding costs eat into resale margins once renewals are well above the usual $10-$60 a year
+function renewalPenalty(renewalPrice: number): number {
+  if (renewalPrice >= 300) return 20
+  if (renewalPrice >= 100) return 10
+  return 0
+}
+
+/**
+ * TLD score adjusted for what the metadata says about reselling on it: brand TLDs are not
+ * open to buyers at all, restrictions and a poor abuse reputation shrink the market, and
+ * expensive renewals make names costly to hold
+ */
+export function adjustTLDScoreForMetadata(scored: FactorScore, metadata: TLDMetadata): FactorScore {
+  if (metadata.type === 'brand') return adjustScore(scored, -scored.score, 'Brand TLD - registry use only, not open to buyers')
+
+  let adjusted = adjustScore(scored, -renewalPenalty(metadata.renewalPrice), `Renews at $${metadata.renewalPrice}/year`)
+  if (metadata.type === 'restricted') adjusted = adjustScore(adjusted, -10, 'Restricted TLD - only eligible registrants can buy')
+  if (metadata.reputation === 'poor') {
+    adjusted = adjustScore(adjusted, -15, 'Poor abuse reputation - spam filters and browser warnings follow the TLD')
+  }
+  return adjusted
+}
+
+/**
+ * Liquidity adjusted for the TLD: only eligible registrants can buy restricted names, and
+ * poorly reputed or expensive-to-renew TLDs attract fewer end users
+ */
+export function adjustLiquidityForMetadata(scored: FactorScore, metadata: TLDMetadata): FactorScore {
+  if (metadata.type === 'brand') return adjustScore(scored, -scored.score, 'Brand TLD - names cannot be resold')
+
+  let adjusted = adjustScore(scored, -renewalPenalty(metadata.renewalPrice), `Renews at $${metadata.renewalPrice}/year`)
+  if (metadata.type === 'restricted') {
+    adjusted = adjustScore(adjusted, -15, 'Restricted TLD - only eligible registrants can buy')
+  } else if (metadata.restrictions) {
+    adjusted = adjustScore(adjusted, -5, 'Registration restrictions narrow the buyer pool') // Local-presence rules and the like
+  }
+  if (metadata.reputation === 'poor') adjusted = adjustScore(adjusted, -10, 'Poor abuse reputation deters end users')
+  return adjusted
+}
+
+/**
+ * Cost of keeping a domain registered at the TLD's standard renewal, in USD. Short, numeric
+ * and dictionary names on TLDs with premium tiers are flagged, since registries often
+ * reserve those and renew them at the premium price.
+ */
+export function estimateHoldingCost(domain: string): HoldingCost {
+  const metadata = getTLDMetadata(extractTLD(domain))
+  const pattern = classifyDomainPattern(domain)
+  const premiumCandidate = isShortLetterPattern(pattern, extractDomainName(domain).length) ||
+    pattern === 'dictionary' || /^N+$/.test(pattern)
+
+  return {
+    annual: metadata.renewalPrice,
+    fiveYear: metadata.renewalPrice * 5,
+    currency: BASE_CURRENCY,
+    premiumRenewal: premiumCandidate && !!metadata.premiumTiers?.some(tier => tier.renewalPrice > metadata.renewalPrice)
+  }
+}
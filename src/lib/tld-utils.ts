@@ -1,178 +1,99 @@
-// TLD utility functions for proper multi-level TLD support
-// Supports common multi-level TLDs like .co.uk, .com.ng, .net.au, etc.
+// TLD utility functions backed by the Public Suffix List (https://publicsuffix.org).
+// A snapshot of its ICANN section is bundled in data/public-suffix-list.json; refresh it with
+// `npm run update:public-suffix-list`. "TLD" here means the public suffix, which may span
+// several labels (co.uk, com.au, or any name under a wildcard rule such as *.ck).
 
-// Comprehensive list of common multi-level TLDs
-const MULTI_LEVEL_TLDS = new Set([
-  // UK TLDs
-  'co.uk', 'ac.uk', 'gov.uk', 'net.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk',
-  
-  // Australia TLDs
-  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'asn.au', 'id.au',
-  
-  // Canada TLDs
-  'co.ca', 'gc.ca',
-  
-  // New Zealand TLDs
-  'co.nz', 'net.nz', 'org.nz', 'ac.nz', 'govt.nz', 'geek.nz', 'gen.nz', 'kiwi.nz', 'maori.nz', 'iwi.nz', 'school.nz',
-  
-  // South Africa TLDs
-  'co.za', 'org.za', 'net.za', 'ac.za', 'gov.za', 'law.za', 'mil.za', 'nom.za', 'school.za', 'web.za',
-  
-  // India TLDs
-  'co.in', 'net.in', 'org.in', 'gen.in', 'firm.in', 'ind.in',
-  
-  // Japan TLDs
-  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'ad.jp', 'ed.jp', 'go.jp', 'gr.jp', 'lg.jp',
-  
-  // Brazil TLDs
-  'com.br', 'net.br', 'org.br', 'gov.br', 'edu.br', 'mil.br', 'art.br', 'esp.br', 'rec.br', 'inf.br',
-  
-  // Nigeria TLDs
-  'com.ng', 'net.ng', 'org.ng', 'gov.ng', 'edu.ng', 'mil.ng',
-  
-  // Kenya TLDs
-  'co.ke', 'ne.ke', 'or.ke', 'ac.ke', 'sc.ke', 'go.ke', 'me.ke', 'mobi.ke', 'info.ke',
-  
-  // Israel TLDs
-  'co.il', 'net.il', 'org.il', 'ac.il', 'gov.il', 'muni.il', 'idf.il',
-  
-  // Germany TLDs
-  'co.de', 'com.de',
-  
-  // France TLDs
-  'co.fr', 'com.fr',
-  
-  // Spain TLDs
-  'com.es', 'nom.es', 'org.es', 'gob.es', 'edu.es',
-  
-  // Italy TLDs
-  'co.it', 'com.it',
-  
-  // Russia TLDs
-  'co.ru', 'com.ru', 'net.ru', 'org.ru', 'pp.ru', 'msk.ru', 'spb.ru',
-  
-  // China TLDs
-  'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn', 'mil.cn', 'ac.cn', 'ah.cn', 'bj.cn', 'cq.cn', 'fj.cn', 'gd.cn', 'gs.cn', 'gz.cn', 'gx.cn', 'ha.cn', 'hb.cn', 'he.cn', 'hi.cn', 'hk.cn', 'hl.cn', 'hn.cn', 'jl.cn', 'js.cn', 'jx.cn', 'ln.cn', 'mo.cn', 'nm.cn', 'nx.cn', 'qh.cn', 'sc.cn', 'sd.cn', 'sh.cn', 'sn.cn', 'sx.cn', 'tj.cn', 'tw.cn', 'xj.cn', 'xz.cn', 'yn.cn', 'zj.cn',
-  
-  // Hong Kong TLDs
-  'com.hk', 'net.hk', 'org.hk', 'gov.hk', 'edu.hk', 'idv.hk',
-  
-  // Singapore TLDs
-  'com.sg', 'net.sg', 'org.sg', 'gov.sg', 'edu.sg', 'per.sg',
-  
-  // Malaysia TLDs
-  'com.my', 'net.my', 'org.my', 'gov.my', 'edu.my', 'mil.my', 'name.my',
-  
-  // Thailand TLDs
-  'co.th', 'ac.th', 'go.th', 'in.th', 'mi.th', 'net.th', 'or.th',
-  
-  // Philippines TLDs
-  'com.ph', 'net.ph', 'org.ph', 'gov.ph', 'edu.ph', 'mil.ph', 'ngo.ph',
-  
-  // Indonesia TLDs
-  'co.id', 'net.id', 'org.id', 'ac.id', 'sch.id', 'go.id', 'mil.id', 'web.id', 'war.net.id',
-  
-  // Vietnam TLDs
-  'com.vn', 'net.vn', 'org.vn', 'edu.vn', 'gov.vn', 'int.vn', 'ac.vn', 'biz.vn', 'info.vn', 'name.vn', 'pro.vn', 'health.vn',
-  
-  // South Korea TLDs
-  'co.kr', 'ne.kr', 'or.kr', 'ac.kr', 'go.kr', 'mil.kr', 'pe.kr', 'ra.kr', 'sc.kr', 'seoul.kr', 'kyonggi.kr',
-  
-  // Taiwan TLDs
-  'com.tw', 'net.tw', 'org.tw', 'idv.tw', 'game.tw', 'ebiz.tw', 'club.tw',
-  
-  // Mexico TLDs
-  'com.mx', 'net.mx', 'org.mx', 'gob.mx', 'edu.mx',
-  
-  // Argentina TLDs
-  'com.ar', 'net.ar', 'org.ar', 'gov.ar', 'edu.ar', 'mil.ar', 'int.ar', 'tur.ar',
-  
-  // Chile TLDs
-  'co.cl', 'gob.cl', 'gov.cl',
-  
-  // Colombia TLDs
-  'com.co', 'net.co', 'org.co', 'edu.co', 'gov.co', 'mil.co', 'nom.co', 'web.co',
-  
-  // Peru TLDs
-  'com.pe', 'net.pe', 'org.pe', 'edu.pe', 'gob.pe', 'mil.pe', 'nom.pe',
-  
-  // Venezuela TLDs
-  'co.ve', 'com.ve', 'net.ve', 'org.ve', 'gov.ve', 'mil.ve', 'edu.ve', 'int.ve', 'tec.ve', 'web.ve', 'info.ve',
-  
-  // Egypt TLDs
-  'com.eg', 'net.eg', 'org.eg', 'edu.eg', 'gov.eg', 'mil.eg', 'sci.eg',
-  
-  // Turkey TLDs
-  'com.tr', 'net.tr', 'org.tr', 'edu.tr', 'gov.tr', 'mil.tr', 'gen.tr', 'av.tr', 'dr.tr', 'biz.tr', 'info.tr', 'name.tr', 'web.tr',
-  
-  // Poland TLDs
-  'com.pl', 'net.pl', 'org.pl', 'edu.pl', 'gov.pl', 'mil.pl', 'ngo.pl', 'pc.pl', 'powiat.pl', 'priv.pl', 'realestate.pl', 'rel.pl', 'sex.pl', 'shop.pl', 'sklep.pl', 'sos.pl', 'szkola.pl', 'targi.pl', 'tm.pl', 'tourism.pl', 'travel.pl', 'turystyka.pl',
-  
-  // Czech Republic TLDs
-  'co.cz', 'com.cz',
-  
-  // Slovakia TLDs
-  'co.sk', 'com.sk',
-  
-  // Hungary TLDs
-  'co.hu', 'com.hu',
-  
-  // Romania TLDs
-  'com.ro', 'org.ro', 'tm.ro', 'nt.ro', 'nom.ro', 'info.ro', 'rec.ro', 'arts.ro', 'firm.ro', 'store.ro', 'www.ro',
-  
-  // Bulgaria TLDs
-  'com.bg', 'org.bg', 'net.bg', 'edu.bg', 'gov.bg', 'biz.bg', 'info.bg', 'name.bg',
-  
-  // Croatia TLDs
-  'com.hr', 'from.hr', 'iz.hr', 'name.hr',
-  
-  // Serbia TLDs
-  'co.rs', 'org.rs', 'edu.rs', 'ac.rs', 'gov.rs', 'in.rs',
-  
-  // Ukraine TLDs
-  'com.ua', 'net.ua', 'org.ua', 'edu.ua', 'gov.ua', 'in.ua', 'ua.ua', 'dp.ua', 'kharkov.ua', 'kherson.ua', 'kiev.ua', 'kirovograd.ua', 'kremenchug.ua', 'kr.ua', 'lg.ua', 'lutsk.ua', 'lviv.ua', 'mk.ua', 'nikolaev.ua', 'od.ua', 'pl.ua', 'poltava.ua', 'rovno.ua', 'sebastopol.ua', 'sumy.ua', 'te.ua', 'uzhgorod.ua', 'vinnica.ua', 'zaporizhzhe.ua', 'zhitomir.ua', 'zp.ua', 'zt.ua'
-]);
+import publicSuffixList from '../../data/public-suffix-list.json'
+
+interface SuffixRules {
+  exact: Set<string>
+  wildcards: Set<string> // "*.ck" is stored as "ck"
+  exceptions: Set<string> // "!www.ck" is stored as "www.ck"
+}
+
+let suffixRules: SuffixRules | undefined
+
+// Built on first use from the bundled snapshot
+function getSuffixRules(): SuffixRules {
+  if (suffixRules) return suffixRules
+
+  suffixRules = { exact: new Set(), wildcards: new Set(), exceptions: new Set() }
+  for (const rule of publicSuffixList.rules) {
+    if (rule.startsWith('!')) suffixRules.exceptions.add(rule.slice(1))
+    else if (rule.startsWith('*.')) suffixRules.wildcards.add(rule.slice(2))
+    else suffixRules.exact.add(rule)
+  }
+  return suffixRules
+}
 
 /**
- * Extracts the proper TLD from a domain, including multi-level TLDs
+ * Number of trailing labels that form the public suffix: an exception rule wins, otherwise
+ * the longest matching rule, otherwise the last label alone (the PSL's implicit "*" rule)
+ */
+function publicSuffixLength(labels: string[]): number {
+  const { exact, wildcards, exceptions } = getSuffixRules()
+  let length = 1
+
+  for (let count = 1; count <= labels.length; count++) {
+    const suffix = labels.slice(-count).join('.')
+    if (exceptions.has(suffix)) return count - 1
+    if (exact.has(suffix) || (count > 1 && wildcards.has(labels.slice(1 - count).join('.')))) {
+      length = count
+    }
+  }
+  return length
+}
+
+// Labels of a domain and how many of them are the TLD; at least one label is left for the name
+function splitDomain(domain: string): { labels: string[]; tldLength: number } {
+  const labels = domain.toLowerCase().trim().split('.')
+  if (labels.length < 2) {
+    return { labels, tldLength: 0 } // Invalid domain
+  }
+  return { labels, tldLength: Math.min(publicSuffixLength(labels), labels.length - 1) }
+}
+
+/**
+ * Extracts the TLD (public suffix) from a domain, including multi-level TLDs
  * @param domain - The domain to extract TLD from (e.g., "example.co.uk")
  * @returns The TLD (e.g., "co.uk" for multi-level, "com" for single-level)
  */
 export function extractTLD(domain: string): string {
-  const cleanDomain = domain.toLowerCase().trim();
-  const parts = cleanDomain.split('.');
-  
-  if (parts.length < 2) {
-    return ''; // Invalid domain
-  }
-  
-  // Check for multi-level TLDs (starting from longest possible)
-  for (let i = Math.max(1, parts.length - 3); i < parts.length - 1; i++) {
-    const possibleTLD = parts.slice(i).join('.');
-    if (MULTI_LEVEL_TLDS.has(possibleTLD)) {
-      return possibleTLD;
-    }
-  }
-  
-  // Fall back to single-level TLD (last part)
-  return parts[parts.length - 1];
+  const { labels, tldLength } = splitDomain(domain)
+  return tldLength > 0 ? labels.slice(-tldLength).join('.') : ''
 }
 
 /**
- * Extracts the domain name without the TLD
- * @param domain - The full domain (e.g., "example.co.uk")
+ * Extracts the domain name without the TLD or any subdomain
+ * @param domain - The full domain (e.g., "blog.example.co.uk")
  * @returns The domain name part (e.g., "example")
  */
 export function extractDomainName(domain: string): string {
-  const cleanDomain = domain.toLowerCase().trim();
-  const tld = extractTLD(cleanDomain);
-  
-  if (!tld) {
-    return cleanDomain; // Invalid domain, return as-is
+  const { labels, tldLength } = splitDomain(domain)
+  if (tldLength === 0) {
+    return labels.join('.') // Invalid domain, return as-is
   }
-  
-  // Remove the TLD and the preceding dot
-  return cleanDomain.slice(0, -(tld.length + 1));
+  return labels[labels.length - tldLength - 1]
+}
+
+/**
+ * Strips subdomains, leaving the name someone can actually register
+ * @param domain - The full domain (e.g., "blog.example.com")
+ * @returns The registrable domain (e.g., "example.com")
+ */
+export function getRegistrableDomain(domain: string): string {
+  const { labels, tldLength } = splitDomain(domain)
+  return tldLength > 0 ? labels.slice(-(tldLength + 1)).join('.') : labels.join('.')
+}
+
+/**
+ * Subdomain part of a domain, if any
+ * @param domain - The full domain (e.g., "www.blog.example.com")
+ * @returns The subdomain (e.g., "www.blog"), or an empty string for a registrable domain
+ */
+export function getSubdomain(domain: string): string {
+  const { labels, tldLength } = splitDomain(domain)
+  return tldLength > 0 ? labels.slice(0, -(tldLength + 1)).join('.') : ''
 }
 
 /**
@@ -203,7 +124,7 @@ export function getTLDScore(tld: string, targetCountry?: string): number {
   if (['xyz', 'info', 'biz'].includes(normalizedTLD)) return 45;
   
   // Multi-level TLD scoring
-  if (MULTI_LEVEL_TLDS.has(normalizedTLD)) {
+  if (isMultiLevelTLD(normalizedTLD)) {
     // Premium country-specific TLDs
     if (['co.uk', 'com.au', 'co.nz'].includes(normalizedTLD)) return 85;
     
@@ -233,7 +154,8 @@ export function getTLDScore(tld: string, targetCountry?: string): number {
  * @returns Boolean indicating if it's a multi-level TLD
  */
 export function isMultiLevelTLD(tld: string): boolean {
-  return MULTI_LEVEL_TLDS.has(tld.toLowerCase());
+  const labels = tld.toLowerCase().split('.');
+  return labels.length > 1 && publicSuffixLength(labels) === labels.length;
 }
 
 /**
@@ -0,0 +1,248 @@
+// Local trademark-risk engine: finds names that copy a known brand outright or imitate it -
+// one-letter and keyboard typos, lookalike characters (including IDN homographs), the brand
+// embedded in a compound ("paypalhelp") and hyphenated variants ("pay-pal"). Well-known marks
+// get every check; imported registry filings (see trademark-store.ts) are matched as exact
+// copies or embedded marks in the Nice classes of the name's industry, citing their numbers.
+// Runs without network access; the AI trademark check in valuation.ts complements it.
+
+import type { TrademarkMatch, TrademarkRecord, TrademarkTechnique } from '../types'
+import { extractDomainName } from './tld-utils'
+import { analyzeIDN } from './idn'
+import { segmentWords, isDictionaryWord } from './word-segmentation'
+import { getFamousMarks, lookupMark, findEmbeddedMarks, isRelevantToIndustry, citeRegistration } from './trademark-store'
+
+// Words phishing sites pair with a brand ("paypal-login", "applesupport")
+const PHISHING_WORDS = new Set([
+  'login', 'signin', 'logon', 'account', 'accounts', 'verify', 'verification', 'secure', 'security',
+  'support', 'help', 'helpdesk', 'service', 'billing', 'update', 'wallet', 'recovery', 'unlock', 'refund'
+])
+
+// Shortest brand checked for typos and embedding - shorter ones collide with ordinary words
+const MIN_TYPO_BRAND_LENGTH = 5
+const MIN_EMBEDDED_BRAND_LENGTH = 4
+// Registry marks are far more numerous, so only longer ones are looked for inside names
+const MIN_EMBEDDED_REGISTRY_LENGTH = 5
+
+// Registrations cited per match
+const MAX_CITATIONS = 3
+
+// ASCII characters and pairs that read as another letter, folded to a common skeleton
+const ASCII_CONFUSABLES: [RegExp, string][] = [
+  [/rn/g, 'm'], [/vv/g, 'w'], [/0/g, 'o'], [/[1l]/g, 'i'], [/3/g, 'e'], [/4/g, 'a'],
+  [/5/g, 's'], [/7/g, 't'], [/8/g, 'b'], [/9/g, 'g']
+]
+
+// QWERTY rows, for keys next to each other
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm']
+
+const SEVERE = { flag: 'severe' as const, multiplier: 0, score: 0 }
+const WARNING = { flag: 'warning' as const, multiplier: 0.6, score: 30 }
+
+function confusableSkeleton(text: string): string {
+  return ASCII_CONFUSABLES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+}
+
+function areAdjacentKeys(a: string, b: string): boolean {
+  for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+    const column = KEYBOARD_ROWS[row].indexOf(a)
+    if (column === -1) continue
+    // Same row neighbours, or the keys diagonally above and below
+    for (const [rowOffset, columnOffsets] of [[0, [-1, 1]], [-1, [0, 1]], [1, [-1, 0]]] as [number, number[]][]) {
+      const neighbourRow = KEYBOARD_ROWS[row + rowOffset]
+      if (neighbourRow && columnOffsets.some(offset => neighbourRow[column + offset] === b)) return true
+    }
+  }
+  return false
+}
+
+/**
+ * How `candidate` is one keystroke away from `brand` - 'keyboard-typo' when the slip is
+ * a neighbouring or doubled key, 'typo' for other substitutions, insertions, deletions
+ * and swapped letters - or null when it is not
+ */
+export function classifyTypo(candidate: string, brand: string): 'typo' | 'keyboard-typo' | null {
+  if (candidate === brand) return null
+
+  if (candidate.length === brand.length) {
+    const diffs = Array.from(candidate).map((_, index) => index).filter(index => candidate[index] !== brand[index])
+    if (diffs.length === 1) {
+      return areAdjacentKeys(candidate[diffs[0]], brand[diffs[0]]) ? 'keyboard-typo' : 'typo'
+    }
+    const [first, second] = diffs
+    const swapped = diffs.length === 2 && second === first + 1 &&
+      candidate[first] === brand[second] && candidate[second] === brand[first]
+    return swapped ? 'typo' : null
+  }
+
+  if (Math.abs(candidate.length - brand.length) !== 1) return null
+  const [longer, shorter] = candidate.length > brand.length ? [candidate, brand] : [brand, candidate]
+  for (let index = 0; index < longer.length; index++) {
+    if (longer.slice(0, index) + longer.slice(index + 1) !== shorter) continue
+    const extra = longer[index]
+    const neighbours = [longer[index - 1], longer[index + 1]].filter(Boolean)
+    return neighbours.some(neighbour => neighbour === extra || areAdjacentKeys(extra, neighbour)) ? 'keyboard-typo' : 'typo'
+  }
+  return null
+}
+
+// A leading or trailing phishing word split off a name ("gooogle" + "login"), longest first
+function splitPhishingWord(compact: string): { core: string; phishingWord?: string } {
+  const words = Array.from(PHISHING_WORDS).sort((a, b) => b.length - a.length)
+  for (const word of words) {
+    if (compact.length - word.length < MIN_TYPO_BRAND_LENGTH - 1) continue
+    if (compact.startsWith(word)) return { core: compact.slice(word.length), phishingWord: word }
+    if (compact.endsWith(word)) return { core: compact.slice(0, -word.length), phishingWord: word }
+  }
+  return { core: compact }
+}
+
+// Whether a piece next to an embedded brand is made of ordinary words (or a plural "s")
+function isWordFiller(part: string): boolean {
+  if (part === '' || part === 's' || /^[0-9]+$/.test(part)) return true
+  const { words, coverage } = segmentWords(part)
+  return coverage === 1 && words.every(word => word.length >= 2)
+}
+
+function matchOf(brand: string, technique: TrademarkTechnique, severity: typeof SEVERE | typeof WARNING, detail: string): TrademarkMatch {
+  return { brand, technique, ...severity, detail }
+}
+
+// Checks one well-known mark against a name (lowercase, ASCII); the first technique that applies wins
+function matchBrand(name: string, record: TrademarkRecord): TrademarkMatch | null {
+  const brand = record.mark.toLowerCase()
+  const compact = name.replace(/-/g, '')
+  const compactBrand = record.normalized
+  const hyphenated = name.includes('-') && name !== brand
+
+  if (compact === compactBrand) {
+    return hyphenated
+      ? matchOf(brand, 'hyphenated', SEVERE, `"${name}" is ${brand} split with hyphens`)
+      : matchOf(brand, 'exact', SEVERE, `"${name}" is the ${brand} trademark`)
+  }
+
+  if (confusableSkeleton(compact) === confusableSkeleton(compactBrand)) {
+    return matchOf(brand, 'homoglyph', SEVERE, `"${name}" imitates ${brand} with lookalike characters`)
+  }
+
+  const position = compactBrand.length >= MIN_EMBEDDED_BRAND_LENGTH ? compact.indexOf(compactBrand) : -1
+  if (position !== -1) {
+    const before = compact.slice(0, position)
+    const after = compact.slice(position + compactBrand.length)
+    if (isWordFiller(before) && isWordFiller(after)) {
+      const phishingWord = [...segmentWords(before).words, ...segmentWords(after).words].find(word => PHISHING_WORDS.has(word))
+      // Marks that are also everyday words ("applesauce") only count next to a phishing word
+      if (phishingWord || !record.commonWord) {
+        const technique = name.split('-').includes(compactBrand) ? 'hyphenated' : 'embedded'
+        return phishingWord
+          ? matchOf(brand, technique, SEVERE, `"${name}" pairs ${brand} with "${phishingWord}", a common phishing pattern`)
+          : matchOf(brand, technique, WARNING, `"${name}" contains the ${brand} brand`)
+      }
+    }
+  }
+
+  // One edit from a brand is often just another word or coinage ("googly"), so a typo alone
+  // is a warning; paired with a phishing word ("gooogle-login") it is severe
+  const { core, phishingWord } = splitPhishingWord(compact)
+  if (compactBrand.length >= MIN_TYPO_BRAND_LENGTH && !isDictionaryWord(core)) {
+    const typo = classifyTypo(core, compactBrand)
+    if (typo) {
+      const how = typo === 'keyboard-typo' ? 'a keyboard slip away from' : 'a one-letter typo of'
+      return phishingWord
+        ? matchOf(brand, typo, SEVERE, `"${name}" pairs a misspelling of ${brand} with "${phishingWord}", a common phishing pattern`)
+        : matchOf(brand, typo, WARNING, `"${name}" is ${how} ${brand}`)
+    }
+  }
+
+  return null
+}
+
+// Live filings first, then those in the industry's classes, then registrations before applications
+function rankFilings(records: TrademarkRecord[], industry?: string): TrademarkRecord[] {
+  const rank = (record: TrademarkRecord) =>
+    (isRelevantToIndustry(record, industry) ? 0 : 2) + (record.status === 'registered' ? 0 : 1)
+  return [...records].sort((a, b) => rank(a) - rank(b))
+}
+
+// Adds the registry filings behind a match's mark, strongest first
+function withRegistrations(match: TrademarkMatch, normalized: string, industry?: string): TrademarkMatch {
+  const filings = rankFilings(lookupMark(normalized).filter(record => citeRegistration(record)), industry).slice(0, MAX_CITATIONS)
+  if (filings.length === 0) return match
+
+  const registrations = filings.map(record => citeRegistration(record) as string)
+  const classes = Array.from(new Set(filings.flatMap(record => record.classes))).sort((a, b) => a - b)
+  return { ...match, registrations, classes, detail: `${match.detail} - ${registrations.join(', ')}` }
+}
+
+function classList(records: TrademarkRecord[]): string {
+  const classes = Array.from(new Set(records.flatMap(record => record.classes))).sort((a, b) => a - b)
+  return classes.length > 0 ? ` in class ${classes.join(', ')}` : ''
+}
+
+/**
+ * Registry filings (other than the well-known marks) that a name copies or contains. An exact
+ * registered mark in the industry's classes is severe; pending or other-class exact marks and
+ * marks embedded in a compound are warnings. Dictionary-word marks only warn, and only when exact
+ * and in the industry's classes - "cloud" is registered many times over and still free to use.
+ */
+function matchRegistry(name: string, industry?: string): TrademarkMatch | null {
+  const compact = name.replace(/-/g, '')
+  const filings = (normalized: string) => lookupMark(normalized).filter(record => !record.famous)
+
+  const exact = rankFilings(filings(compact), industry)
+  if (exact.length > 0) {
+    const relevant = exact.filter(record => isRelevantToIndustry(record, industry))
+    const dictionaryWord = isDictionaryWord(compact)
+    if (relevant.length > 0 || !dictionaryWord) {
+      const mark = exact[0].mark
+      const severe = !dictionaryWord && relevant.some(record => record.status === 'registered')
+      const detail = relevant.length > 0
+        ? `"${name}" is the ${relevant[0].status} ${mark} trademark${classList(relevant)}`
+        : `"${name}" matches the ${mark} trademark${classList(exact)}, outside this name's industry`
+      return withRegistrations(matchOf(mark.toLowerCase(), 'exact', severe ? SEVERE : WARNING, detail), compact, industry)
+    }
+  }
+
+  for (const { normalized, position } of findEmbeddedMarks(compact, MIN_EMBEDDED_REGISTRY_LENGTH, { industry })) {
+    if (isDictionaryWord(normalized)) continue
+    const relevant = lookupMark(normalized, { industry }).filter(record => !record.famous)
+    if (relevant.length === 0) continue
+    if (!isWordFiller(compact.slice(0, position)) || !isWordFiller(compact.slice(position + normalized.length))) continue
+
+    const mark = relevant[0].mark
+    const technique = name.split('-').includes(normalized) ? 'hyphenated' : 'embedded'
+    const detail = `"${name}" contains the ${mark} trademark${classList(relevant)}`
+    return withRegistrations(matchOf(mark.toLowerCase(), technique, WARNING, detail), normalized, industry)
+  }
+
+  return null
+}
+
+/**
+ * Strongest trademark conflict for a domain's name, or null when it copies no known mark.
+ * Severe matches win over warnings, and well-known marks over registry filings; IDN
+ * homographs of a well-known mark are always severe. `industry` (from industry-keywords.ts)
+ * limits registry filings to the Nice classes of the name's market.
+ */
+export function findTrademarkMatch(domain: string, industry?: string): TrademarkMatch | null {
+  const idn = analyzeIDN(domain)
+  if (idn?.lookalike) {
+    const underlying = findTrademarkMatch(`${idn.lookalike}.com`, industry)
+    const famous = underlying && getFamousMarks().find(record => record.mark.toLowerCase() === underlying.brand)
+    if (underlying && famous) {
+      const detail = `"${extractDomainName(idn.unicode)}" imitates ${underlying.brand} with characters from another script`
+      return withRegistrations(matchOf(underlying.brand, 'homoglyph', SEVERE, detail), famous.normalized, industry)
+    }
+  }
+
+  const name = extractDomainName(domain).toLowerCase()
+  let warning: TrademarkMatch | null = null
+  for (const record of getFamousMarks()) {
+    const match = matchBrand(name, record)
+    if (match?.flag === 'severe') return withRegistrations(match, record.normalized, industry)
+    warning = warning || (match && withRegistrations(match, record.normalized, industry))
+  }
+
+  const registryMatch = matchRegistry(name, industry)
+  if (registryMatch?.flag === 'severe') return registryMatch
+  return warning || registryMatch
+}
@@ -0,0 +1,187 @@
+// Local trademark store: the bundled well-known marks (data/trademarks.json) plus, when
+// TRADEMARKS_PATH is set, a file of filings imported from USPTO/EUIPO bulk exports with
+// `npm run import:trademarks`. Records are indexed by normalized mark, Nice class and status;
+// only registered and pending filings are indexed. Nice classes are matched against the
+// detected industry so a mark only blocks names in the market it is registered for.
+
+import bundledTrademarks from '../../data/trademarks.json'
+import { readJsonOverride } from './json-override'
+import type { TrademarkRecord, TrademarkStatus } from '../types'
+
+export interface TrademarkFile {
+  format: number
+  updatedAt: string
+  sources: string[]
+  records: TrademarkRecord[]
+}
+
+export interface TrademarkStore {
+  byMark: Map<string, TrademarkRecord[]>
+  byClass: Map<number, Set<string>> // Normalized marks with a filing in each Nice class
+  unclassified: Set<string> // Marks with a filing that lists no classes (relevant to every class)
+  byStatus: Map<TrademarkStatus, Set<string>>
+  famous: TrademarkRecord[]
+  longestMark: number
+  size: number
+}
+
+const STATUSES: TrademarkStatus[] = ['registered', 'pending', 'dead']
+
+export interface MarkQuery {
+  industry?: string // Only filings in the industry's Nice classes, see isRelevantToIndustry
+  status?: TrademarkStatus
+}
+
+// Nice classes where a mark conflicts with names in each industry from industry-keywords.ts;
+// 'generic' and unknown industries are relevant to every class
+const INDUSTRY_CLASSES: Record<string, number[]> = {
+  technology: [9, 38, 42],
+  finance: [36],
+  health: [5, 10, 44],
+  ecommerce: [35],
+  travel: [39, 43],
+  food: [29, 30, 31, 32, 33, 43],
+  education: [41],
+  realestate: [36, 37],
+  gaming: [9, 28, 41],
+  business: [35, 36, 42]
+}
+
+let store: TrademarkStore | undefined
+
+/**
+ * Lowercase letters and digits of a mark, with accents removed: "Café Müller" -> "cafemuller"
+ */
+export function normalizeMark(mark: string): string {
+  return mark.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function isUsableFile(candidate: TrademarkFile): boolean {
+  return Array.isArray(candidate?.records) &&
+    candidate.records.every(record =>
+      typeof record.mark === 'string' &&
+      typeof record.office === 'string' &&
+      Array.isArray(record.classes) &&
+      STATUSES.includes(record.status)
+    )
+}
+
+// Add `value` to the set stored under `key`, creating it on first use
+function addToIndex<K>(index: Map<K, Set<string>>, key: K, value: string): void {
+  const existing = index.get(key)
+  if (existing) existing.add(value)
+  else index.set(key, new Set([value]))
+}
+
+function buildStore(records: TrademarkRecord[]): TrademarkStore {
+  const byMark = new Map<string, TrademarkRecord[]>()
+  const byClass = new Map<number, Set<string>>()
+  const unclassified = new Set<string>()
+  const byStatus = new Map<TrademarkStatus, Set<string>>()
+  let longestMark = 0
+  let size = 0
+  for (const record of records) {
+    if (record.status === 'dead') continue
+    const normalized = record.normalized || normalizeMark(record.mark)
+    if (!normalized) continue
+    const indexed = { ...record, normalized }
+    const existing = byMark.get(normalized)
+    if (existing) existing.push(indexed)
+    else byMark.set(normalized, [indexed])
+    if (record.classes.length === 0) unclassified.add(normalized)
+    for (const niceClass of record.classes) addToIndex(byClass, niceClass, normalized)
+    addToIndex(byStatus, record.status, normalized)
+    longestMark = Math.max(longestMark, normalized.length)
+    size++
+  }
+
+  const famous = Array.from(byMark.values()).flat().filter(record => record.famous)
+  return { byMark, byClass, unclassified, byStatus, famous, longestMark, size }
+}
+
+/**
+ * The store in use: the bundled marks plus TRADEMARKS_PATH's filings if set and valid
+ */
+export function getTrademarkStore(): TrademarkStore {
+  if (store) return store
+
+  const imported = readJsonOverride({
+    envVar: 'TRADEMARKS_PATH',
+    description: 'trademarks',
+    requirement: 'need a mark, office, classes and status per record',
+    fallback: 'using the bundled marks only',
+    isUsable: isUsableFile
+  })
+  store = buildStore([...(bundledTrademarks as TrademarkFile).records, ...(imported?.records || [])])
+  return store
+}
+
+/**
+ * Replace the store in use with one built from `records` (undefined reloads it on next use)
+ */
+export function setTrademarkStore(records: TrademarkRecord[] | undefined): void {
+  store = records ? buildStore(records) : undefined
+}
+
+// Index check for a mark: whether it has filings in the query's classes and with its status
+// (possibly different filings, so lookupMark still filters the records themselves)
+function isIndexed(store: TrademarkStore, normalized: string, { industry, status }: MarkQuery): boolean {
+  if (!store.byMark.has(normalized)) return false
+  if (status && !store.byStatus.get(status)?.has(normalized)) return false
+  const classes = industry ? INDUSTRY_CLASSES[industry] : undefined
+  return !classes || store.unclassified.has(normalized) || classes.some(niceClass => store.byClass.get(niceClass)?.has(normalized))
+}
+
+/**
+ * Live filings for a normalized mark, optionally only those in an industry's classes or with a status
+ */
+export function lookupMark(normalized: string, query: MarkQuery = {}): TrademarkRecord[] {
+  const store = getTrademarkStore()
+  if (!isIndexed(store, normalized, query)) return []
+  return (store.byMark.get(normalized) || []).filter(record =>
+    (!query.status || record.status === query.status) && isRelevantToIndustry(record, query.industry)
+  )
+}
+
+/**
+ * Marks of at least `minLength` characters found inside `compact` (a normalized name),
+ * excluding the whole name itself, with where each starts. `query` limits them to marks
+ * with filings in an industry's classes or with a status.
+ */
+export function findEmbeddedMarks(compact: string, minLength: number, query: MarkQuery = {}): { normalized: string; position: number }[] {
+  const store = getTrademarkStore()
+  const found: { normalized: string; position: number }[] = []
+  const maxLength = Math.min(store.longestMark, compact.length - 1)
+  for (let length = maxLength; length >= minLength; length--) {
+    for (let position = 0; position + length <= compact.length; position++) {
+      const candidate = compact.slice(position, position + length)
+      if (isIndexed(store, candidate, query)) found.push({ normalized: candidate, position })
+    }
+  }
+  return found
+}
+
+/**
+ * Well-known marks, checked for typos and lookalikes as well as copies
+ */
+export function getFamousMarks(): TrademarkRecord[] {
+  return getTrademarkStore().famous
+}
+
+/**
+ * Whether a filing's Nice classes cover the industry. Filings without classes, and
+ * industries without a class mapping, count as relevant.
+ */
+export function isRelevantToIndustry(record: TrademarkRecord, industry?: string): boolean {
+  const classes = industry ? INDUSTRY_CLASSES[industry] : undefined
+  if (!classes || record.classes.length === 0) return true
+  return record.classes.some(niceClass => classes.includes(niceClass))
+}
+
+/**
+ * Citation for a filing, e.g. "USPTO 3123456"; undefined for the bundled marks,
+ * which carry no registration numbers
+ */
+export function citeRegistration(record: TrademarkRecord): string | undefined {
+  return record.registrationNumber ? `${record.office} ${record.registrationNumber}` : undefined
+}
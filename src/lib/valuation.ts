@@ -1,162 +1,209 @@
 // Core domain valuation algorithm implementing the 10-factor system
-import type { ValuationFactors, FactorWeights, FactorBreakdown, DomainAppraisal, ComparableSale } from '../types'
+import type { ValuationFactors, FactorWeights, FactorBreakdown, FactorScore, FactorReason, DomainAppraisal, ComparableSale, WhoisData, PriceEstimate, IDNInfo, ExtensionLandscape, TrademarkMatch } from '../types'
 import { findKeywordValue } from '../data/industry-keywords'
 import { findComparables } from '../data/sample-comps'
-import { findDatabaseComparables } from './database-comps'
-import { analyzeBrandability, estimateTraffic, analyzeTrademarkRisk, getWhoisData, type WhoisData } from './xai'
+import { findDatabaseComparables, type ComparablesQueryOptions } from './database-comps'
+import { analyzeBrandability, estimateTraffic, analyzeTrademarkRisk, getWhoisData, type BrandabilityResult } from './xai'
 import { extractTLD, extractDomainName, getTLDScore } from './tld-utils'
+import { WEIGHT_PROFILES, DEFAULT_PROFILE, resolveWeighting } from './weight-profiles'
+import { getPriceModel, predictPriceRange } from './price-model'
+import { getScoreBracket } from './score-bracket'
+import { segmentDomainName } from './word-segmentation'
+import { classifyDomainPattern, isShortLetterPattern } from './domain-pattern'
+import { analyzeIDN, extractDisplayName, graphemeLength, toLatinName, detectScripts, toUnicodeDomain, isIDN } from './idn'
+import { formatPrice, BASE_CURRENCY, DEFAULT_LOCALE } from './currency'
+import { getTLDMetadata, adjustTLDScoreForMetadata, adjustLiquidityForMetadata, estimateHoldingCost } from './tld-metadata'
+import { analyzeExtensionLandscape } from './extension-landscape'
+import { findTrademarkMatch } from './trademark-risk'
+import { baseReason, adjustScore, boundScore, sourceReason } from './factor-reasons'
+import { assessDataQuality, describeWhoisQuality, describeSourceQuality, describeCompsQuality, describeAnalysisQuality, widenPriceRange } from './data-quality'
 
-export const DEFAULT_WEIGHTS: FactorWeights = {
-  length: 0.12,
-  keywords: 0.20,
-  tld: 0.15,
-  brandability: 0.15,
-  industry: 0.10,
-  comps: 0.12,
-  age: 0.06,
-  traffic: 0.04,
-  liquidity: 0.06,
-  legal: 0.0 // Legal is a gating factor (multiplier), not weighted
-}
+// Order of the rows in an appraisal's factor breakdown
+export const FACTOR_ORDER = [
+  'length', 'keywords', 'tld', 'brandability', 'industry', 'comps',
+  'age', 'traffic', 'liquidity', 'legal', 'availability'
+]
+
+// Weights come from named profiles (see weight-profiles.ts); legal is a gating factor (multiplier), not weighted
+export const DEFAULT_WEIGHTS: FactorWeights = WEIGHT_PROFILES[DEFAULT_PROFILE].weights
 
-// Legal brand list for trademark risk assessment
-const LEGAL_BRANDS = [
-  'google', 'facebook', 'amazon', 'microsoft', 'apple', 'twitter', 'instagram', 
-  'youtube', 'linkedin', 'netflix', 'tesla', 'uber', 'airbnb', 'spotify', 
-  'paypal', 'visa', 'mastercard', 'coca-cola', 'pepsi', 'nike', 'adidas', 
-  'samsung', 'sony', 'intel', 'oracle', 'salesforce', 'adobe', 'zoom', 
-  'slack', 'dropbox', 'github', 'reddit', 'pinterest', 'snapchat', 'tiktok', 
-  'whatsapp', 'telegram', 'discord', 'twitch', 'shopify', 'square', 'stripe'
+// Starting length scores, by user-perceived characters - short domains are rare and valuable
+const LENGTH_SCORES: { maxLength: number; score: number; label: string }[] = [
+  { maxLength: 3, score: 100, label: 'super rare, mostly reserved' },
+  { maxLength: 4, score: 95, label: 'rare and very valuable' },
+  { maxLength: 5, score: 85, label: 'valuable and sought after' },
+  { maxLength: 6, score: 75, label: 'good length, still valuable' },
+  { maxLength: 7, score: 65, label: 'decent length' },
+  { maxLength: 8, score: 55, label: 'acceptable length' },
+  { maxLength: 10, score: 45, label: 'moderate length' },
+  { maxLength: 12, score: 35, label: 'getting long' },
+  { maxLength: 15, score: 25, label: 'long' },
+  { maxLength: Infinity, score: 15, label: 'very long, hard to remember' }
 ]
 
-export function scoreLengthAndSimplicity(domain: string): number {
-  // Extract domain name without TLD using proper TLD extraction
-  const domainName = extractDomainName(domain)
+export function scoreLengthAndSimplicity(domain: string): FactorScore {
+  // Extract domain name without TLD using proper TLD extraction (Unicode form for IDNs)
+  const domainName = extractDisplayName(domain)
   
-  const length = domainName.length
-  const wordCount = domainName.split(/[-_]/).length
+  const length = graphemeLength(domainName) // User-perceived characters, not punycode length
+  const wordCount = segmentDomainName(domain).words.length
   const hasHyphen = domainName.includes('-')
   const hasNumber = /\d/.test(domainName)
   const hasUnderscore = domainName.includes('_')
   
-  let score = 0
-  
-  // Premium short domain scoring - reflects extreme rarity and value
-  if (length === 1) {
-    score = 100 // Practically impossible to get
-  } else if (length === 2) {
-    score = 100 // Extremely rare, mostly reserved
-  } else if (length === 3) {
-    score = 100 // Super rare and extremely valuable
-  } else if (length === 4) {
-    score = 95  // Rare and very valuable
-  } else if (length === 5) {
-    score = 85  // Valuable and sought after
-  } else if (length === 6) {
-    score = 75  // Good length, still valuable
-  } else if (length === 7) {
-    score = 65  // Decent length
-  } else if (length === 8) {
-    score = 55  // Acceptable length
-  } else if (length <= 10) {
-    score = 45  // Moderate length
-  } else if (length <= 12) {
-    score = 35  // Getting long
-  } else if (length <= 15) {
-    score = 25  // Long domain
-  } else {
-    score = 15  // Very long, hard to remember
+  const tier = LENGTH_SCORES.find(entry => length <= entry.maxLength) as typeof LENGTH_SCORES[number]
+  let scored: FactorScore = {
+    score: tier.score,
+    reasons: [baseReason(tier.score, `${length} character${length === 1 ? '' : 's'} - ${tier.label}`)]
   }
   
   // Penalties for complexity
-  if (hasHyphen) score -= 20
+  if (hasHyphen) scored = adjustScore(scored, -20, 'Contains a hyphen')
   if (hasNumber) {
     // Numbers are less penalized in very short domains
-    score -= length <= 4 ? 5 : 10
+    scored = adjustScore(scored, length <= 4 ? -5 : -10, length <= 4 ? 'Contains a digit (lighter penalty for very short names)' : 'Contains a digit')
   }
-  if (hasUnderscore) score -= 15
-  if (wordCount > 3) score -= 10
+  if (hasUnderscore) scored = adjustScore(scored, -15, 'Contains an underscore')
+  if (wordCount > 3) scored = adjustScore(scored, -10, `${wordCount} words - hard to remember`)
   
-  return Math.max(0, score)
+  return scored
 }
 
-export function scoreKeywords(domain: string): { score: number; industry: string; keywords: string[] } {
+export function scoreKeywords(domain: string): FactorScore & { industry: string; keywords: string[] } {
+  // English keywords cannot be judged in other scripts - score neutral rather than absent
+  if (toLatinName(domain) === null) {
+    return { score: 40, reasons: [baseReason(40, 'Non-Latin name - English keywords cannot be judged, scored neutral')], industry: 'generic', keywords: [] }
+  }
+  
   const result = findKeywordValue(domain)
   return {
     score: result.score,
+    reasons: result.reasons,
     industry: result.industry,
     keywords: result.matchedKeywords
   }
 }
 
-export function scoreTLD(domain: string, targetCountry?: string): number {
+export function scoreTLD(domain: string, targetCountry?: string): FactorScore {
   const tld = extractTLD(domain);
-  return getTLDScore(tld, targetCountry);
+  const tierScore = getTLDScore(tld);
+  let scored: FactorScore = { score: tierScore, reasons: [baseReason(tierScore, `.${tld} standing with buyers`)] };
+  if (targetCountry) {
+    scored = adjustScore(scored, getTLDScore(tld, targetCountry) - tierScore, `Country TLD matches the target market (${targetCountry.toUpperCase()})`);
+  }
+  scored = adjustTLDScoreForMetadata(scored, getTLDMetadata(tld));
+  const idn = analyzeIDN(domain);
+  return idn ? adjustTLDScoreForIDN(scored, idn, tld) : scored;
 }
 
-export function scoreIndustryRelevance(industry: string, keywords: string[]): number {
+/**
+ * A native-script name on a matching IDN TLD (e.g. Cyrillic on .рф) is the natural home
+ * for it; an IDN name on an ASCII TLD, or an ASCII name on an IDN TLD, is a harder sale
+ */
+function adjustTLDScoreForIDN(scored: FactorScore, idn: IDNInfo, tld: string): FactorScore {
+  const tldScripts = detectScripts(toUnicodeDomain(tld))
+  const tldIsIDN = isIDN(tld)
+  const nameIsIDN = isIDN(extractDomainName(idn.ascii))
+  
+  if (tldIsIDN && nameIsIDN) {
+    return idn.scripts.some(script => tldScripts.includes(script))
+      ? adjustScore(scored, Math.max(0, 70 - scored.score), 'Native-script name on a TLD in the same script')
+      : scored
+  }
+  if (tldIsIDN) return adjustScore(scored, -20, 'ASCII name on an internationalized TLD')
+  return adjustScore(scored, -15, 'Internationalized name on an ASCII TLD')
+}
+
+export function scoreIndustryRelevance(industry: string, keywords: string[]): FactorScore {
   const highValueIndustries = ['finance', 'technology', 'health', 'ecommerce', 'travel']
   const mediumValueIndustries = ['education', 'realestate', 'business', 'gaming']
   
   let baseScore = 30
+  let label = 'No specific industry'
   
   if (highValueIndustries.includes(industry)) {
     baseScore = 85
+    label = `High-value industry (${industry})`
   } else if (mediumValueIndustries.includes(industry)) {
     baseScore = 60
+    label = `Mid-value industry (${industry})`
   } else if (industry !== 'generic') {
     baseScore = 45
+    label = `Lower-value industry (${industry})`
   }
   
-  // Bonus for multiple relevant keywords
-  if (keywords.length >= 2) {
-    baseScore = Math.min(100, baseScore + 10)
-  }
+  const scored: FactorScore = { score: baseScore, reasons: [baseReason(baseScore, label)] }
   
-  return baseScore
+  // Bonus for multiple relevant keywords
+  return keywords.length >= 2
+    ? adjustScore(scored, 10, `${keywords.length} industry keywords`)
+    : scored
 }
 
-export function scoreComparableSales(domain: string, comps: any[] = []): number {
+export function scoreComparableSales(domain: string, comps: any[] = []): FactorScore {
   if (!comps || comps.length === 0) {
-    return 50
+    return { score: 50, reasons: [baseReason(50, 'No comparable sales found - scored neutral')] }
   }
   
   // Calculate average similarity score from comparables
   const avgSimilarity = comps.reduce((sum, comp) => sum + (comp.similarity || 0), 0) / comps.length
+  const synthetic = comps.filter(comp => comp.synthetic).length
+  const source = sourceReason(synthetic > 0
+    ? `${comps.length} comparable sales, ${synthetic} of them estimated rather than recorded`
+    : `${comps.length} recorded comparable sales`)
   
   // Convert similarity to score (0-100 scale)
   // High similarity (80+) = good comps data = high score (80-90)
   // Medium similarity (50-80) = decent comps = medium score (60-80)  
   // Low similarity (20-50) = weak comps = lower score (40-60)
   
+  let score = 50
   if (avgSimilarity >= 80) {
-    return 85
+    score = 85
   } else if (avgSimilarity >= 60) {
-    return 75
+    score = 75
   } else if (avgSimilarity >= 40) {
-    return 65
+    score = 65
   } else if (avgSimilarity >= 20) {
-    return 55
-  } else {
-    return 50
+    score = 55
   }
+  return { score, reasons: [baseReason(score, `Average similarity to comparable sales ${Math.round(avgSimilarity)}%`), source] }
+}
+
+// Where age and traffic figures came from, for the factor reasons
+const DATA_SOURCE_LABELS: Record<string, string> = {
+  user_provided: 'provided with the request',
+  ip2whois_api: 'IP2WHOIS',
+  ip2whois: 'IP2WHOIS',
+  rdap: 'RDAP registry data',
+  whois: 'WHOIS registry data',
+  ai_estimate: 'AI estimate',
+  estimated: 'estimate (lookups skipped)',
+  fallback: 'default (no data available)'
 }
 
-export async function scoreDomainAge(domain: string, providedAgeInYears?: number, skipNetwork?: boolean): Promise<{score: number; dataSource: string; error?: string}> {
-  // If age is already provided, use it
+function describeDataSource(dataSource: string, error?: string): FactorReason {
+  const label = DATA_SOURCE_LABELS[dataSource] || dataSource
+  return sourceReason(error ? `Source: ${label} - ${error}` : `Source: ${label}`)
+}
+
+export async function scoreDomainAge(domain: string, providedAgeInYears?: number, skipNetwork?: boolean, providedSource: string = 'user_provided'): Promise<FactorScore & {dataSource: string; error?: string}> {
+  // If age is already provided (by the caller or from the WHOIS lookup), use it
   if (providedAgeInYears) {
     return {
-      score: calculateAgeScore(providedAgeInYears), 
-      dataSource: 'user_provided'
+      ...calculateAgeScore(providedAgeInYears, providedSource),
+      dataSource: providedSource
     }
   }
 
   // Skip network calls for fast evaluation mode
   if (skipNetwork) {
+    const error = 'Network calls skipped for fast evaluation'
     return {
       score: 25, // Conservative neutral score for fast evaluation
+      reasons: [baseReason(25, 'Age unknown - scored as a new domain'), describeDataSource('estimated', error)],
       dataSource: 'estimated',
-      error: 'Network calls skipped for fast evaluation'
+      error
     }
   }
 
@@ -165,40 +212,45 @@ export async function scoreDomainAge(domain: string, providedAgeInYears?: number
     const ageInYears = await fetchDomainAge(domain)
     if (ageInYears !== null) {
       return {
-        score: calculateAgeScore(ageInYears), 
+        ...calculateAgeScore(ageInYears, 'ip2whois_api'),
         dataSource: 'ip2whois_api',
         error: undefined
       }
     }
   } catch (error) {
     console.warn('Failed to fetch domain age:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error fetching domain age'
     return {
       score: 25, 
+      reasons: [baseReason(25, 'Age unknown - scored as a new domain'), describeDataSource('fallback', message)],
       dataSource: 'fallback',
-      error: error instanceof Error ? error.message : 'Unknown error fetching domain age'
+      error: message
     }
   }
 
   // Fallback to neutral score if unable to determine age
+  const error = 'No age data available'
   return {
     score: 25, 
+    reasons: [baseReason(25, 'Age unknown - scored as a new domain'), describeDataSource('fallback', error)],
     dataSource: 'fallback',
-    error: 'No age data available'
+    error
   }
 }
 
-function calculateAgeScore(ageInYears: number): number {
+function calculateAgeScore(ageInYears: number, dataSource: string): FactorScore {
+  let score = 25
   if (ageInYears >= 15) {
-    return 95
+    score = 95
   } else if (ageInYears >= 10) {
-    return 90
+    score = 90
   } else if (ageInYears >= 5) {
-    return 70
+    score = 70
   } else if (ageInYears >= 2) {
-    return 50
-  } else {
-    return 25
+    score = 50
   }
+  const years = `${ageInYears} year${ageInYears === 1 ? '' : 's'}`
+  return { score, reasons: [baseReason(score, `Registered ${years} ago`), describeDataSource(dataSource)] }
 }
 
 async function fetchDomainAge(domain: string): Promise<number | null> {
@@ -237,118 +289,137 @@ async function fetchDomainAge(domain: string): Promise<number | null> {
   }
 }
 
-export async function scoreDomainTraffic(domain: string, providedMonthlyTraffic?: number): Promise<{score: number; dataSource: string; error?: string}> {
+export async function scoreDomainTraffic(domain: string, providedMonthlyTraffic?: number): Promise<FactorScore & {dataSource: string; error?: string}> {
   // If traffic data is already provided, use it
   if (providedMonthlyTraffic && providedMonthlyTraffic > 0) {
     return {
-      score: calculateTrafficScore(providedMonthlyTraffic),
+      ...calculateTrafficScore(providedMonthlyTraffic, describeDataSource('user_provided')),
       dataSource: 'user_provided'
     }
   }
 
   // Use AI-powered traffic estimation
   try {
-    const monthlyTraffic = await estimateDomainTraffic(domain)
+    const { monthlyTraffic, explanation, fallbackReason } = await estimateDomainTraffic(domain)
+    const dataSource = fallbackReason ? 'fallback' : 'ai_estimate'
+    const scored = calculateTrafficScore(monthlyTraffic, describeDataSource(dataSource, fallbackReason))
     return {
-      score: calculateTrafficScore(monthlyTraffic),
-      dataSource: 'ai_estimate'
+      score: scored.score,
+      reasons: explanation ? [...scored.reasons, sourceReason(explanation)] : scored.reasons,
+      dataSource,
+      error: fallbackReason
     }
   } catch (error) {
     console.warn('Failed to estimate domain traffic:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error estimating traffic'
     return {
       score: 20,
+      reasons: [baseReason(20, 'Traffic unknown - scored as minimal'), describeDataSource('fallback', message)],
       dataSource: 'fallback',
-      error: error instanceof Error ? error.message : 'Unknown error estimating traffic'
+      error: message
     }
   }
-
-  // Fallback to low score if unable to determine traffic
-  return {
-    score: 20,
-    dataSource: 'fallback',
-    error: 'No traffic data available'
-  }
 }
 
-function calculateTrafficScore(monthlyTraffic: number): number {
+function calculateTrafficScore(monthlyTraffic: number, source: FactorReason): FactorScore {
+  let score = 20
   if (monthlyTraffic >= 1000000) {
-    return 95
+    score = 95
   } else if (monthlyTraffic >= 100000) {
-    return 90
+    score = 90
   } else if (monthlyTraffic >= 10000) {
-    return 70
+    score = 70
   } else if (monthlyTraffic >= 1000) {
-    return 50
+    score = 50
   } else if (monthlyTraffic >= 100) {
-    return 30
-  } else {
-    return 20
+    score = 30
   }
+  return { score, reasons: [baseReason(score, `About ${monthlyTraffic.toLocaleString('en-US')} visits a month`), source] }
 }
 
-async function estimateDomainTraffic(domain: string): Promise<number> {
+async function estimateDomainTraffic(domain: string): Promise<{ monthlyTraffic: number; explanation?: string; fallbackReason?: string }> {
   // Use AI-powered traffic estimation instead of expensive SimilarWeb API
   try {
     const trafficEstimate = await estimateTraffic(domain)
-    return trafficEstimate.monthlyTraffic
+    return { monthlyTraffic: trafficEstimate.monthlyTraffic, explanation: trafficEstimate.explanation, fallbackReason: trafficEstimate.fallbackReason }
   } catch (error) {
     console.warn('Error estimating domain traffic with AI:', error)
     // Return conservative estimate
-    return 100
+    return { monthlyTraffic: 100, fallbackReason: error instanceof Error ? error.message : 'Unknown error' }
   }
 }
 
-export function scoreLiquidity(domain: string): number {
-  const domainName = extractDomainName(domain)
+export function scoreLiquidity(domain: string): FactorScore {
+  return adjustLiquidityForMetadata(scoreNameLiquidity(domain), getTLDMetadata(extractTLD(domain)))
+}
+
+// Liquidity of a premium pattern, which skips the standard length and TLD scoring
+function premiumLiquidity(score: number, text: string): FactorScore {
+  return { score, reasons: [baseReason(score, text)] }
+}
+
+// Liquidity from the name itself and the major TLDs it sits on
+function scoreNameLiquidity(domain: string): FactorScore {
+  const domainName = extractDisplayName(domain)
   const tld = extractTLD(domain)
-  const length = domainName.length
+  const length = graphemeLength(domainName)
+  const pattern = classifyDomainPattern(domain)
+  const letters = /^[a-z]+$/.test(domainName)
   
   // Premium short domains have extremely high liquidity due to rarity
   if (tld === 'com') {
-    if (length <= 2 && /^[a-z]+$/.test(domainName)) {
-      return 100 // Extremely rare, instant liquidity
+    if (pattern === 'N' || pattern === 'NN' || pattern === 'NNN') {
+      return premiumLiquidity(90, 'Short numeric .com - steady demand from Chinese buyers')
+    }
+    if (pattern === 'NNNN') {
+      return premiumLiquidity(80, '4-digit .com - steady demand from Chinese buyers')
     }
-    if (length === 3 && /^[a-z]+$/.test(domainName)) {
-      return 100 // 3-letter .com - premium liquidity
+    if (length <= 2 && letters) {
+      return premiumLiquidity(100, `${length}-letter .com - extremely rare, instant liquidity`)
     }
-    if (length === 4 && /^[a-z]+$/.test(domainName)) {
-      return 95 // 4-letter .com - excellent liquidity
+    if (length === 3 && letters) {
+      return premiumLiquidity(100, '3-letter .com - premium liquidity')
     }
-    if (length === 5 && /^[a-z]+$/.test(domainName) && !domainName.includes('-')) {
-      return 90 // 5-letter .com - high liquidity
+    if (length === 4 && letters) {
+      return premiumLiquidity(95, '4-letter .com - excellent liquidity')
     }
-    if (length <= 6 && /^[a-z]+$/.test(domainName) && !domainName.includes('-')) {
-      return 85 // 6-letter .com - good liquidity
+    if (length === 5 && letters && !domainName.includes('-')) {
+      return pattern === 'dictionary' || pattern === 'CVCCV'
+        ? premiumLiquidity(92, `5-letter ${pattern === 'dictionary' ? 'dictionary word' : 'CVCCV'} .com - high liquidity`)
+        : premiumLiquidity(90, '5-letter .com - high liquidity')
+    }
+    if (length <= 6 && letters && !domainName.includes('-')) {
+      return premiumLiquidity(85, '6-letter .com - good liquidity')
     }
   }
   
   // Premium TLD short patterns
   if (['net', 'org'].includes(tld)) {
-    if (length <= 3 && /^[a-z]+$/.test(domainName)) {
-      return 95 // Short premium TLD
+    if (length <= 3 && letters) {
+      return premiumLiquidity(95, `Short .${tld} - premium TLD`)
     }
-    if (length === 4 && /^[a-z]+$/.test(domainName)) {
-      return 85
+    if (length === 4 && letters) {
+      return premiumLiquidity(85, `4-letter .${tld}`)
     }
   }
   
   // Tech TLDs
   if (['io', 'ai'].includes(tld)) {
-    if (length <= 3 && /^[a-z]+$/.test(domainName)) {
-      return 90
+    if (length <= 3 && letters) {
+      return premiumLiquidity(90, `Short .${tld} - sought after by tech startups`)
     }
-    if (length === 4 && /^[a-z]+$/.test(domainName)) {
-      return 80
+    if (length === 4 && letters) {
+      return premiumLiquidity(80, `4-letter .${tld}`)
     }
   }
   
   // Premium country TLD patterns
   if (['co.uk', 'com.au', 'co.nz'].includes(tld)) {
-    if (length <= 4 && /^[a-z]+$/.test(domainName)) {
-      return 85
+    if (length <= 4 && letters) {
+      return premiumLiquidity(85, `Short .${tld} - premium country TLD`)
     }
-    if (length === 5 && /^[a-z]+$/.test(domainName)) {
-      return 75
+    if (length === 5 && letters) {
+      return premiumLiquidity(75, `5-letter .${tld}`)
     }
   }
   
@@ -372,45 +443,65 @@ export function scoreLiquidity(domain: string): number {
     else if (length <= 12) baseScore = 40
     else baseScore = 30
   }
+  let scored: FactorScore = { score: baseScore, reasons: [baseReason(baseScore, `${length}-character name on .${tld}`)] }
+  
+  // Names that sell by pattern move faster than arbitrary strings of the same length
+  if (pattern === 'dictionary') scored = adjustScore(scored, 10, 'Dictionary word - sells on meaning')
+  else if (pattern === 'two-word' || pattern === 'CVCCV') scored = adjustScore(scored, 5, pattern === 'two-word' ? 'Two-word name' : 'Pronounceable CVCCV pattern')
+  else if (pattern === 'multi-word' || pattern === 'acronym') scored = adjustScore(scored, -5, pattern === 'acronym' ? 'Acronym' : 'Three or more words')
+  else if (pattern === 'unclassified') scored = adjustScore(scored, -10, 'No recognizable pattern')
+  else if (pattern === 'idn') scored = adjustScore(scored, -10, 'Internationalized name - resells in a thinner market')
   
   // Penalties for complexity
-  if (domainName.includes('-')) baseScore -= 15
+  if (domainName.includes('-')) scored = adjustScore(scored, -15, 'Contains a hyphen')
   if (/\d/.test(domainName)) {
     // Numbers less penalized in short domains
-    baseScore -= length <= 4 ? 5 : 10
+    scored = adjustScore(scored, length <= 4 ? -5 : -10, 'Contains a digit')
   }
   
-  return Math.max(20, baseScore)
+  return boundScore(scored, 20, 100)
 }
 
-export async function assessLegalRisk(domain: string): Promise<{ flag: 'clear' | 'warning' | 'severe'; multiplier: number; score: number }> {
-  const domainName = domain.toLowerCase().replace(/\.(com|net|org|io|ai|co|app|xyz|info|biz)$/, '')
+export async function assessLegalRisk(domain: string, industry?: string): Promise<{ flag: 'clear' | 'warning' | 'severe'; multiplier: number; score: number; match?: TrademarkMatch; fallbackReason?: string }> {
+  // Copies and imitations of known brands (typos, lookalikes, embedded names) and registered
+  // marks in the industry's classes are conclusive locally
+  const match = findTrademarkMatch(domain, industry) ?? undefined
+  if (match?.flag === 'severe') {
+    return { flag: match.flag, multiplier: match.multiplier, score: match.score, match }
+  }
   
   // Use AI-powered trademark analysis first
+  let fallbackReason: string | undefined
   try {
-    const trademarkResult = await checkAITrademarkConflicts(domainName)
+    const trademarkResult = await checkAITrademarkConflicts(extractDisplayName(domain))
+    fallbackReason = trademarkResult.fallbackReason
     if (trademarkResult.hasConflict) {
       return {
         flag: trademarkResult.severity,
         multiplier: trademarkResult.severity === 'severe' ? 0 : trademarkResult.severity === 'warning' ? 0.5 : 1.0,
-        score: trademarkResult.severity === 'severe' ? 0 : trademarkResult.severity === 'warning' ? 25 : 100
+        score: trademarkResult.severity === 'severe' ? 0 : trademarkResult.severity === 'warning' ? 25 : 100,
+        match
       }
     }
   } catch (error) {
     console.warn('Failed to check trademark with AI:', error)
+    fallbackReason = error instanceof Error ? error.message : 'Unknown error'
   }
 
-  // Fallback to static brand checking
-  return assessStaticLegalRisk(domainName)
+  // Fall back to the local engine's verdict
+  return match
+    ? { flag: match.flag, multiplier: match.multiplier, score: match.score, match, fallbackReason }
+    : { flag: 'clear', multiplier: 1.0, score: 100, fallbackReason }
 }
 
-async function checkAITrademarkConflicts(term: string): Promise<{hasConflict: boolean; severity: 'clear' | 'warning' | 'severe'}> {
+async function checkAITrademarkConflicts(term: string): Promise<{hasConflict: boolean; severity: 'clear' | 'warning' | 'severe'; fallbackReason?: string}> {
   // Use AI-powered trademark analysis instead of expensive MarkerAPI
   try {
     const trademarkResult = await analyzeTrademarkRisk(term)
     return {
       hasConflict: trademarkResult.hasConflict,
-      severity: trademarkResult.severity
+      severity: trademarkResult.severity,
+      fallbackReason: trademarkResult.fallbackReason
     }
   } catch (error) {
     console.warn('Error analyzing trademark risk with AI:', error)
@@ -418,51 +509,44 @@ async function checkAITrademarkConflicts(term: string): Promise<{hasConflict: bo
   }
 }
 
-function assessStaticLegalRisk(domainName: string): { flag: 'clear' | 'warning' | 'severe'; multiplier: number; score: number } {
-  // Enhanced static brand list (keeping as fallback)
-  const ENHANCED_LEGAL_BRANDS = [
-    ...LEGAL_BRANDS,
-    'chatgpt', 'openai', 'anthropic', 'claude', 'midjourney', 'stability',
-    'binance', 'coinbase', 'kraken', 'ftx', 'ethereum', 'polygon',
-    'shopify', 'etsy', 'walmart', 'target', 'bestbuy', 'macys',
-    'booking', 'expedia', 'marriott', 'hilton', 'hyatt', 'airbnb'
-  ]
-  
-  // Check for exact matches - severe risk
-  for (const brand of ENHANCED_LEGAL_BRANDS) {
-    if (domainName === brand) {
-      return { flag: 'severe', multiplier: 0, score: 0 }
-    }
-  }
-  
-  // Check for brand + common suffixes - warning only (not severe)
-  for (const brand of ENHANCED_LEGAL_BRANDS) {
-    if (domainName === brand + 's' || domainName === brand + 'app' || 
-        domainName === brand + 'api' || domainName === brand + 'pro' ||
-        domainName === brand + 'hub' || domainName === brand + 'store') {
-      return { flag: 'warning', multiplier: 0.7, score: 40 }
-    }
-  }
-  
-  // Check for word boundary matches (avoid false positives like "evisa")
-  for (const brand of ENHANCED_LEGAL_BRANDS) {
-    if (brand.length >= 5) { // Only check longer brands to avoid common words
-      const wordBoundaryRegex = new RegExp(`\\b${brand}\\b`)
-      if (wordBoundaryRegex.test(domainName)) {
-        return { flag: 'warning', multiplier: 0.6, score: 30 }
-      }
-    }
-  }
-  
-  return { flag: 'clear', multiplier: 1.0, score: 100 }
+// Most weight the price model can get against the score brackets
+const MAX_MODEL_WEIGHT = 0.5
+
+// Weight of the price model's prediction in the price: its holdout R^2, capped at MAX_MODEL_WEIGHT.
+// The model only sees the name, so it sits out when legal risk or availability zero the price.
+function modelWeight(domain: string | undefined, priceMultiplier: number): number {
+  const model = getPriceModel()
+  if (!model || !domain || priceMultiplier <= 0) return 0
+  return Math.min(MAX_MODEL_WEIGHT, Math.max(0, model.metrics.rSquared))
+}
+
+/**
+ * Price range for an appraisal: the score bracket for `score`, pulled toward the price model's
+ * prediction (scaled by `priceMultiplier`, the legal risk and availability multipliers) in
+ * proportion to how well the model fits held-out sales. Without a model it is the score bracket.
+ */
+export function mapScoreToPriceBracket(score: number, domain?: string, priceMultiplier: number = 1): { min: number; max: number; bracket: string } {
+  const bracket = mapScoreToFixedBracket(score, domain)
+  const model = getPriceModel()
+  const weight = modelWeight(domain, priceMultiplier)
+  if (!model || !domain || weight === 0) return bracket
+
+  // Geometric blend, so a model off by 10x moves the bracket by 10^weight rather than swamping it
+  const range = predictPriceRange(model, domain)
+  const blend = (bracketPrice: number, modelPrice: number) =>
+    Math.round(bracketPrice ** (1 - weight) * (modelPrice * priceMultiplier) ** weight)
+  return { min: blend(bracket.min, range.low), max: blend(bracket.max, range.high), bracket: bracket.bracket }
 }
 
-export function mapScoreToPriceBracket(score: number, domain?: string): { min: number; max: number; bracket: string } {
+// Hand-tuned brackets by score, with premium ranges for short letter .coms
+function mapScoreToFixedBracket(score: number, domain?: string): { min: number; max: number; bracket: string } {
   let min: number, max: number
   
-  // Check if this is a premium short .com domain for special pricing
-  const isPremium3Letter = domain && extractTLD(domain) === 'com' && extractDomainName(domain).length === 3
-  const isPremium4Letter = domain && extractTLD(domain) === 'com' && extractDomainName(domain).length === 4
+  // Check if this is a premium short letter .com (LLL, LLLL, CVCV, 4-letter word) for special pricing
+  const isShortLetterCom = domain && extractTLD(domain) === 'com' &&
+    isShortLetterPattern(classifyDomainPattern(domain), extractDomainName(domain).length)
+  const isPremium3Letter = isShortLetterCom && extractDomainName(domain).length === 3
+  const isPremium4Letter = isShortLetterCom && extractDomainName(domain).length === 4
   
   if (score >= 80) {
     if (isPremium3Letter) {
@@ -472,7 +556,7 @@ export function mapScoreToPriceBracket(score: number, domain?: string): { min: n
     } else {
       min = 5000; max = 50000 // Standard high-score range
     }
-    return { min, max, bracket: '80-100' }
+    return { min, max, bracket: getScoreBracket(score) }
   } else if (score >= 60) {
     if (isPremium3Letter) {
       min = 25000; max = 100000
@@ -481,7 +565,7 @@ export function mapScoreToPriceBracket(score: number, domain?: string): { min: n
     } else {
       min = 1000; max = 5000
     }
-    return { min, max, bracket: '60-80' }
+    return { min, max, bracket: getScoreBracket(score) }
   } else if (score >= 40) {
     if (isPremium3Letter) {
       min = 10000; max = 50000
@@ -490,37 +574,104 @@ export function mapScoreToPriceBracket(score: number, domain?: string): { min: n
     } else {
       min = 300; max = 1000
     }
-    return { min, max, bracket: '40-60' }
+    return { min, max, bracket: getScoreBracket(score) }
   } else if (score >= 20) {
     min = 100; max = 300
-    return { min, max, bracket: '20-40' }
+    return { min, max, bracket: getScoreBracket(score) }
   } else {
     min = 25; max = 100
-    return { min, max, bracket: '0-20' }
+    return { min, max, bracket: getScoreBracket(score) }
   }
 }
 
-export function calculatePriceEstimate(finalScore: number, compsMedian?: number, domain?: string): { investor: string; retail: string; explanation: string } {
-  const bracket = mapScoreToPriceBracket(finalScore, domain)
-  const bracketMidpoint = (bracket.min + bracket.max) / 2
+/**
+ * Investor and retail prices in USD plus a numeric range, widened when `confidence` (0-100, see data-quality.ts) is low
+ */
+export function calculatePriceEstimate(finalScore: number, compsMedian?: number, domain?: string, confidence: number = 100, priceMultiplier: number = 1): PriceEstimate {
+  const model = getPriceModel()
+  const weight = modelWeight(domain, priceMultiplier)
+  const bracket = mapScoreToPriceBracket(finalScore, domain, priceMultiplier)
+  const basePrice = (bracket.min + bracket.max) / 2
   
   let investorPrice = bracket.min
-  let retailPrice = bracketMidpoint
+  let retailPrice = basePrice
   
   if (compsMedian && compsMedian > 0) {
-    // Blend comps median with bracket midpoint (60/40 favoring comps)
-    retailPrice = Math.round(0.6 * compsMedian + 0.4 * bracketMidpoint)
+    // Blend comps median with the base price (60/40 favoring comps)
+    retailPrice = Math.round(0.6 * compsMedian + 0.4 * basePrice)
     investorPrice = Math.round(retailPrice * 0.6) // Investor price is typically 40% less
   }
   
+  const basis = model && weight > 0
+    ? `${finalScore.toFixed(1)}/100 algorithmic score, weighted ${Math.round(weight * 100)}% toward price model ${model.version} (trained on ${model.trainingRows.toLocaleString()} sales)`
+    : `${finalScore.toFixed(1)}/100 algorithmic score`
   const explanation = compsMedian 
-    ? `Price estimate based on ${finalScore.toFixed(1)}/100 score and comparable sales data.`
-    : `Price estimate based on ${finalScore.toFixed(1)}/100 algorithmic score. Add comparable sales data for more accurate pricing.`
+    ? `Price estimate based on ${basis} and comparable sales data.`
+    : `Price estimate based on ${basis}. Add comparable sales data for more accurate pricing.`
   
   return {
-    investor: `$${investorPrice.toLocaleString()}`,
-    retail: `$${retailPrice.toLocaleString()}`,
-    explanation
+    investor: formatPrice(investorPrice, BASE_CURRENCY, DEFAULT_LOCALE),
+    retail: formatPrice(retailPrice, BASE_CURRENCY, DEFAULT_LOCALE),
+    investorAmount: investorPrice,
+    retailAmount: retailPrice,
+    currency: BASE_CURRENCY,
+    explanation,
+    range: widenPriceRange(retailPrice, Math.sqrt(bracket.max / bracket.min), confidence)
+  }
+}
+
+// Reasons for the factors scored outside this module (AI brandability) or acting as multipliers
+function describeBrandability(result: BrandabilityResult): FactorReason[] {
+  const reasons = [result.fallbackReason
+    ? sourceReason(`Source: pronounceability heuristics - ${result.fallbackReason}`)
+    : sourceReason('Source: AI analysis')]
+  if (result.baselineScore !== undefined && !result.fallbackReason) {
+    reasons.push(sourceReason(`Blended with a local pronounceability score of ${result.baselineScore}`))
+  }
+  return reasons
+}
+
+function describeLegalRisk(legalRisk: Awaited<ReturnType<typeof assessLegalRisk>>): FactorReason[] {
+  const reasons: FactorReason[] = []
+  if (legalRisk.match) {
+    reasons.push(sourceReason(`${legalRisk.match.detail} (${legalRisk.match.technique})`))
+  } else if (legalRisk.flag !== 'clear') {
+    reasons.push(sourceReason('AI trademark screening found a likely conflict'))
+  } else {
+    reasons.push(sourceReason('No conflict with known trademarks'))
+  }
+  reasons.push(sourceReason(`Scales the final score by ${legalRisk.multiplier}x`))
+  return reasons
+}
+
+function describeAvailability(whoisData: WhoisData, skipWhois: boolean): FactorReason[] {
+  if (skipWhois) {
+    return [sourceReason('Registration not checked in fast mode'), sourceReason('Scales the final score by 0.8x')]
+  }
+  return [
+    sourceReason(`${whoisData.isAvailable ? 'Unregistered' : 'Registered'} according to ${whoisData.dataSource ? DATA_SOURCE_LABELS[whoisData.dataSource] || whoisData.dataSource : 'the registry lookup'}`),
+    sourceReason(`Scales the final score by ${whoisData.isAvailable ? 1.0 : 0.6}x`)
+  ]
+}
+
+// Load comparable sales - use database comparables if available, fallback to sample data
+async function loadComparables(domain: string, useComps?: boolean, options: ComparablesQueryOptions = {}): Promise<ComparableSale[]> {
+  if (useComps === false) {
+    return []
+  }
+  
+  try {
+    const comparables = await findDatabaseComparables(domain, 5, undefined, options)
+    if (comparables.length === 0) {
+      // Fallback to sample data if no database comparables found
+      console.log(`Using sample comparables for ${domain} (no database matches found)`)
+      return await findComparables(domain, 5, options)
+    }
+    console.log(`Using ${comparables.length} database comparables for ${domain}`)
+    return comparables
+  } catch (error) {
+    console.error('Database comparables error, falling back to sample data:', error)
+    return await findComparables(domain, 5, options)
   }
 }
 
@@ -532,34 +683,21 @@ export async function evaluateDomain(
     useComps?: boolean;
     domainAge?: number;
     skipWhois?: boolean; // New option for fast evaluation
-  } = {},
-  weights: FactorWeights = DEFAULT_WEIGHTS
+    checkExtensions?: boolean; // Look up the same name on other TLDs (extension-landscape.ts)
+    excludeOwnSales?: boolean; // Leave the domain's own past sales out of comps (backtesting)
+    compsBefore?: string; // Only use comps sold before this date, YYYY-MM-DD (backtesting)
+    weightProfile?: string; // Named profile from weight-profiles.ts
+    weights?: FactorWeights; // Custom weights, validated by the caller
+    onFactor?: (factor: FactorBreakdown) => void; // Called as each factor resolves
+  } = {}
 ): Promise<DomainAppraisal> {
   
-  // Check if this is a premium short domain and adjust weights accordingly
   const domainName = extractDomainName(domain)
   const tld = extractTLD(domain)
-  const isPremiumShortDomain = (tld === 'com' && domainName.length <= 4) || 
-                               (['net', 'org'].includes(tld) && domainName.length <= 3) ||
-                               (['io', 'ai'].includes(tld) && domainName.length <= 3)
-  
-  // Dynamic weighting for premium short domains
-  let adjustedWeights = { ...weights }
-  if (isPremiumShortDomain) {
-    // Significantly increase length and liquidity weights for premium short domains
-    adjustedWeights = {
-      length: 0.25,     // Increased from 0.12 for premium shorts
-      keywords: 0.15,   // Slightly reduced
-      tld: 0.20,        // Increased since premium TLD matters more
-      brandability: 0.15, // Keep same
-      industry: 0.05,   // Reduced since length matters more
-      comps: 0.10,      // Slightly reduced  
-      age: 0.03,        // Reduced
-      traffic: 0.02,    // Reduced
-      liquidity: 0.15,  // Significantly increased for premium shorts
-      legal: 0.0        // Legal is still a multiplier
-    }
-  }
+  
+  // Caller's weights or profile; premium short domains default to the premium-short profile
+  const weighting = resolveWeighting(domain, options)
+  const adjustedWeights = weighting.weights
   
   // Get WHOIS data only if not skipping (for fast evaluation)
   let whoisData: WhoisData
@@ -574,62 +712,66 @@ export async function evaluateDomain(
     whoisData = await getWhoisData(domain)
   }
   
-  // Score each factor
-  const lengthScore = scoreLengthAndSimplicity(domain)
-  const keywordResult = scoreKeywords(domain)
-  const tldScore = scoreTLD(domain, options.country)
-  const industryScore = scoreIndustryRelevance(keywordResult.industry, keywordResult.keywords)
-  
-  // Load comparable sales - use database comparables if available, fallback to sample data
-  let comparables: ComparableSale[]
-  if (options.useComps !== false) {
-    try {
-      comparables = await findDatabaseComparables(domain, 5)
-      if (comparables.length === 0) {
-        // Fallback to sample data if no database comparables found
-        comparables = await findComparables(domain, 5)
-        console.log(`Using sample comparables for ${domain} (no database matches found)`)
-      } else {
-        console.log(`Using ${comparables.length} database comparables for ${domain}`)
-      }
-    } catch (error) {
-      console.error('Database comparables error, falling back to sample data:', error)
-      comparables = await findComparables(domain, 5)
-    }
-  } else {
-    comparables = []
+  // Report each factor as soon as it is scored (used by the streaming endpoint)
+  const reportFactor = (entry: FactorBreakdown): FactorBreakdown => {
+    options.onFactor?.(entry)
+    return entry
   }
-  const compsScore = scoreComparableSales(domain, comparables)
-  const ageResult = await scoreDomainAge(domain, whoisData.ageInYears || options.domainAge, options.skipWhois)
-  const trafficResult = await scoreDomainTraffic(domain, options.userTraffic)
-  const liquidityScore = scoreLiquidity(domain)
+  const weightedFactor = (factor: Exclude<keyof FactorWeights, 'legal'>, { score, reasons }: FactorScore): FactorBreakdown =>
+    reportFactor({ factor, score, weight: adjustedWeights[factor], contribution: adjustedWeights[factor] * score, reasons })
   
-  // Get AI brandability score
-  const brandabilityResult = await analyzeBrandability(domain)
-  
-  // Assess legal risk
-  const legalRisk = await assessLegalRisk(domain)
+  // Score the local factors first - these need no network calls
+  const lengthFactor = weightedFactor('length', scoreLengthAndSimplicity(domain))
+  const keywordResult = scoreKeywords(domain)
+  const keywordsFactor = weightedFactor('keywords', keywordResult)
+  const tldFactor = weightedFactor('tld', scoreTLD(domain, options.country))
+  const industryFactor = weightedFactor('industry', scoreIndustryRelevance(keywordResult.industry, keywordResult.keywords))
+  const liquidityFactor = weightedFactor('liquidity', scoreLiquidity(domain))
   
   // Apply availability penalty - if domain is not available, reduce value significantly
   // Use conservative estimate when WHOIS is skipped
   const availabilityMultiplier = options.skipWhois ? 0.8 : (whoisData.isAvailable ? 1.0 : 0.6)
-  
-  // Calculate weighted score using adjusted weights
+  const availabilityFactor = reportFactor({ factor: 'availability', score: options.skipWhois ? 80 : (whoisData.isAvailable ? 100 : 60), weight: 0, contribution: 0, description: options.skipWhois ? 'ESTIMATED: Acts as 0.8x multiplier' : `${whoisData.isAvailable ? 'AVAILABLE' : 'TAKEN'}: Acts as ${availabilityMultiplier}x multiplier`, reasons: describeAvailability(whoisData, !!options.skipWhois) })
+  
+  // Run the remaining lookups (comps, age, traffic, AI brandability, legal) concurrently,
+  // reporting each factor the moment its lookup resolves
+  const [compsResult, ageResult, trafficResult, brandabilityResult, legalResult, extensionLandscape] = await Promise.all([
+    loadComparables(domain, options.useComps, { excludeOwnSales: options.excludeOwnSales, soldBefore: options.compsBefore }).then(comparables => ({
+      comparables,
+      factor: weightedFactor('comps', scoreComparableSales(domain, comparables))
+    })),
+    scoreDomainAge(domain, whoisData.ageInYears || options.domainAge, options.skipWhois, whoisData.ageInYears ? whoisData.dataSource : undefined)
+      .then(ageResult => ({ ...ageResult, factor: weightedFactor('age', ageResult) })),
+    scoreDomainTraffic(domain, options.userTraffic)
+      .then(trafficResult => ({ ...trafficResult, factor: weightedFactor('traffic', trafficResult) })),
+    analyzeBrandability(domain).then(result => ({
+      ...result,
+      factor: weightedFactor('brandability', { score: result.score, reasons: describeBrandability(result) })
+    })),
+    assessLegalRisk(domain, keywordResult.industry).then(legalRisk => ({
+      ...legalRisk,
+      factor: reportFactor({ factor: 'legal', score: legalRisk.score, weight: 0, contribution: 0, description: `${legalRisk.flag.toUpperCase()}: ${legalRisk.match ? `${legalRisk.match.detail} (${legalRisk.match.technique}). ` : ''}Acts as ${legalRisk.multiplier}x multiplier`, reasons: describeLegalRisk(legalRisk) })
+    })),
+    options.checkExtensions ? analyzeExtensionLandscape(domain) : Promise.resolve<ExtensionLandscape | undefined>(undefined)
+  ])
+  const comparables = compsResult.comparables
+  
+  // Calculate weighted score using adjusted weights (breakdown keeps FACTOR_ORDER)
   const breakdown: FactorBreakdown[] = [
-    { factor: 'length', score: lengthScore, weight: adjustedWeights.length, contribution: adjustedWeights.length * lengthScore },
-    { factor: 'keywords', score: keywordResult.score, weight: adjustedWeights.keywords, contribution: adjustedWeights.keywords * keywordResult.score },
-    { factor: 'tld', score: tldScore, weight: adjustedWeights.tld, contribution: adjustedWeights.tld * tldScore },
-    { factor: 'brandability', score: brandabilityResult.score, weight: adjustedWeights.brandability, contribution: adjustedWeights.brandability * brandabilityResult.score },
-    { factor: 'industry', score: industryScore, weight: adjustedWeights.industry, contribution: adjustedWeights.industry * industryScore },
-    { factor: 'comps', score: compsScore, weight: adjustedWeights.comps, contribution: adjustedWeights.comps * compsScore },
-    { factor: 'age', score: ageResult.score, weight: adjustedWeights.age, contribution: adjustedWeights.age * ageResult.score },
-    { factor: 'traffic', score: trafficResult.score, weight: adjustedWeights.traffic, contribution: adjustedWeights.traffic * trafficResult.score },
-    { factor: 'liquidity', score: liquidityScore, weight: adjustedWeights.liquidity, contribution: adjustedWeights.liquidity * liquidityScore },
-    { factor: 'legal', score: legalRisk.score, weight: 0, contribution: 0, description: `${legalRisk.flag.toUpperCase()}: Acts as ${legalRisk.multiplier}x multiplier` },
-    { factor: 'availability', score: options.skipWhois ? 80 : (whoisData.isAvailable ? 100 : 60), weight: 0, contribution: 0, description: options.skipWhois ? 'ESTIMATED: Acts as 0.8x multiplier' : `${whoisData.isAvailable ? 'AVAILABLE' : 'TAKEN'}: Acts as ${availabilityMultiplier}x multiplier` }
+    lengthFactor,
+    keywordsFactor,
+    tldFactor,
+    brandabilityResult.factor,
+    industryFactor,
+    compsResult.factor,
+    ageResult.factor,
+    trafficResult.factor,
+    liquidityFactor,
+    legalResult.factor,
+    availabilityFactor
   ]
   
-  const rawScore = breakdown.reduce((sum, factor) => sum + factor.contribution, 0)
+  const rawScore = breakdown.reduce((sum, factor) => sum + factor.contribution, 0) * (weighting.scoreScale ?? 1)
   
   // Premium domain multiplier for extremely rare short domains
   let premiumMultiplier = 1.0
@@ -641,7 +783,11 @@ export async function evaluateDomain(
     }
   }
   
-  const finalScore = rawScore * legalRisk.multiplier * availabilityMultiplier * premiumMultiplier
+  const landscapeMultiplier = extensionLandscape?.multiplier ?? 1.0
+  // The premium and landscape bonuses can push a strong name past 100
+  const finalScore = Math.min(100, Math.max(0,
+    rawScore * legalResult.multiplier * availabilityMultiplier * premiumMultiplier * landscapeMultiplier
+  ))
   
   // Calculate price estimate with comps median
   const sortedComparables = [...comparables].sort((a, b) => a.soldPrice - b.soldPrice)
@@ -649,8 +795,20 @@ export async function evaluateDomain(
     ? sortedComparables[Math.floor(sortedComparables.length / 2)].soldPrice
     : undefined
     
-  const priceEstimate = calculatePriceEstimate(finalScore, compsMedian, domain)
-  const bracket = mapScoreToPriceBracket(finalScore, domain)
+  // Confidence reflects which inputs were real data rather than estimates or defaults
+  const dataQuality = assessDataQuality([
+    describeWhoisQuality(whoisData, !!options.skipWhois),
+    describeSourceQuality('age', ageResult.dataSource, ageResult.error),
+    describeSourceQuality('traffic', trafficResult.dataSource, trafficResult.error),
+    describeAnalysisQuality('brandability', brandabilityResult.fallbackReason),
+    describeCompsQuality(comparables, options.useComps),
+    describeAnalysisQuality('legal', legalResult.fallbackReason)
+  ])
+    
+  // Legal risk and availability also scale the price model's side of the price
+  const priceMultiplier = legalResult.multiplier * availabilityMultiplier
+  const priceEstimate = calculatePriceEstimate(finalScore, compsMedian, domain, dataQuality.confidence, priceMultiplier)
+  const bracket = mapScoreToPriceBracket(finalScore, domain, priceMultiplier)
   
   return {
     domain,
@@ -658,9 +816,17 @@ export async function evaluateDomain(
     bracket: bracket.bracket,
     priceEstimate,
     breakdown,
-    legalFlag: legalRisk.flag,
+    legalFlag: legalResult.flag,
     aiComment: brandabilityResult.commentary,
+    words: segmentDomainName(domain).words,
+    pattern: classifyDomainPattern(domain),
+    idn: analyzeIDN(domain) ?? undefined,
+    tld: getTLDMetadata(extractTLD(domain)),
+    holdingCost: estimateHoldingCost(domain),
+    extensionLandscape,
     comps: comparables,
-    whoisData
+    whoisData,
+    weighting,
+    dataQuality
   }
 }
\ No newline at end of file
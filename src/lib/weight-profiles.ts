@@ -0,0 +1,157 @@
+// Named factor weighting profiles.
+// Callers pick a profile by name (AppraisalOptions.weightProfile) or send their own weights
+// (AppraisalOptions.weights); the profile and weights actually used are echoed back on the
+// appraisal as `weighting` so results can be reproduced.
+import type { AppraisalOptions, AppliedWeighting, FactorWeights } from '../types'
+import { extractTLD, extractDomainName } from './tld-utils'
+
+export interface WeightProfile {
+  name: string
+  description: string
+  weights: FactorWeights
+  scoreScale?: number // Multiplies the weighted score (default 1)
+}
+
+// Weighted factors must sum to 1; legal is a multiplier and always 0
+const WEIGHT_SUM_TOLERANCE = 0.001
+
+export const WEIGHT_PROFILES: Record<string, WeightProfile> = {
+  'balanced': {
+    name: 'balanced',
+    description: 'General-purpose weighting used when no profile is selected',
+    weights: {
+      length: 0.12, keywords: 0.20, tld: 0.15, brandability: 0.15, industry: 0.10,
+      comps: 0.12, age: 0.06, traffic: 0.04, liquidity: 0.06, legal: 0.0
+    }
+  },
+  'end-user': {
+    name: 'end-user',
+    description: 'A business buying a name to use: brandability and industry fit over resale value',
+    weights: {
+      length: 0.12, keywords: 0.20, tld: 0.15, brandability: 0.20, industry: 0.15,
+      comps: 0.06, age: 0.04, traffic: 0.05, liquidity: 0.03, legal: 0.0
+    }
+  },
+  'wholesale-investor': {
+    name: 'wholesale-investor',
+    description: 'Domainer buying to resell: comparable sales, liquidity, length and TLD',
+    weights: {
+      length: 0.18, keywords: 0.12, tld: 0.18, brandability: 0.08, industry: 0.04,
+      comps: 0.20, age: 0.06, traffic: 0.02, liquidity: 0.12, legal: 0.0
+    }
+  },
+  'startup-brand': {
+    name: 'startup-brand',
+    description: 'Naming a new company or product: short, brandable and memorable',
+    weights: {
+      length: 0.18, keywords: 0.10, tld: 0.14, brandability: 0.30, industry: 0.10,
+      comps: 0.06, age: 0.02, traffic: 0.02, liquidity: 0.08, legal: 0.0
+    }
+  },
+  'geo-local': {
+    name: 'geo-local',
+    description: 'Local businesses and geo names: keywords, industry, country TLD and traffic',
+    weights: {
+      length: 0.10, keywords: 0.22, tld: 0.18, brandability: 0.10, industry: 0.16,
+      comps: 0.08, age: 0.03, traffic: 0.10, liquidity: 0.03, legal: 0.0
+    }
+  },
+  'premium-short': {
+    name: 'premium-short',
+    description: 'Very short names in premium TLDs, where length and liquidity dominate (selected automatically)',
+    weights: {
+      length: 0.23, keywords: 0.14, tld: 0.18, brandability: 0.14, industry: 0.04,
+      comps: 0.09, age: 0.03, traffic: 0.02, liquidity: 0.13, legal: 0.0
+    },
+    // These weights used to sum to 1.1; scaling keeps short premium names scoring as they did
+    scoreScale: 1.1
+  }
+}
+
+export const DEFAULT_PROFILE = 'balanced'
+const PREMIUM_SHORT_PROFILE = 'premium-short'
+const CUSTOM_PROFILE = 'custom'
+
+const WEIGHT_KEYS: (keyof FactorWeights)[] = [
+  'length', 'keywords', 'tld', 'brandability', 'industry', 'comps', 'age', 'traffic', 'liquidity', 'legal'
+]
+
+/**
+ * Return a description of what is wrong with a weight table, or null if it is valid
+ */
+export function validateWeights(weights: unknown): string | null {
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+    return 'weights must be an object'
+  }
+
+  const table = weights as Record<string, unknown>
+  const unknownKey = Object.keys(table).find(key => !WEIGHT_KEYS.includes(key as keyof FactorWeights))
+  if (unknownKey) {
+    return `Unknown weight factor "${unknownKey}"`
+  }
+
+  for (const key of WEIGHT_KEYS) {
+    const value = table[key]
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+      return `Weight "${key}" must be a number between 0 and 1`
+    }
+  }
+
+  if (table.legal !== 0) {
+    return 'Weight "legal" must be 0 (legal risk is applied as a multiplier)'
+  }
+
+  const sum = WEIGHT_KEYS.reduce((total, key) => total + (table[key] as number), 0)
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    return `Weights must sum to 1 (got ${sum.toFixed(3)})`
+  }
+
+  return null
+}
+
+// Catch mistakes in the built-in tables at startup rather than in a request
+for (const profile of Object.values(WEIGHT_PROFILES)) {
+  const error = validateWeights(profile.weights)
+  if (error) {
+    throw new Error(`Invalid weight profile "${profile.name}": ${error}`)
+  }
+}
+
+/**
+ * Validate the weighting fields of AppraisalOptions; returns an error message for the client or null
+ */
+export function getWeightOptionsError(options: AppraisalOptions): string | null {
+  if (options.weights !== undefined) {
+    const error = validateWeights(options.weights)
+    return error ? `Invalid weights: ${error}` : null
+  }
+  if (options.weightProfile !== undefined && !WEIGHT_PROFILES[options.weightProfile]) {
+    return `Unknown weight profile "${options.weightProfile}". Available profiles: ${Object.keys(WEIGHT_PROFILES).join(', ')}`
+  }
+  return null
+}
+
+export function isPremiumShortDomain(domain: string): boolean {
+  const domainName = extractDomainName(domain)
+  const tld = extractTLD(domain)
+  return (tld === 'com' && domainName.length <= 4) ||
+         (['net', 'org'].includes(tld) && domainName.length <= 3) ||
+         (['io', 'ai'].includes(tld) && domainName.length <= 3)
+}
+
+/**
+ * Weights to use for an appraisal: caller-supplied weights, then the named profile,
+ * then premium-short for very short premium names, then the balanced default
+ */
+export function resolveWeighting(domain: string, options: AppraisalOptions = {}): AppliedWeighting {
+  if (options.weights) {
+    return { profile: CUSTOM_PROFILE, weights: { ...options.weights } }
+  }
+
+  const name = options.weightProfile && WEIGHT_PROFILES[options.weightProfile]
+    ? options.weightProfile
+    : isPremiumShortDomain(domain) ? PREMIUM_SHORT_PROFILE : DEFAULT_PROFILE
+
+  const { weights, scoreScale } = WEIGHT_PROFILES[name]
+  return { profile: name, weights: { ...weights }, ...(scoreScale !== undefined && { scoreScale }) }
+}
@@ -0,0 +1,255 @@
+// Port-43 WHOIS client (RFC 3912) for registries without RDAP, mostly ccTLDs.
+// Servers come from a per-registry table; TLDs not in the table are resolved through IANA's
+// "refer:" line. Thin registries point at the registrar's WHOIS server, which is followed
+// for the remaining fields. WHOIS_SERVER sends every query to one host[:port] (e.g. a local stub).
+
+import net from 'net'
+import type { WhoisData } from '../types'
+import { parseWhoisResponse, findWhoisReferral } from './whois-parser'
+import { calculateAgeInYears } from './rdap'
+
+export interface WhoisServer {
+  host: string
+  /** Build the query line when the registry expects more than the bare domain */
+  query?: (domain: string) => string
+}
+
+export type WhoisTransport = (host: string, port: number, query: string, timeoutMs: number) => Promise<string>
+
+export interface WhoisClientOptions {
+  servers?: Record<string, WhoisServer>
+  /** Send all queries to this host[:port], ignoring the server table and referrals */
+  serverOverride?: string
+  /** Network layer, swappable in tests */
+  transport?: WhoisTransport
+  timeoutMs?: number
+  maxReferrals?: number
+}
+
+/**
+ * Thrown when a domain cannot be looked up over WHOIS (no server, connection errors)
+ */
+export class WhoisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WhoisError'
+  }
+}
+
+const IANA_WHOIS_SERVER = 'whois.iana.org'
+const DEFAULT_TIMEOUT_MS = 8000
+const MAX_RESPONSE_BYTES = 256 * 1024
+
+// Registry WHOIS servers by (last-label) TLD, covering common gTLDs and the ccTLDs with popular second-level suffixes
+export const WHOIS_SERVERS: Record<string, WhoisServer> = {
+  // gTLDs
+  com: { host: 'whois.verisign-grs.com', query: domain => `domain ${domain}` },
+  net: { host: 'whois.verisign-grs.com', query: domain => `domain ${domain}` },
+  org: { host: 'whois.publicinterestregistry.org' },
+  info: { host: 'whois.nic.info' },
+  biz: { host: 'whois.nic.biz' },
+
+  // ccTLDs
+  ar: { host: 'whois.nic.ar' },
+  au: { host: 'whois.auda.org.au' },
+  bg: { host: 'whois.register.bg' },
+  br: { host: 'whois.registro.br' },
+  ca: { host: 'whois.cira.ca' },
+  cl: { host: 'whois.nic.cl' },
+  cn: { host: 'whois.cnnic.cn' },
+  co: { host: 'whois.nic.co' },
+  cz: { host: 'whois.nic.cz' },
+  de: { host: 'whois.denic.de', query: domain => `-T dn,ace ${domain}` },
+  es: { host: 'whois.nic.es' },
+  fr: { host: 'whois.nic.fr' },
+  hk: { host: 'whois.hkirc.hk' },
+  hr: { host: 'whois.dns.hr' },
+  hu: { host: 'whois.nic.hu' },
+  id: { host: 'whois.id' },
+  il: { host: 'whois.isoc.org.il' },
+  in: { host: 'whois.registry.in' },
+  io: { host: 'whois.nic.io' },
+  it: { host: 'whois.nic.it' },
+  jp: { host: 'whois.jprs.jp', query: domain => `${domain}/e` },
+  ke: { host: 'whois.kenic.or.ke' },
+  kr: { host: 'whois.kr' },
+  mx: { host: 'whois.mx' },
+  my: { host: 'whois.mynic.my' },
+  ng: { host: 'whois.nic.net.ng' },
+  nz: { host: 'whois.irs.net.nz' },
+  pe: { host: 'kero.yachay.pe' },
+  pl: { host: 'whois.dns.pl' },
+  ro: { host: 'whois.rotld.ro' },
+  rs: { host: 'whois.rnids.rs' },
+  ru: { host: 'whois.tcinet.ru' },
+  sg: { host: 'whois.sgnic.sg' },
+  sk: { host: 'whois.sk-nic.sk' },
+  th: { host: 'whois.thnic.co.th' },
+  tr: { host: 'whois.trabis.gov.tr' },
+  tw: { host: 'whois.twnic.net.tw' },
+  ua: { host: 'whois.ua' },
+  uk: { host: 'whois.nic.uk' },
+  za: { host: 'whois.registry.net.za' }
+}
+
+/**
+ * Send one query over TCP port 43 and collect the response until the server closes the connection
+ */
+export const tcpTransport: WhoisTransport = (host, port, query, timeoutMs) => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    const socket = net.createConnection({ host, port }, () => {
+      socket.write(`${query}\r\n`)
+    })
+    socket.setTimeout(timeoutMs)
+
+    socket.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+      size += chunk.length
+      if (size > MAX_RESPONSE_BYTES) {
+        socket.destroy(new WhoisError(`Response from ${host} exceeded ${MAX_RESPONSE_BYTES} bytes`))
+      }
+    })
+    socket.on('timeout', () => socket.destroy(new WhoisError(`Timeout: ${host} did not answer within ${timeoutMs}ms`)))
+    socket.on('error', reject)
+    socket.on('close', hadError => {
+      if (!hadError) resolve(Buffer.concat(chunks).toString('utf8'))
+    })
+  })
+}
+
+function splitHost(address: string): { host: string; port: number } {
+  const [host, port] = address.split(':')
+  return { host, port: port ? parseInt(port, 10) : 43 }
+}
+
+export class WhoisClient {
+  private servers: Record<string, WhoisServer>
+  private transport: WhoisTransport
+  private timeoutMs: number
+  private maxReferrals: number
+  private ianaCache = new Map<string, Promise<WhoisServer | null>>()
+
+  constructor(private options: WhoisClientOptions = {}) {
+    this.servers = options.servers || WHOIS_SERVERS
+    this.transport = options.transport || tcpTransport
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS
+    this.maxReferrals = options.maxReferrals ?? 1
+  }
+
+  /**
+   * Raw response text from the registry (and any referred registrar server)
+   */
+  async query(domain: string): Promise<string[]> {
+    const name = domain.toLowerCase()
+    const tld = name.slice(name.lastIndexOf('.') + 1)
+
+    if (this.options.serverOverride) {
+      return [await this.send(this.options.serverOverride, name)]
+    }
+
+    const server = await this.findServer(tld)
+    if (!server) {
+      throw new WhoisError(`No WHOIS server for .${tld}`)
+    }
+
+    const responses = [await this.send(server.host, server.query ? server.query(name) : name)]
+
+    // Follow registrar referrals (thin registries) without looping back to a server already asked
+    const visited = new Set([server.host])
+    for (let i = 0; i < this.maxReferrals; i++) {
+      const referral = findWhoisReferral(responses[responses.length - 1])
+      if (!referral || visited.has(referral)) break
+      visited.add(referral)
+
+      try {
+        responses.push(await this.send(referral, name))
+      } catch (error) {
+        // The registry answer is still usable on its own
+        console.log(`WHOIS referral to ${referral} failed:`, error instanceof Error ? error.message : 'Unknown error')
+        break
+      }
+    }
+
+    return responses
+  }
+
+  /**
+   * Look up a domain and parse the response into WhoisData. Registrar answers only fill
+   * fields the registry left empty, since the registry is authoritative. Throws a WhoisError
+   * when the registry's answer is empty or a rate-limit/error notice, so callers fall back.
+   */
+  async lookup(domain: string): Promise<WhoisData> {
+    const [registryText, ...referralTexts] = await this.query(domain)
+    const whoisData = parseWhoisResponse(domain, registryText)
+    if (!whoisData) {
+      const firstLine = registryText.trim().split(/\r?\n/)[0]
+      throw new WhoisError(firstLine ? `Unusable WHOIS response: ${firstLine.slice(0, 120)}` : 'Empty WHOIS response')
+    }
+
+    if (!whoisData.isAvailable) {
+      for (const text of referralTexts) {
+        const referral = parseWhoisResponse(domain, text)
+        if (!referral) continue
+        for (const [key, value] of Object.entries(referral) as [keyof WhoisData, unknown][]) {
+          const current = whoisData[key]
+          if ((current === undefined || (Array.isArray(current) && current.length === 0)) && value !== undefined) {
+            (whoisData as unknown as Record<string, unknown>)[key] = value
+          }
+        }
+      }
+    }
+
+    if (whoisData.registrationDate) {
+      whoisData.ageInYears = calculateAgeInYears(whoisData.registrationDate)
+    }
+
+    return whoisData
+  }
+
+  /**
+   * Registry server for a TLD: the built-in table first, then IANA's referral
+   */
+  async findServer(tld: string): Promise<WhoisServer | null> {
+    const label = tld.toLowerCase().replace(/^\./, '')
+    if (this.servers[label]) return this.servers[label]
+
+    let pending = this.ianaCache.get(label)
+    if (!pending) {
+      pending = this.send(IANA_WHOIS_SERVER, label)
+        .then(text => {
+          const host = findWhoisReferral(text)
+          return host ? { host } : null
+        })
+        .catch(error => {
+          this.ianaCache.delete(label)
+          throw error
+        })
+      this.ianaCache.set(label, pending)
+    }
+    return pending
+  }
+
+  private send(address: string, query: string): Promise<string> {
+    const { host, port } = splitHost(address)
+    return this.transport(host, port, query, this.timeoutMs)
+  }
+}
+
+let client: WhoisClient | null = null
+
+export function getWhoisClient(): WhoisClient {
+  if (!client) {
+    client = new WhoisClient({ serverOverride: process.env.WHOIS_SERVER || undefined })
+  }
+  return client
+}
+
+/**
+ * Replace the shared client (e.g. with one pointed at a local stub server)
+ */
+export function setWhoisClient(next: WhoisClient | null): void {
+  client = next
+}
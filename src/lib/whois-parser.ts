@@ -0,0 +1,231 @@
+// Parser for free-text WHOIS responses (port 43).
+// Registries do not share a format, but most responses fall into one of a few layouts:
+//   ICANN / gTLD style      "Creation Date: 1997-09-15T04:00:00Z"
+//   RIPE style (.fr, .de)   "created:     1995-01-01T00:00:00Z", "nserver: ns1.example.fr"
+//   Indented blocks (.uk)   "Name servers:" followed by indented values
+//   Bracketed keys (.jp)    "[Created on]   2001/05/17"
+// Each response is flattened into key/value pairs, then fields are picked by their known aliases.
+
+import type { WhoisData } from '../types'
+
+export interface WhoisField {
+  key: string // Lowercased, whitespace-collapsed key
+  value: string
+}
+
+// Aliases per WhoisData field, in order of preference
+const CREATED_KEYS = [
+  'creation date', 'created', 'created on', 'created date', 'create date', 'registered on', 'registered', 'registered date',
+  'registration date', 'registration time', 'domain registration date', 'record created', 'domain record activated',
+  'commencement date', 'domain create date'
+]
+const EXPIRES_KEYS = [
+  'registry expiry date', 'registrar registration expiration date', 'expiry date', 'expiration date', 'expires',
+  'expires on', 'expire date', 'expiration time', 'paid-till', 'renewal date', 'domain expiration date',
+  'record expires on', 'valid until'
+]
+const UPDATED_KEYS = ['updated date', 'last updated', 'last update', 'last-update', 'last modified', 'modified', 'changed', 'updated']
+const REGISTRAR_KEYS = ['registrar', 'registrar name', 'sponsoring registrar', 'registrar organization', 'registrar organisation']
+const NAMESERVER_KEYS = ['name server', 'name servers', 'nameserver', 'nameservers', 'nserver', 'dns', 'domain nameservers', 'host name']
+const STATUS_KEYS = ['domain status', 'status', 'registration status', 'state']
+const REGISTRANT_KEYS = ['registrant name', 'registrant', 'registrant organization', 'registrant organisation', 'registrant contact name']
+const ADMIN_KEYS = ['admin name', 'administrative contact', 'admin contact', 'admin-c', 'tech-c']
+const REFERRAL_KEYS = ['registrar whois server', 'whois server', 'refer', 'whois']
+
+// Phrases registries use when a name is not registered
+const NOT_FOUND_PATTERNS = [
+  /^%* *no match( for)?\b/im,
+  /^not found\b/im,
+  /^%+ *not found/im,
+  /^no data found/im,
+  /^no entries found/im,
+  /^no matching objects? found/im,
+  /^status:\s*(free|available|not registered)\s*$/im,
+  /^domain status:\s*no object found/im,
+  /this domain name has not been registered/i,
+  /^the queried object does not exist/im,
+  /^no information available about domain name/im,
+  /^domain not found/im,
+  /is available for registration/i
+]
+
+// Free text is parsed heuristically, so trust it a little less than RDAP
+const REGISTERED_CONFIDENCE = 90
+const NOT_FOUND_CONFIDENCE = 80
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+}
+
+/**
+ * Flatten a WHOIS response into key/value pairs. Keys with an empty value take the
+ * more deeply indented lines that follow as their values (Nominet-style blocks).
+ */
+export function parseWhoisFields(text: string): WhoisField[] {
+  const fields: WhoisField[] = []
+  let blockKey: string | null = null
+  let blockIndent = 0
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    const indent = line.length - line.trimStart().length
+
+    // Comments and blank lines end a block
+    if (line.trim() === '' || /^\s*[%#]/.test(line) || line.startsWith('>>>')) {
+      blockKey = null
+      continue
+    }
+
+    // JPRS: "a. [Domain Name]   EXAMPLE.JP" / "[Created on]   2001/05/17"
+    const bracketed = line.match(/^\s*(?:[a-z]\.\s*)?\[([^\]]+)\]\s*(.*)$/i)
+    if (bracketed) {
+      blockKey = bracketed[2].trim() ? null : normalizeKey(bracketed[1])
+      blockIndent = indent
+      if (bracketed[2].trim()) fields.push({ key: normalizeKey(bracketed[1]), value: bracketed[2].trim() })
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    // Skip prose, and URLs whose "scheme:" would otherwise look like a key
+    const isKeyValue = separator > 0 && separator <= 60 && line.slice(separator + 1, separator + 3) !== '//'
+    const inBlock = blockKey !== null && indent > blockIndent
+
+    // Block values, unless they are nested "key: value" pairs ("Relevant dates:" in .uk)
+    if (inBlock && !(isKeyValue && line.slice(separator + 1).trim())) {
+      fields.push({ key: blockKey!, value: line.trim() })
+      continue
+    }
+
+    if (!isKeyValue) {
+      blockKey = null
+      continue
+    }
+
+    const key = normalizeKey(line.slice(0, separator))
+    const value = line.slice(separator + 1).trim()
+    if (value) {
+      fields.push({ key, value })
+      if (!inBlock) blockKey = null
+    } else {
+      blockKey = key
+      blockIndent = indent
+    }
+  }
+
+  return fields
+}
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/\.+$/, '').replace(/\s+/g, ' ')
+}
+
+function findValues(fields: WhoisField[], aliases: string[]): string[] {
+  for (const alias of aliases) {
+    const values = fields.filter(field => field.key === alias).map(field => field.value)
+    if (values.length > 0) return values
+  }
+  return []
+}
+
+function findValue(fields: WhoisField[], aliases: string[]): string | undefined {
+  return findValues(fields, aliases)[0]
+}
+
+/**
+ * Normalize the date formats seen in WHOIS output to an ISO 8601 string
+ */
+export function parseWhoisDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const text = value.trim().split(/\s+#/)[0] // registro.br appends "#12345" handles
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/)
+  if (match) return toIso(+match[1], +match[2], +match[3], match[4], match[5], match[6])
+
+  // 20240131 (registro.br)
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (match) return toIso(+match[1], +match[2], +match[3])
+
+  // 26-Aug-1996, 26 Aug 1996
+  match = text.match(/^(\d{1,2})[- ]([a-z]{3})[a-z]*[- ,]+(\d{4})/i)
+  if (match && MONTHS[match[2].toLowerCase()]) return toIso(+match[3], MONTHS[match[2].toLowerCase()], +match[1])
+
+  // 31.01.2024, 31/01/2024 (day first, as used by European registries)
+  match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/)
+  if (match) return toIso(+match[3], +match[2], +match[1])
+
+  const parsed = new Date(text)
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+function toIso(year: number, month: number, day: number, hours?: string, minutes?: string, seconds?: string): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day, Number(hours || 0), Number(minutes || 0), Number(seconds || 0)))
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1) return undefined
+  return date.toISOString()
+}
+
+function cleanRegistrar(value: string | undefined): string | undefined {
+  // Nominet: "Example Registrar Ltd [Tag = EXAMPLE]"
+  const name = value?.replace(/\s*\[tag = [^\]]*\]\s*$/i, '').trim()
+  return name || undefined
+}
+
+function cleanNameServer(value: string): string | undefined {
+  // Values may carry glue IPs ("ns1.example.de 192.0.2.1") or a trailing dot
+  const host = value.split(/\s+/)[0].toLowerCase().replace(/\.$/, '')
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : undefined
+}
+
+export function isWhoisNotFound(text: string): boolean {
+  return NOT_FOUND_PATTERNS.some(pattern => pattern.test(text))
+}
+
+/**
+ * WHOIS server the response refers to for more detail (registrar server for thin registries, or IANA's "refer:")
+ */
+export function findWhoisReferral(text: string): string | undefined {
+  const value = findValue(parseWhoisFields(text), REFERRAL_KEYS)
+  const host = value?.replace(/^(r?whois|https?):\/\//i, '').replace(/\/.*$/, '').trim().toLowerCase()
+  return host && /^[a-z0-9-]+(\.[a-z0-9-]+)+(:\d+)?$/.test(host) ? host : undefined
+}
+
+/**
+ * Extract WhoisData from a WHOIS response, or null when it has neither registration data nor a
+ * not-found marker - empty replies and rate-limit or error notices say nothing about the domain
+ */
+export function parseWhoisResponse(domain: string, text: string): WhoisData | null {
+  const fields = parseWhoisFields(text)
+  const registrationDate = parseWhoisDate(findValue(fields, CREATED_KEYS))
+  const expirationDate = parseWhoisDate(findValue(fields, EXPIRES_KEYS))
+  const registrar = cleanRegistrar(findValue(fields, REGISTRAR_KEYS))
+  const nameServers = Array.from(new Set(
+    findValues(fields, NAMESERVER_KEYS).map(cleanNameServer).filter((ns): ns is string => Boolean(ns))
+  ))
+
+  const fetchedAt = new Date().toISOString()
+  const hasRegistrationData = Boolean(registrationDate || expirationDate || registrar || nameServers.length > 0)
+  if (isWhoisNotFound(text) && !hasRegistrationData) {
+    return { domain, isAvailable: true, status: 'available', dataSource: 'whois', fetchedAt, confidence: NOT_FOUND_CONFIDENCE }
+  }
+  if (!hasRegistrationData) {
+    return null
+  }
+
+  // ICANN statuses carry an explanatory URL: "clientTransferProhibited https://icann.org/epp#..."
+  const status = findValue(fields, STATUS_KEYS)?.split(/\s+https?:/)[0].trim()
+
+  return {
+    domain,
+    isAvailable: false,
+    dataSource: 'whois',
+    fetchedAt,
+    confidence: REGISTERED_CONFIDENCE,
+    registrationDate,
+    expirationDate,
+    registrar,
+    nameServers,
+    registrant: findValue(fields, REGISTRANT_KEYS),
+    adminContact: findValue(fields, ADMIN_KEYS),
+    status,
+    lastUpdated: parseWhoisDate(findValue(fields, UPDATED_KEYS))
+  }
+}
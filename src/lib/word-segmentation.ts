@@ -0,0 +1,103 @@
+// Dictionary-based word segmentation for compound names ("cloudbank" -> cloud + bank).
+// Each word costs log(rank * log(N)) under a Zipf model of the bundled frequency list
+// (data/english-words.json); dynamic programming picks the cheapest split. Letters no
+// dictionary word covers are kept together as a single unknown chunk.
+
+import englishWords from '../../data/english-words.json'
+import { industryKeywords } from '../data/industry-keywords'
+import { toLatinName } from './idn'
+
+export interface Segmentation {
+  words: string[] // All segments in order, dictionary words and unknown chunks alike
+  unknown: string[] // Segments not in the dictionary (coinages, digits)
+  coverage: number // Share of letters covered by dictionary words (0-1)
+}
+
+// Industry keywords are scored as at least this common, so domain vocabulary the
+// encyclopedic list undercounts ("crypto", "fintech") still wins splits
+const KEYWORD_RANK = 1000
+
+// An unknown chunk costs a fixed amount plus a little per letter, so a run of
+// unknown letters stays together instead of splitting into fragments
+const UNKNOWN_CHUNK_PENALTY = 6
+const UNKNOWN_LETTER_PENALTY = 1
+
+let dictionary: { costs: Map<string, number>; unknownBase: number } | undefined
+
+// Built on first use - industry-keywords imports this module, so its list is read lazily
+function getDictionary() {
+  if (dictionary) return dictionary
+
+  const words: string[] = englishWords.words
+  const logSize = Math.log(words.length)
+  const costs = new Map<string, number>()
+  words.forEach((word, index) => costs.set(word, Math.log((index + 1) * logSize)))
+
+  const keywordCost = Math.log(KEYWORD_RANK * logSize)
+  for (const { keyword } of industryKeywords) {
+    costs.set(keyword, Math.min(costs.get(keyword) ?? Infinity, keywordCost))
+  }
+
+  dictionary = {
+    costs,
+    unknownBase: Math.log(words.length * logSize) + UNKNOWN_CHUNK_PENALTY
+  }
+  return dictionary
+}
+
+export function isDictionaryWord(word: string): boolean {
+  return getDictionary().costs.has(word.toLowerCase())
+}
+
+// Cheapest split of a run of letters
+function segmentLetters(text: string): string[] {
+  const { costs, unknownBase } = getDictionary()
+  const best: { cost: number; start: number }[] = [{ cost: 0, start: 0 }]
+
+  for (let end = 1; end <= text.length; end++) {
+    let entry = { cost: Infinity, start: 0 }
+    for (let start = 0; start < end; start++) {
+      const piece = text.slice(start, end)
+      const pieceCost = costs.get(piece) ?? unknownBase + UNKNOWN_LETTER_PENALTY * piece.length
+      const total = best[start].cost + pieceCost
+      if (total < entry.cost) {
+        entry = { cost: total, start }
+      }
+    }
+    best.push(entry)
+  }
+
+  const words: string[] = []
+  for (let end = text.length; end > 0; end = best[end].start) {
+    words.unshift(text.slice(best[end].start, end))
+  }
+  return words
+}
+
+/**
+ * Split a name into words. Hyphens, underscores and other separators always split;
+ * digit runs become their own (unknown) segments.
+ */
+export function segmentWords(text: string): Segmentation {
+  const runs = text.toLowerCase().match(/[a-z]+|[0-9]+/g) || []
+  const words = runs.flatMap(run => /^[0-9]/.test(run) ? [run] : segmentLetters(run))
+
+  const { costs } = getDictionary()
+  const unknown = words.filter(word => !costs.has(word))
+  const letters = words.filter(word => /^[a-z]/.test(word)).reduce((sum, word) => sum + word.length, 0)
+  const known = words.filter(word => costs.has(word)).reduce((sum, word) => sum + word.length, 0)
+
+  return {
+    words,
+    unknown,
+    coverage: letters > 0 ? Math.round((known / letters) * 100) / 100 : 0
+  }
+}
+
+/**
+ * Segmentation of a domain's second-level name (the TLD is dropped). Latin-script
+ * IDNs are segmented without diacritics; names in other scripts have no words.
+ */
+export function segmentDomainName(domain: string): Segmentation {
+  return segmentWords(toLatinName(domain) ?? '')
+}
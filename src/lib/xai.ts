@@ -1,41 +1,31 @@
 // xAI integration for domain brandability scoring
-// Based on javascript_xai blueprint
+// Based on javascript_xai blueprint - the model backend is chosen in ai-provider.ts
 
-import OpenAI from "openai";
+import { completeValidated, describeFallbackReason, brandabilitySchema, trafficSchema, trademarkSchema, availabilitySchema, comparablesSchema } from './ai-schemas';
 import { extractTLD, extractDomainName } from './tld-utils';
-
-let openai: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openai) {
-    const apiKey = process.env.XAI_API_KEY;
-    if (!apiKey) {
-      throw new Error("XAI_API_KEY environment variable is not set");
-    }
-    openai = new OpenAI({ 
-      baseURL: "https://api.x.ai/v1", 
-      apiKey: apiKey 
-    });
-  }
-  return openai;
-}
+import { getRdapClient, calculateAgeInYears } from './rdap';
+import { getWhoisClient } from './whois-client';
+import { scorePronounceability } from './pronounceability';
+import { toUnicodeDomain } from './idn';
+import type { WhoisData, ComparableSale } from '../types';
 
 export interface BrandabilityResult {
   score: number;
   commentary: string;
+  baselineScore?: number; // Local pronounceability/memorability score blended into `score`
+  fallbackReason?: string; // Set when heuristics were used instead of the AI response
 }
 
+// Share of the local linguistic score in the blended brandability score when the AI answers
+const BASELINE_WEIGHT = parseFloat(process.env.BRANDABILITY_BASELINE_WEIGHT || '0.3');
+
 export async function analyzeBrandability(domain: string): Promise<BrandabilityResult> {
+  const baseline = scorePronounceability(domain);
   try {
-    const client = getOpenAIClient();
-    
-    // Add timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: AI analysis took too long')), 10000) // 10 second timeout
-    });
-    
-    const analysisPromise = client.chat.completions.create({
-      model: "grok-2-1212",
+    const result = await completeValidated({
+      task: 'brandability',
+      subject: domain,
+      timeoutMs: 10000,
       messages: [
         {
           role: "system",
@@ -50,27 +40,25 @@ export async function analyzeBrandability(domain: string): Promise<BrandabilityR
         },
         {
           role: "user",
-          content: `Analyze the brandability of this domain: ${domain}`
+          content: `Analyze the brandability of this domain: ${toUnicodeDomain(domain)}`
         },
       ],
-      response_format: { type: "json_object" },
-    });
-    
-    const response = await Promise.race([analysisPromise, timeoutPromise]);
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    }, brandabilitySchema, { cache: true });
 
     return {
-      score: Math.max(0, Math.min(100, Math.round(result.score || 0))),
-      commentary: result.commentary || "Unable to analyze brandability at this time."
+      score: Math.round((1 - BASELINE_WEIGHT) * result.score + BASELINE_WEIGHT * baseline.score),
+      commentary: result.commentary,
+      baselineScore: baseline.score
     };
   } catch (error) {
     console.error('Brandability analysis failed:', error);
     
-    // Provide more informative fallback based on domain characteristics
-    const fallbackResult = analyzeBrandabilityFallback(domain);
+    // The local linguistic score stands in for the AI
     return {
-      score: fallbackResult.score,
-      commentary: `${fallbackResult.commentary} (AI analysis unavailable due to rate limits)`
+      score: baseline.score,
+      commentary: `${baseline.explanation} (AI analysis unavailable)`,
+      baselineScore: baseline.score,
+      fallbackReason: describeFallbackReason(error)
     };
   }
 }
@@ -78,21 +66,15 @@ export async function analyzeBrandability(domain: string): Promise<BrandabilityR
 export interface TrafficEstimate {
   monthlyTraffic: number;
   explanation: string;
+  fallbackReason?: string;
 }
 
 export async function estimateTraffic(domain: string): Promise<TrafficEstimate> {
   try {
-    const domainName = extractDomainName(domain)
-    
-    const client = getOpenAIClient();
-    
-    // Add timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: Traffic estimation took too long')), 8000) // 8 second timeout
-    });
-    
-    const analysisPromise = client.chat.completions.create({
-      model: "grok-2-1212",
+    const result = await completeValidated({
+      task: 'traffic',
+      subject: domain,
+      timeoutMs: 8000,
       messages: [
         {
           role: "system",
@@ -117,15 +99,11 @@ export async function estimateTraffic(domain: string): Promise<TrafficEstimate>
           content: `Estimate monthly traffic potential for this domain: ${domain}`
         },
       ],
-      response_format: { type: "json_object" },
-    });
-
-    const response = await Promise.race([analysisPromise, timeoutPromise]);
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    }, trafficSchema, { cache: true });
 
     return {
-      monthlyTraffic: Math.max(0, Math.round(result.monthlyTraffic || 100)),
-      explanation: result.explanation || "AI-based traffic estimate using domain characteristics."
+      monthlyTraffic: Math.round(result.monthlyTraffic),
+      explanation: result.explanation
     };
   } catch (error) {
     console.error('Traffic estimation failed:', error);
@@ -134,7 +112,8 @@ export async function estimateTraffic(domain: string): Promise<TrafficEstimate>
     const fallbackResult = estimateTrafficFallback(domain);
     return {
       monthlyTraffic: fallbackResult.monthlyTraffic,
-      explanation: `${fallbackResult.explanation} (AI analysis unavailable due to rate limits)`
+      explanation: `${fallbackResult.explanation} (AI analysis unavailable)`,
+      fallbackReason: describeFallbackReason(error)
     };
   }
 }
@@ -143,21 +122,17 @@ export interface TrademarkRisk {
   hasConflict: boolean;
   severity: 'clear' | 'warning' | 'severe';
   explanation: string;
+  fallbackReason?: string;
 }
 
 export async function analyzeTrademarkRisk(domain: string): Promise<TrademarkRisk> {
   try {
     const domainName = extractDomainName(domain)
     
-    const client = getOpenAIClient();
-    
-    // Add timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: Trademark analysis took too long')), 8000) // 8 second timeout
-    });
-    
-    const analysisPromise = client.chat.completions.create({
-      model: "grok-2-1212",
+    const result = await completeValidated({
+      task: 'trademark',
+      subject: domain,
+      timeoutMs: 8000,
       messages: [
         {
           role: "system",
@@ -180,16 +155,12 @@ export async function analyzeTrademarkRisk(domain: string): Promise<TrademarkRis
           content: `Analyze trademark risk for this domain name: ${domainName}`
         },
       ],
-      response_format: { type: "json_object" },
-    });
-
-    const response = await Promise.race([analysisPromise, timeoutPromise]);
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    }, trademarkSchema, { cache: true });
 
     return {
-      hasConflict: Boolean(result.hasConflict),
-      severity: result.severity || 'clear',
-      explanation: result.explanation || "AI-based trademark risk assessment."
+      hasConflict: result.hasConflict,
+      severity: result.severity,
+      explanation: result.explanation
     };
   } catch (error) {
     console.error('Trademark analysis failed:', error);
@@ -197,34 +168,42 @@ export async function analyzeTrademarkRisk(domain: string): Promise<TrademarkRis
     return {
       hasConflict: false,
       severity: 'clear',
-      explanation: "AI analysis unavailable due to rate limits. Manual trademark review recommended."
+      explanation: "AI analysis unavailable. Manual trademark review recommended.",
+      fallbackReason: describeFallbackReason(error)
     };
   }
 }
 
-export interface ComparableSale {
-  domain: string;
-  soldPrice: number;
-  soldDate: string;
-  source: string;
-  similarity?: number;
-}
+/**
+ * Registration data straight from the registry (RDAP, then port-43 WHOIS), or null when
+ * neither answers. Used where a guess is worse than no answer, e.g. checking many names at once.
+ */
+export async function lookupRegistryData(domain: string): Promise<WhoisData | null> {
+  try {
+    return await getRdapClient().lookup(domain)
+  } catch (error) {
+    console.log('RDAP data unavailable:', error instanceof Error ? error.message : 'Unknown error')
+  }
+
+  try {
+    return await getWhoisClient().lookup(domain)
+  } catch (error) {
+    console.log('Port-43 WHOIS data unavailable:', error instanceof Error ? error.message : 'Unknown error')
+  }
 
-export interface WhoisData {
-  domain: string;
-  isAvailable: boolean;
-  registrationDate?: string;
-  expirationDate?: string;
-  registrar?: string;
-  nameServers?: string[];
-  registrant?: string;
-  adminContact?: string;
-  ageInYears?: number;
-  status?: string;
-  lastUpdated?: string;
+  return null
 }
 
+/**
+ * Registration data for a domain: RDAP first, then port-43 WHOIS, then IP2WHOIS
+ * (when a key is configured), and finally an AI availability estimate
+ */
 export async function getWhoisData(domain: string): Promise<WhoisData> {
+  const registryData = await lookupRegistryData(domain)
+  if (registryData) {
+    return registryData
+  }
+
   const apiKey = process.env.IP2WHOIS_API_KEY
   
   if (!apiKey || apiKey.includes('your_') || apiKey.trim() === '') {
@@ -244,6 +223,9 @@ export async function getWhoisData(domain: string): Promise<WhoisData> {
     const whoisData: WhoisData = {
       domain: domain,
       isAvailable: !data.domain || data.domain === '',
+      dataSource: 'ip2whois',
+      fetchedAt: new Date().toISOString(),
+      confidence: 85, // Third-party mirror of registry WHOIS data
       registrationDate: data.create_date,
       expirationDate: data.expire_date,
       registrar: data.registrar?.name,
@@ -256,9 +238,7 @@ export async function getWhoisData(domain: string): Promise<WhoisData> {
     
     // Calculate age if registration date exists
     if (data.create_date) {
-      const creationDate = new Date(data.create_date)
-      const now = new Date()
-      whoisData.ageInYears = Math.floor(((now.getTime() - creationDate.getTime()) / (1000 * 60 * 60 * 24 * 365.25)) * 10) / 10
+      whoisData.ageInYears = calculateAgeInYears(data.create_date)
     }
     
     return whoisData
@@ -270,9 +250,9 @@ export async function getWhoisData(domain: string): Promise<WhoisData> {
 
 async function estimateAvailabilityWithAI(domain: string): Promise<WhoisData> {
   try {
-    const client = getOpenAIClient();
-    const response = await client.chat.completions.create({
-      model: "grok-2-1212",
+    const result = await completeValidated({
+      task: 'availability',
+      subject: domain,
       messages: [
         {
           role: "system",
@@ -292,40 +272,44 @@ async function estimateAvailabilityWithAI(domain: string): Promise<WhoisData> {
           content: `Estimate availability for domain: ${domain}`
         },
       ],
-      response_format: { type: "json_object" },
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    }, availabilitySchema);
 
     return {
       domain: domain,
-      isAvailable: Boolean(result.isAvailable),
-      status: result.isAvailable ? 'Likely Available (AI Estimate)' : 'Likely Registered (AI Estimate)'
+      isAvailable: result.isAvailable,
+      status: result.isAvailable ? 'Likely Available (AI Estimate)' : 'Likely Registered (AI Estimate)',
+      dataSource: 'ai_estimate',
+      fetchedAt: new Date().toISOString(),
+      confidence: Math.round(result.confidence)
     }
   } catch (error) {
     console.error('AI availability estimation failed:', error);
     return {
       domain: domain,
       isAvailable: false, // Conservative assumption
-      status: 'Unknown'
+      status: 'Unknown',
+      dataSource: 'ai_estimate',
+      fetchedAt: new Date().toISOString(),
+      confidence: 0,
+      fallbackReason: describeFallbackReason(error)
     }
   }
 }
 
-export async function generateRealisticComparables(domain: string, limit: number = 5): Promise<ComparableSale[]> {
+export interface ComparablesResult {
+  comparables: ComparableSale[];
+  fallbackReason?: string;
+}
+
+export async function generateRealisticComparables(domain: string, limit: number = 5): Promise<ComparablesResult> {
   try {
     const domainName = extractDomainName(domain)
     const tld = extractTLD(domain)
     
-    const client = getOpenAIClient();
-    
-    // Add timeout to prevent hanging
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('Timeout: Comparables generation took too long')), 8000) // 8 second timeout
-    });
-    
-    const analysisPromise = client.chat.completions.create({
-      model: "grok-2-1212",
+    const result = await completeValidated({
+      task: 'comparables',
+      subject: domain,
+      timeoutMs: 8000,
       messages: [
         {
           role: "system",
@@ -351,123 +335,35 @@ export async function generateRealisticComparables(domain: string, limit: number
           
           Generate ${limit} similar domains that would realistically sell in the same price range.
           Use real-sounding domain names and recent dates (2023-2024).
-          Respond with JSON array: [{"domain": "example.com", "soldPrice": 1200, "soldDate": "2023-MM-DD", "source": "NameBio|Sedo|GoDaddy|Flippa", "similarity": 70}]`
+          Respond with JSON in this format: { "comparables": [{"domain": "example.com", "soldPrice": 1200, "soldDate": "2023-MM-DD", "source": "NameBio|Sedo|GoDaddy|Flippa", "similarity": 70}] }`
         },
         {
           role: "user",
           content: `Generate realistic comparable sales for domain: ${domain} (focusing on domains similar to "${domainName}.${tld}")`
         },
       ],
-      response_format: { type: "json_object" },
-    });
-
-    const response = await Promise.race([analysisPromise, timeoutPromise]);
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-    
-    if (result.comparables && Array.isArray(result.comparables)) {
-      return result.comparables.map((comp: any) => ({
-        domain: comp.domain || `similar${Math.floor(Math.random() * 1000)}.${tld}`,
-        soldPrice: Math.max(100, Math.round(comp.soldPrice || 500)),
-        soldDate: comp.soldDate || '2023-08-15',
-        source: comp.source || 'AI Generated',
-        similarity: Math.max(0, Math.min(100, comp.similarity || 60))
-      })).slice(0, limit);
-    }
+    }, comparablesSchema);
     
-    // Fallback if AI doesn't return expected format
-    return generateComparablesFallback(domain, limit);
+    return {
+      comparables: result.comparables.map(comp => ({
+        domain: comp.domain.toLowerCase(),
+        soldPrice: Math.round(comp.soldPrice),
+        soldDate: comp.soldDate,
+        source: comp.source,
+        similarity: Math.round(comp.similarity),
+        synthetic: true
+      })).slice(0, limit)
+    };
   } catch (error) {
     console.error('Failed to generate realistic comparables:', error);
-    return generateComparablesFallback(domain, limit);
+    return {
+      comparables: generateComparablesFallback(domain, limit),
+      fallbackReason: describeFallbackReason(error)
+    };
   }
 }
 
 // Fallback functions for when AI analysis is unavailable
-function analyzeBrandabilityFallback(domain: string): BrandabilityResult {
-  const domainName = extractDomainName(domain)
-  const tld = extractTLD(domain)
-  const length = domainName.length
-  
-  // Advanced brandability analysis
-  const hasHyphen = domainName.includes('-')
-  const hasNumber = /\d/.test(domainName)
-  const hasSpecialChars = /[^a-z0-9\-]/.test(domainName)
-  const vowelCount = (domainName.match(/[aeiou]/g) || []).length
-  const consonantCount = domainName.length - vowelCount
-  const vowelRatio = vowelCount / domainName.length
-  
-  // Check for difficult consonant clusters
-  const hardConsonants = domainName.match(/[qxzjk]{2,}|[bcdfghjklmnpqrstvwxyz]{4,}/g)
-  const isPronounceable = !hardConsonants && vowelRatio >= 0.2 && vowelRatio <= 0.6
-  
-  // Check for brandable patterns
-  const hasDoubleLetters = /(.)\1/.test(domainName)
-  const endsWith_ly_er_ed = /(?:ly|er|ed|ing|tion)$/.test(domainName)
-  const hasCommonPrefixes = /^(?:un|re|pre|anti|auto|co|de|dis|ex|il|im|in|ir|inter|mega|micro|mid|mis|non|over|out|post|pre|pro|sub|super|trans|ultra|under)/.test(domainName)
-  
-  // Industry relevance keywords
-  const brandableKeywords = [
-    'tech', 'app', 'web', 'net', 'smart', 'pro', 'max', 'plus', 'prime', 'elite', 'ace', 'zen', 'flex', 'swift', 'cloud', 'hub', 'lab', 'studio', 'works', 'corp', 'inc'
-  ]
-  const hasIndustryKeywords = brandableKeywords.some(keyword => domainName.includes(keyword))
-  
-  let score = 65 // Improved base score
-  
-  // Length optimization (sweet spot is 4-8 characters)
-  if (length >= 4 && length <= 6) score += 25
-  else if (length === 7 || length === 8) score += 15
-  else if (length === 3) score += 10
-  else if (length >= 9 && length <= 11) score -= 5
-  else if (length >= 12) score -= 20
-  else if (length <= 2) score -= 30
-  
-  // Composition analysis
-  if (hasHyphen) score -= 20
-  if (hasNumber && length <= 8) score -= 8 // Numbers less bad in short domains
-  else if (hasNumber) score -= 15
-  if (hasSpecialChars) score -= 25
-  if (!isPronounceable) score -= 25
-  if (hasDoubleLetters && length <= 8) score += 5 // Can be memorable
-  
-  // Advanced brandability factors
-  if (endsWith_ly_er_ed) score += 8 // Natural word endings
-  if (hasCommonPrefixes) score += 5 // Familiar prefixes
-  if (hasIndustryKeywords) score += 12 // Industry relevance
-  
-  // TLD premium scoring
-  const tldScores: Record<string, number> = {
-    'com': 20, 'net': 8, 'org': 6, 'io': 15, 'ai': 12, 'co': 10, 
-    'app': 8, 'tech': 6, 'dev': 5, 'me': 4, 'tv': 3, 'cc': 2
-  }
-  score += tldScores[tld] || -5
-  
-  // Ensure realistic scoring range
-  score = Math.max(15, Math.min(90, score))
-  
-  // Generate professional commentary
-  let commentary = `${domainName.toUpperCase()} analysis: `
-  
-  if (length <= 6) commentary += `Excellent ${length}-character length for memorability. `
-  else if (length <= 8) commentary += `Good ${length}-character length with strong recall potential. `
-  else if (length <= 12) commentary += `Moderate ${length}-character length, still manageable. `
-  else commentary += `Long ${length}-character domain may impact memorability. `
-  
-  if (!hasHyphen && !hasNumber) commentary += `Clean alphabetic composition enhances professionalism. `
-  else if (hasHyphen) commentary += `Hyphenation reduces brandability and creates typing friction. `
-  else if (hasNumber) commentary += `Numeric elements may impact brand coherence. `
-  
-  if (isPronounceable) commentary += `Phonetically accessible for verbal marketing. `
-  else commentary += `Complex phonetics may challenge verbal transmission. `
-  
-  const tldQuality = tldScores[tld] || 0
-  if (tldQuality >= 15) commentary += `Premium .${tld.toUpperCase()} extension adds significant brand value.`
-  else if (tldQuality >= 8) commentary += `Solid .${tld.toUpperCase()} extension with good market acceptance.`
-  else if (tldQuality >= 0) commentary += `Standard .${tld.toUpperCase()} extension with basic market recognition.`
-  else commentary += `Alternative .${tld.toUpperCase()} extension may require additional brand building.`
-  
-  return { score, commentary }
-}
-
 function estimateTrafficFallback(domain: string): TrafficEstimate {
   const domainName = extractDomainName(domain)
   const tld = extractTLD(domain)
@@ -619,7 +515,8 @@ function generateComparablesFallback(domain: string, limit: number = 5): Compara
       soldPrice: Math.max(100, price),
       soldDate: new Date(2023 + Math.floor(Math.random() * 2), Math.floor(Math.random() * 12), Math.floor(Math.random() * 28) + 1).toISOString().split('T')[0],
       source: ['Conservative Estimate', 'Market Analysis', 'Domain Index'][Math.floor(Math.random() * 3)],
-      similarity: similarity
+      similarity: similarity,
+      synthetic: true
     })
   }
   
@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+// Score the valuation model against real sales from domain_sales.
+//
+// Usage:
+//   npm run backtest -- [--sample=200] [--seed=domainosaur] [--min-price=100] [--since=2018-01-01]
+//                       [--no-comps] [--profile=wholesale-investor] [--out=backtest-report]
+//
+// Writes <out>.json and <out>.html. Uses the configured storage driver (e.g.
+// STORAGE_DRIVER=postgres with DATABASE_URL after `npm run import:sales`).
+
+import fs from 'fs'
+import path from 'path'
+import { initDatabase } from '../lib/database'
+import { runBacktest, type BacktestOptions } from '../lib/backtest'
+import { renderBacktestHtml } from '../lib/backtest-report'
+
+function parseArgs(argv: string[]): BacktestOptions & { out: string; verbose: boolean } {
+  const options: BacktestOptions & { out: string; verbose: boolean } = { out: 'backtest-report', verbose: false }
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=')
+    if (flag === '--sample') options.sampleSize = parseInt(value, 10)
+    else if (flag === '--seed') options.seed = value
+    else if (flag === '--min-price') options.minPrice = parseInt(value, 10)
+    else if (flag === '--since') options.since = value
+    else if (flag === '--no-comps') options.useComps = false
+    else if (flag === '--profile') options.weightProfile = value
+    else if (flag === '--concurrency') options.concurrency = parseInt(value, 10)
+    else if (flag === '--out') options.out = value
+    else if (flag === '--verbose') options.verbose = true
+  }
+  return options
+}
+
+async function main() {
+  const { out, verbose, ...options } = parseArgs(process.argv.slice(2))
+
+  // The valuation code logs every lookup; keep the output readable unless asked
+  const log = console.log
+  if (!verbose) {
+    console.log = () => {}
+    console.error = () => {}
+    console.warn = () => {}
+  }
+
+  await initDatabase()
+  const report = await runBacktest(options)
+
+  const jsonPath = path.resolve(`${out}.json`)
+  const htmlPath = path.resolve(`${out}.html`)
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2))
+  fs.writeFileSync(htmlPath, renderBacktestHtml(report))
+
+  const { overall } = report
+  const pct = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`)
+  log(`Appraised ${overall.count} sales (${report.failures.length} failed)`)
+  log(`Median abs % error (retail): ${pct(overall.medianAbsPctError)}`)
+  log(`Bracket hit-rate:            ${pct(overall.bracketHitRate)}`)
+  log(`Rank correlation:            ${overall.rankCorrelation === null ? 'n/a' : overall.rankCorrelation.toFixed(3)}`)
+  log(`Reports written to ${jsonPath} and ${htmlPath}`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    process.stderr.write(`Backtest failed: ${error instanceof Error ? error.stack : String(error)}\n`)
+    process.exit(1)
+  })
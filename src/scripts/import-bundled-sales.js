@@ -0,0 +1,421 @@
+#!/usr/bin/env node
+
+// Import the bundled data/domainnamesales.zip into the domain_sales table.
+//
+// Usage:
+//   node src/scripts/import-bundled-sales.js [--dry-run] [--rejects=path.tsv] [--zip=path.zip]
+//
+// The import is idempotent: rows are loaded into a staging table with COPY and
+// merged with ON CONFLICT DO NOTHING against a unique (domain, date, price) index,
+// so re-running it never duplicates sales. Duplicates already in the table (from an
+// earlier manual upload) are removed once, before that index is created.
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+const { Pool } = require('pg');
+const csv = require('csv-parser');
+const { from: copyFrom } = require('pg-copy-streams');
+
+const DEFAULT_ZIP_PATH = path.join(__dirname, '../../data/domainnamesales.zip');
+const TSV_ENTRY_NAME = 'domain-name-sales.tsv';
+
+const MAX_PRICE = 100000000; // Anything above $100M is treated as a data error
+const MIN_YEAR = 1990;
+
+// Canonical spelling for venues that appear with inconsistent casing/suffixes
+const VENUE_ALIASES = {
+  'godaddy': 'GoDaddy',
+  'godaddy auctions': 'GoDaddy',
+  'namejet': 'NameJet',
+  'dropcatch': 'DropCatch',
+  'dropcatch.com': 'DropCatch',
+  'buydomains': 'BuyDomains',
+  'sedo': 'Sedo',
+  'dynadot': 'Dynadot',
+  'flippa': 'Flippa',
+  'park.io': 'Park.io',
+  'afternic': 'Afternic',
+  'dan.com': 'DAN.com',
+  'namepull': 'NamePull.com',
+  'namepull.com': 'NamePull.com',
+  'sav': 'Sav.com',
+  'sav.com': 'Sav.com',
+  'private': 'Private'
+};
+
+// ---------------------------------------------------------------------------
+// Zip reading (single entry, stored or deflated) without extra dependencies
+// ---------------------------------------------------------------------------
+
+function openZipEntry(zipPath, entryName) {
+  const fd = fs.openSync(zipPath, 'r');
+
+  try {
+    const { size } = fs.fstatSync(fd);
+
+    // Locate the end of central directory record (max comment length is 64KB)
+    const tailLength = Math.min(size, 22 + 0xffff);
+    const tail = Buffer.alloc(tailLength);
+    fs.readSync(fd, tail, 0, tailLength, size - tailLength);
+
+    let eocd = -1;
+    for (let i = tailLength - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error(`${zipPath} is not a valid zip archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    const directory = Buffer.alloc(directorySize);
+    fs.readSync(fd, directory, 0, directorySize, directoryOffset);
+
+    // Walk the central directory to find the requested entry
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== 0x02014b50) {
+        throw new Error('Corrupt zip central directory');
+      }
+
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      if (path.basename(name) === entryName) {
+        const localHeader = Buffer.alloc(30);
+        fs.readSync(fd, localHeader, 0, 30, localHeaderOffset);
+        const dataStart = localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+        const raw = fs.createReadStream(zipPath, { start: dataStart, end: dataStart + compressedSize - 1 });
+        if (method === 0) return raw;
+        if (method === 8) return raw.pipe(zlib.createInflateRaw());
+        throw new Error(`Unsupported zip compression method ${method}`);
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    throw new Error(`${entryName} not found in ${zipPath}`);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Row normalization
+// ---------------------------------------------------------------------------
+
+function normalizeDomain(raw) {
+  if (!raw) return null;
+
+  const domain = raw
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '')
+    .replace(/[‐-―]/g, '-') // En/em dashes exported instead of hyphens
+    .replace(/×/g, 'x'); // Multiplication sign exported instead of "x"
+
+  if (!/^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)+$/.test(domain)) {
+    return null;
+  }
+
+  return domain;
+}
+
+function normalizePrice(raw) {
+  if (!raw) return null;
+
+  const cleaned = raw.replace(/usd|\$|,|\s/gi, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+
+  const price = Math.round(parseFloat(cleaned));
+  if (price < 1 || price > MAX_PRICE) return null;
+
+  return price;
+}
+
+function normalizeDate(raw) {
+  if (!raw) return null;
+
+  const value = raw.trim();
+  let year, month, day;
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) {
+    [, year, month, day] = match;
+  } else if ((match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [, month, day, year] = match; // US format MM/DD/YYYY
+  } else if ((match = value.match(/^(\d{4})-(\d{1,2})$/))) {
+    [, year, month] = match;
+    day = '1';
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCFullYear() < MIN_YEAR ||
+    date.getTime() > Date.now()
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+function normalizeVenue(raw) {
+  const venue = (raw || '').trim().replace(/\s+/g, ' ');
+  if (!venue) return 'Unknown';
+
+  return VENUE_ALIASES[venue.toLowerCase()] || venue;
+}
+
+/**
+ * Normalize a raw TSV row, returning either a clean sale or a rejection reason
+ */
+function normalizeRow(row) {
+  const domain = normalizeDomain(row.domain);
+  if (!domain) return { reason: 'invalid_domain' };
+
+  const price = normalizePrice(row.price);
+  if (price === null) return { reason: 'invalid_price' };
+
+  const date = normalizeDate(row.date);
+  if (!date) return { reason: 'invalid_date' };
+
+  return { sale: { date, domain, price, venue: normalizeVenue(row.venue) } };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Stream, normalize and deduplicate the bundled sales file
+ */
+function readBundledSales(zipPath, onRejected) {
+  return new Promise((resolve, reject) => {
+    const sales = [];
+    const seen = new Set();
+    const rejected = {};
+    let total = 0;
+    let duplicates = 0;
+
+    const input = openZipEntry(zipPath, TSV_ENTRY_NAME);
+    input.on('error', reject);
+
+    input
+      .pipe(csv({ separator: '\t', quote: '\0' }))
+      .on('data', (row) => {
+        total++;
+        const { sale, reason } = normalizeRow(row);
+
+        if (!sale) {
+          rejected[reason] = (rejected[reason] || 0) + 1;
+          if (onRejected) onRejected(row, reason);
+          return;
+        }
+
+        const key = `${sale.domain}|${sale.date}|${sale.price}`;
+        if (seen.has(key)) {
+          duplicates++;
+          return;
+        }
+        seen.add(key);
+        sales.push(sale);
+      })
+      .on('end', () => resolve({ sales, total, duplicates, rejected }))
+      .on('error', reject);
+  });
+}
+
+function toCopyLine(sale) {
+  // Values are already normalized, so tabs/newlines/backslashes only occur in venues
+  const venue = sale.venue.replace(/[\t\n\r\\]/g, ' ');
+  return `${sale.date}\t${sale.domain}\t${sale.price}\t${venue}\n`;
+}
+
+async function ensureSchema(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS domain_sales (
+      id SERIAL PRIMARY KEY,
+      date DATE NOT NULL,
+      domain VARCHAR(255) NOT NULL,
+      price INTEGER NOT NULL,
+      venue VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Tables filled by the earlier manual CSV upload can hold the same sale more than once, which
+  // would stop the unique index from being created; keep the first copy of each before adding it
+  const { rows } = await client.query("SELECT to_regclass('idx_domain_sales_unique_sale') AS existing");
+  if (!rows[0].existing) {
+    await client.query('BEGIN');
+    try {
+      const removed = await client.query(`
+        DELETE FROM domain_sales a USING domain_sales b
+        WHERE a.domain = b.domain AND a.date = b.date AND a.price = b.price AND a.id > b.id
+      `);
+      if (removed.rowCount) {
+        console.log(`Removed ${removed.rowCount.toLocaleString()} duplicate sales already in domain_sales`);
+      }
+      await client.query('CREATE UNIQUE INDEX idx_domain_sales_unique_sale ON domain_sales (domain, date, price)');
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  await client.query('CREATE INDEX IF NOT EXISTS idx_domain_sales_date ON domain_sales (date)');
+  await client.query('CREATE INDEX IF NOT EXISTS idx_domain_sales_price ON domain_sales (price)');
+}
+
+/**
+ * Load normalized sales into domain_sales, skipping rows that already exist
+ */
+async function loadSales(pool, sales) {
+  const client = await pool.connect();
+
+  try {
+    await ensureSchema(client);
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TEMP TABLE domain_sales_staging (
+        date DATE NOT NULL,
+        domain VARCHAR(255) NOT NULL,
+        price INTEGER NOT NULL,
+        venue VARCHAR(255) NOT NULL
+      ) ON COMMIT DROP
+    `);
+
+    await new Promise((resolve, reject) => {
+      const stream = client.query(copyFrom('COPY domain_sales_staging (date, domain, price, venue) FROM STDIN'));
+      stream.on('error', reject);
+      stream.on('finish', resolve);
+
+      let index = 0;
+      const writeChunk = () => {
+        while (index < sales.length) {
+          if (!stream.write(toCopyLine(sales[index++]))) {
+            stream.once('drain', writeChunk);
+            return;
+          }
+        }
+        stream.end();
+      };
+      writeChunk();
+    });
+
+    const result = await client.query(`
+      INSERT INTO domain_sales (date, domain, price, venue)
+      SELECT date, domain, price, venue FROM domain_sales_staging
+      ON CONFLICT (domain, date, price) DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    return result.rowCount || 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function importBundledSales({ zipPath = DEFAULT_ZIP_PATH, dryRun = false, rejectsPath } = {}) {
+  const rejectsFile = rejectsPath ? fs.createWriteStream(rejectsPath) : null;
+  if (rejectsFile) rejectsFile.write('reason\tdate\tdomain\tprice\tvenue\n');
+
+  console.log(`Reading ${TSV_ENTRY_NAME} from ${zipPath}...`);
+  const { sales, total, duplicates, rejected } = await readBundledSales(zipPath, (row, reason) => {
+    if (rejectsFile) {
+      rejectsFile.write(`${reason}\t${row.date || ''}\t${row.domain || ''}\t${row.price || ''}\t${row.venue || ''}\n`);
+    }
+  });
+  if (rejectsFile) await new Promise((resolve) => rejectsFile.end(resolve));
+
+  const rejectedCount = Object.values(rejected).reduce((sum, count) => sum + count, 0);
+
+  console.log(`Rows read: ${total.toLocaleString()}`);
+  console.log(`Valid sales: ${sales.length.toLocaleString()}`);
+  console.log(`Duplicates skipped: ${duplicates.toLocaleString()}`);
+  console.log(`Rejected: ${rejectedCount.toLocaleString()}`);
+  for (const [reason, count] of Object.entries(rejected)) {
+    console.log(`  ${reason}: ${count.toLocaleString()}`);
+  }
+  if (rejectsPath && rejectedCount > 0) {
+    console.log(`Rejected rows written to ${rejectsPath}`);
+  }
+
+  let inserted = 0;
+  if (dryRun) {
+    console.log('Dry run - nothing written to the database');
+  } else {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL environment variable is not set');
+    }
+
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    try {
+      inserted = await loadSales(pool, sales);
+    } finally {
+      await pool.end();
+    }
+    console.log(`Inserted: ${inserted.toLocaleString()} new sales (${(sales.length - inserted).toLocaleString()} already present)`);
+  }
+
+  return { total, valid: sales.length, duplicates, rejected, inserted };
+}
+
+function parseArgs(argv) {
+  const options = {};
+  for (const arg of argv) {
+    if (arg === '--dry-run') options.dryRun = true;
+    else if (arg.startsWith('--rejects=')) options.rejectsPath = arg.slice('--rejects='.length);
+    else if (arg.startsWith('--zip=')) options.zipPath = arg.slice('--zip='.length);
+  }
+  return options;
+}
+
+// Run the import
+if (require.main === module) {
+  importBundledSales(parseArgs(process.argv.slice(2)))
+    .then(() => {
+      console.log('Domain sales import completed successfully!');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Import failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = {
+  importBundledSales,
+  readBundledSales,
+  ensureSchema,
+  normalizeRow,
+  normalizeDomain,
+  normalizePrice,
+  normalizeDate,
+  normalizeVenue
+};
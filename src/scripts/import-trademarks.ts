@@ -0,0 +1,296 @@
+#!/usr/bin/env tsx
+
+// Build a local trademark file from USPTO or EUIPO bulk exports, for TRADEMARKS_PATH.
+//
+// Usage:
+//   npm run import:trademarks -- [--office=USPTO|EUIPO] [--out=data/trademarks-imported.json]
+//                                [--append] [--include-dead] <file or directory>...
+//
+// Reads USPTO daily/annual XML (<case-file> records), EUIPO XML (<TradeMark> records) and CSV/TSV
+// exports, gzipped or not; directories are read file by file. CSV columns are matched by common
+// header names (mark, registration_number, serial_number, classes, status, owner, ...) and need
+// --office to say where they came from. Dead filings are skipped unless --include-dead is given,
+// and design marks without words are always skipped. --append merges into an existing --out file,
+// replacing filings with the same office and number. Restart the app after importing.
+
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import csv from 'csv-parser'
+import type { Readable } from 'stream'
+import { normalizeMark, type TrademarkFile } from '../lib/trademark-store'
+import type { TrademarkRecord, TrademarkStatus } from '../types'
+
+interface ImportArgs {
+  office?: string
+  out: string
+  append: boolean
+  includeDead: boolean
+  inputs: string[]
+}
+
+const READABLE_EXTENSIONS = ['.xml', '.csv', '.tsv', '.txt']
+
+// Normalized CSV header names for each field, first match wins
+const CSV_COLUMNS = {
+  mark: ['mark', 'markidentification', 'markidchar', 'wordmark', 'markverbalelementtext', 'trademark'],
+  registrationNumber: ['registrationnumber', 'registrationno', 'regno'],
+  applicationNumber: ['serialnumber', 'serialno', 'applicationnumber', 'applicationno'],
+  classes: ['classes', 'niceclasses', 'class', 'internationalclass', 'internationalcode', 'classnumber'],
+  status: ['status', 'statuscode', 'markcurrentstatuscode', 'markstatus'],
+  owner: ['owner', 'ownername', 'applicant', 'applicantname', 'partyname']
+}
+
+function parseArgs(argv: string[]): ImportArgs {
+  const options: ImportArgs = {
+    out: path.join('data', 'trademarks-imported.json'),
+    append: false,
+    includeDead: false,
+    inputs: []
+  }
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=')
+    if (flag === '--office') options.office = value.toUpperCase()
+    else if (flag === '--out') options.out = value
+    else if (flag === '--append') options.append = true
+    else if (flag === '--include-dead') options.includeDead = true
+    else if (!flag.startsWith('--')) options.inputs.push(arg)
+  }
+  return options
+}
+
+/**
+ * Filing status from an office's status code or text. USPTO codes 800-899 are registered and
+ * 600-799 abandoned, cancelled or expired; anything else is still pending.
+ */
+export function normalizeStatus(value: string | undefined): TrademarkStatus {
+  const status = (value || '').trim().toLowerCase()
+  if (/^\d+$/.test(status)) {
+    const code = parseInt(status, 10)
+    if (code >= 800 && code <= 899) return 'registered'
+    if (code >= 600 && code <= 799) return 'dead'
+    return 'pending'
+  }
+  if (/expired|cancel|withdraw|refus|abandon|lapse|surrender|invalid|dead/.test(status)) return 'dead'
+  if (/regist|live/.test(status)) return 'registered'
+  return 'pending'
+}
+
+// Nice classes 1-45 from "9, 42", "009|042" or repeated class tags; US-only classes are dropped
+function parseClasses(values: string[]): number[] {
+  const classes = values
+    .flatMap(value => value.split(/[^0-9]+/))
+    .filter(Boolean)
+    .map(value => parseInt(value, 10))
+    .filter(niceClass => niceClass >= 1 && niceClass <= 45)
+  return Array.from(new Set(classes)).sort((a, b) => a - b)
+}
+
+function buildRecord(office: string, fields: { mark?: string; registrationNumber?: string; applicationNumber?: string; classes: string[]; status?: string; owner?: string }): TrademarkRecord | null {
+  const mark = (fields.mark || '').trim()
+  const normalized = normalizeMark(mark)
+  if (!normalized) return null
+
+  // USPTO pads missing registration numbers with zeros; fall back to the serial/application number
+  const registrationNumber = [fields.registrationNumber, fields.applicationNumber]
+    .map(number => (number || '').trim())
+    .find(number => number && !/^0+$/.test(number))
+
+  return {
+    mark,
+    normalized,
+    office,
+    registrationNumber,
+    owner: fields.owner?.trim() || undefined,
+    classes: parseClasses(fields.classes),
+    status: normalizeStatus(fields.status)
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+// Text of every <tag> (with any namespace prefix) in a block
+function xmlValues(block: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g')
+  return Array.from(block.matchAll(pattern), match => decodeXml(match[1]))
+}
+
+function firstXmlValue(block: string, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const value = xmlValues(block, tag).find(Boolean)
+    if (value) return value
+  }
+  return undefined
+}
+
+/**
+ * A filing from one USPTO <case-file> or EUIPO <TradeMark> element
+ */
+export function parseTrademarkXmlBlock(tag: string, block: string): TrademarkRecord | null {
+  if (tag === 'case-file') {
+    return buildRecord('USPTO', {
+      mark: firstXmlValue(block, ['mark-identification']),
+      registrationNumber: firstXmlValue(block, ['registration-number']),
+      applicationNumber: firstXmlValue(block, ['serial-number']),
+      classes: xmlValues(block, 'international-code'),
+      status: firstXmlValue(block, ['status-code']),
+      owner: firstXmlValue(block, ['party-name'])
+    })
+  }
+  return buildRecord('EUIPO', {
+    mark: firstXmlValue(block, ['MarkVerbalElementText']),
+    registrationNumber: firstXmlValue(block, ['RegistrationNumber']),
+    applicationNumber: firstXmlValue(block, ['ApplicationNumber']),
+    classes: xmlValues(block, 'ClassNumber'),
+    status: firstXmlValue(block, ['MarkCurrentStatusCode']),
+    owner: firstXmlValue(block, ['ApplicantName', 'OrganizationName', 'FreeFormatNameLine'])
+  })
+}
+
+/**
+ * A filing from one CSV row, keyed by normalized header names
+ */
+export function parseTrademarkCsvRow(row: Record<string, string>, office: string): TrademarkRecord | null {
+  const column = (names: string[]) => names.map(name => row[name]).find(value => value !== undefined && value !== '')
+  return buildRecord(office, {
+    mark: column(CSV_COLUMNS.mark),
+    registrationNumber: column(CSV_COLUMNS.registrationNumber),
+    applicationNumber: column(CSV_COLUMNS.applicationNumber),
+    classes: CSV_COLUMNS.classes.map(name => row[name]).filter(Boolean),
+    status: column(CSV_COLUMNS.status),
+    owner: column(CSV_COLUMNS.owner)
+  })
+}
+
+function openInput(filePath: string): Readable {
+  const raw = fs.createReadStream(filePath)
+  return filePath.endsWith('.gz') ? raw.pipe(zlib.createGunzip()) : raw
+}
+
+// Start tag of a filing element, with any namespace prefix
+const XML_RECORD_START = /<(?:[\w-]+:)?(?:case-file|TradeMark)[\s>]/
+
+// A start tag with no end tag this far on is malformed (USPTO case files run to tens of kilobytes)
+const MAX_XML_RECORD_LENGTH = 4 * 1024 * 1024
+
+// Drop text that cannot be part of a filing: everything before the next start tag, or before
+// the last "<" (which may be a start tag split across chunks) when there is none
+function trimXmlBuffer(buffer: string): string {
+  const start = buffer.search(XML_RECORD_START)
+  if (start >= 0) return buffer.slice(start)
+  const lastTag = buffer.lastIndexOf('<')
+  return lastTag >= 0 ? buffer.slice(lastTag) : ''
+}
+
+// Bulk XML files run to gigabytes, so records are cut out of the stream one element at a time
+export async function* readXmlRecords(filePath: string): AsyncGenerator<TrademarkRecord | null> {
+  const element = /<(?:[\w-]+:)?(case-file|TradeMark)(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w-]+:)?\1>/g
+  let buffer = ''
+  for await (const chunk of openInput(filePath).setEncoding('utf8')) {
+    buffer += chunk
+    let consumed = 0
+    element.lastIndex = 0
+    for (let match = element.exec(buffer); match; match = element.exec(buffer)) {
+      yield parseTrademarkXmlBlock(match[1], match[2])
+      consumed = element.lastIndex
+    }
+    buffer = trimXmlBuffer(buffer.slice(consumed))
+    if (buffer.length > MAX_XML_RECORD_LENGTH) {
+      // Skip the unclosed filing and look for the next one
+      yield null
+      buffer = trimXmlBuffer(buffer.slice(1))
+    }
+  }
+}
+
+async function* readCsvRecords(filePath: string, office: string): AsyncGenerator<TrademarkRecord | null> {
+  const separator = /\.tsv(\.gz)?$/.test(filePath) ? '\t' : ','
+  const rows = openInput(filePath).pipe(csv({
+    separator,
+    mapHeaders: ({ header }) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+  }))
+  for await (const row of rows) {
+    yield parseTrademarkCsvRow(row, office)
+  }
+}
+
+function listInputFiles(inputs: string[]): string[] {
+  return inputs.flatMap(input => {
+    if (!fs.statSync(input).isDirectory()) return [input]
+    return fs.readdirSync(input)
+      .filter(name => READABLE_EXTENSIONS.some(extension => name.endsWith(extension) || name.endsWith(`${extension}.gz`)))
+      .sort()
+      .map(name => path.join(input, name))
+  })
+}
+
+const recordKey = (record: TrademarkRecord) => `${record.office}:${record.registrationNumber || record.normalized}`
+
+function writeTrademarkFile(outPath: string, file: TrademarkFile): void {
+  // One record per line keeps the file greppable and diffs between imports readable
+  const lines = file.records.map(record => `    ${JSON.stringify(record)}`).join(',\n')
+  fs.writeFileSync(
+    outPath,
+    `{\n  "format": ${file.format},\n  "updatedAt": "${file.updatedAt}",\n  "sources": ${JSON.stringify(file.sources)},\n  "records": [\n${lines}\n  ]\n}\n`
+  )
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.inputs.length === 0) {
+    throw new Error('No input files given')
+  }
+
+  const outPath = path.resolve(args.out)
+  const existing: TrademarkFile | undefined = args.append && fs.existsSync(outPath)
+    ? JSON.parse(fs.readFileSync(outPath, 'utf8'))
+    : undefined
+  const records = new Map((existing?.records || []).map(record => [recordKey(record), record]))
+  const sources = new Set(existing?.sources || [])
+
+  for (const filePath of listInputFiles(args.inputs)) {
+    const isXml = /\.xml(\.gz)?$/.test(filePath)
+    if (!isXml && !args.office) {
+      throw new Error(`${filePath}: CSV exports need --office=USPTO or --office=EUIPO`)
+    }
+
+    let imported = 0
+    let skipped = 0
+    const reader = isXml ? readXmlRecords(filePath) : readCsvRecords(filePath, args.office as string)
+    for await (const record of reader) {
+      if (!record || (record.status === 'dead' && !args.includeDead)) {
+        skipped++
+        continue
+      }
+      records.set(recordKey(record), record)
+      imported++
+    }
+    sources.add(path.basename(filePath))
+    console.log(`${path.basename(filePath)}: ${imported} filings imported, ${skipped} skipped`)
+  }
+
+  writeTrademarkFile(outPath, {
+    format: 1,
+    updatedAt: new Date().toISOString().slice(0, 10),
+    sources: Array.from(sources),
+    records: Array.from(records.values())
+  })
+  console.log(`Wrote ${records.size} filings to ${outPath}`)
+  console.log(`Set TRADEMARKS_PATH=${outPath} to use them`)
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      process.stderr.write(`Trademark import failed: ${error instanceof Error ? error.stack : String(error)}\n`)
+      process.exit(1)
+    })
+}
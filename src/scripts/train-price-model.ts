@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+
+// Fit the price model to recorded sales and write the versioned artifact.
+//
+// Usage:
+//   npm run train:price-model -- [--source=db|zip] [--zip=path.zip] [--limit=100000] [--seed=price-model]
+//                                [--min-price=1] [--since=2015-01-01] [--lambda=1] [--out=data/price-model.json]
+//
+// --source=db (default) reads domain_sales through the configured storage driver, taking a
+// reproducible sample of up to --limit rows. --source=zip reads the bundled archive directly,
+// which needs no database. Restart the app (or rebuild) after retraining to pick up the new model.
+
+import fs from 'fs'
+import path from 'path'
+import { initDatabase, getStorage } from '../lib/database'
+import { trainPriceModel, type PriceModelSale } from '../lib/price-model'
+import { readBundledSales } from './import-bundled-sales'
+
+interface TrainArgs {
+  source: 'db' | 'zip'
+  zipPath?: string
+  limit: number
+  seed: string
+  minPrice: number
+  since?: string
+  lambda: number
+  out: string
+}
+
+function parseArgs(argv: string[]): TrainArgs {
+  const options: TrainArgs = {
+    source: 'db',
+    limit: 100000,
+    seed: 'price-model',
+    minPrice: 1,
+    lambda: 1,
+    out: path.join('data', 'price-model.json')
+  }
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=')
+    if (flag === '--source') options.source = value === 'zip' ? 'zip' : 'db'
+    else if (flag === '--zip') options.zipPath = value
+    else if (flag === '--limit') options.limit = parseInt(value, 10)
+    else if (flag === '--seed') options.seed = value
+    else if (flag === '--min-price') options.minPrice = parseInt(value, 10)
+    else if (flag === '--since') options.since = value
+    else if (flag === '--lambda') options.lambda = parseFloat(value)
+    else if (flag === '--out') options.out = value
+  }
+  return options
+}
+
+async function loadSales(args: TrainArgs): Promise<PriceModelSale[]> {
+  if (args.source === 'zip') {
+    const zipPath = args.zipPath || path.join(__dirname, '../../data/domainnamesales.zip')
+    const { sales } = await readBundledSales(zipPath)
+    return (sales as PriceModelSale[]).filter(sale => sale.price >= args.minPrice)
+  }
+
+  await initDatabase()
+  return getStorage().domainSales.sample({
+    limit: args.limit,
+    seed: args.seed,
+    minPrice: args.minPrice,
+    since: args.since
+  })
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  const sales = await loadSales(args)
+  console.log(`Training on ${sales.length} sales from ${args.source === 'zip' ? 'the bundled archive' : 'domain_sales'}`)
+
+  const model = trainPriceModel(sales, { lambda: args.lambda, since: args.since })
+
+  const outPath = path.resolve(args.out)
+  fs.writeFileSync(outPath, JSON.stringify(model, null, 2) + '\n')
+
+  console.log(`Price model ${model.version}: ${model.trainingRows} training rows, ${model.metrics.holdoutRows} held out`)
+  console.log(`Holdout R^2 (log price):     ${model.metrics.rSquared.toFixed(3)}`)
+  console.log(`Holdout median abs % error:  ${(model.metrics.medianAbsPctError * 100).toFixed(1)}%`)
+  console.log(`Written to ${outPath}`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    process.stderr.write(`Training failed: ${error instanceof Error ? error.stack : String(error)}\n`)
+    process.exit(1)
+  })
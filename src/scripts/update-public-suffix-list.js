@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+// Refresh the bundled Public Suffix List snapshot (data/public-suffix-list.json) from publicsuffix.org.
+// Only the ICANN section is kept: names under private suffixes (github.io, blogspot.com, ...)
+// are subdomains of someone else's domain and are not for sale. Unicode rules are stored
+// in punycode form, matching how domains are normalized before lookup.
+//
+// Usage:
+//   node src/scripts/update-public-suffix-list.js [--url=https://publicsuffix.org/list/public_suffix_list.dat]
+//   node src/scripts/update-public-suffix-list.js --file=path/to/public_suffix_list.dat
+
+const fs = require('fs');
+const path = require('path');
+const { domainToASCII } = require('url');
+
+const DEFAULT_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT_PATH = path.join(__dirname, '../../data/public-suffix-list.json');
+
+/**
+ * Rules from the ICANN section of a public_suffix_list.dat file, in punycode form
+ */
+function parsePublicSuffixList(text) {
+  const rules = [];
+  let inIcannSection = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.includes('===BEGIN ICANN DOMAINS===')) inIcannSection = true;
+    if (line.includes('===END ICANN DOMAINS===')) break;
+    if (!inIcannSection || !line || line.startsWith('//')) continue;
+
+    // Rules end at the first whitespace; "!" marks an exception and "*." a wildcard
+    const rule = line.split(/\s/)[0];
+    const prefix = rule.match(/^(!|\*\.)?/)[0];
+    const ascii = domainToASCII(rule.slice(prefix.length));
+    if (ascii) rules.push(prefix + ascii);
+  }
+
+  return rules;
+}
+
+async function readList({ url = DEFAULT_URL, file } = {}) {
+  if (file) return { text: fs.readFileSync(file, 'utf8'), source: path.basename(file) };
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Public Suffix List download failed with HTTP ${response.status}`);
+  }
+  return { text: await response.text(), source: url };
+}
+
+async function updatePublicSuffixList(options) {
+  const { text, source } = await readList(options);
+  const rules = parsePublicSuffixList(text);
+  if (rules.length < 1000) {
+    throw new Error(`Only ${rules.length} ICANN rules found - refusing to overwrite the bundled copy`);
+  }
+
+  // One rule per line keeps diffs between refreshes readable
+  const lines = rules.map((rule) => `    ${JSON.stringify(rule)}`).join(',\n');
+  const updated = new Date().toISOString().slice(0, 10);
+  fs.writeFileSync(
+    OUTPUT_PATH,
+    `{\n  "source": ${JSON.stringify(source)},\n  "updated": "${updated}",\n  "rules": [\n${lines}\n  ]\n}\n`
+  );
+
+  const wildcards = rules.filter((rule) => rule.startsWith('*.')).length;
+  const exceptions = rules.filter((rule) => rule.startsWith('!')).length;
+  console.log(`Wrote ${rules.length} rules (${wildcards} wildcard, ${exceptions} exception) to ${OUTPUT_PATH}`);
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const urlArg = args.find((arg) => arg.startsWith('--url='));
+  const fileArg = args.find((arg) => arg.startsWith('--file='));
+  updatePublicSuffixList({
+    url: urlArg ? urlArg.slice('--url='.length) : undefined,
+    file: fileArg ? fileArg.slice('--file='.length) : undefined
+  })
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Public Suffix List update failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { updatePublicSuffixList, parsePublicSuffixList };
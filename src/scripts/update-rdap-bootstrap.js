@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+// Refresh the bundled RDAP bootstrap file (data/rdap-dns.json) from IANA.
+//
+// Usage:
+//   node src/scripts/update-rdap-bootstrap.js [--url=https://data.iana.org/rdap/dns.json]
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_URL = 'https://data.iana.org/rdap/dns.json';
+const OUTPUT_PATH = path.join(__dirname, '../../data/rdap-dns.json');
+
+async function updateRdapBootstrap(url = DEFAULT_URL) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Bootstrap download failed with HTTP ${response.status}`);
+  }
+
+  const bootstrap = await response.json();
+  if (!Array.isArray(bootstrap.services) || bootstrap.services.length === 0) {
+    throw new Error('Downloaded file has no services - refusing to overwrite the bundled copy');
+  }
+
+  // One service per line keeps diffs between refreshes readable
+  const services = bootstrap.services.map((service) => `    ${JSON.stringify(service)}`).join(',\n');
+  const header = Object.entries(bootstrap)
+    .filter(([key]) => key !== 'services')
+    .map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)},\n`)
+    .join('');
+  fs.writeFileSync(OUTPUT_PATH, `{\n${header}  "services": [\n${services}\n  ]\n}\n`);
+
+  const tldCount = bootstrap.services.reduce((sum, [tlds]) => sum + tlds.length, 0);
+  console.log(`Wrote ${tldCount} TLDs from ${bootstrap.services.length} services to ${OUTPUT_PATH}`);
+}
+
+if (require.main === module) {
+  const urlArg = process.argv.slice(2).find((arg) => arg.startsWith('--url='));
+  updateRdapBootstrap(urlArg ? urlArg.slice('--url='.length) : undefined)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('RDAP bootstrap update failed:', error);
+      process.exit(1);
+    });
+}
+
+module.exports = { updateRdapBootstrap };
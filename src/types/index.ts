@@ -1,3 +1,5 @@
+export type WhoisDataSource = 'rdap' | 'whois' | 'ip2whois' | 'ai_estimate'
+
 export interface WhoisData {
   domain: string
   isAvailable: boolean
@@ -10,39 +12,217 @@ export interface WhoisData {
   ageInYears?: number
   status?: string
   lastUpdated?: string
+  fallbackReason?: string
+  // Provenance: where the data came from, when it was fetched and how reliable it is (0-100)
+  dataSource?: WhoisDataSource
+  fetchedAt?: string
+  confidence?: number
 }
 
 export interface DomainAppraisal {
   domain: string
   finalScore: number
   bracket: string
-  priceEstimate: {
-    investor: string
-    retail: string
-    explanation: string
-  }
+  priceEstimate: PriceEstimate
   breakdown: FactorBreakdown[]
   comps?: ComparableSale[]
   legalFlag: 'clear' | 'warning' | 'severe'
   aiComment: string
+  words?: string[] // Name split into words, e.g. ["cloud", "bank"]
+  pattern?: DomainPattern
+  idn?: IDNInfo // Only for internationalized names; `domain` is always the ASCII form
+  tld?: TLDMetadata
+  holdingCost?: HoldingCost
+  extensionLandscape?: ExtensionLandscape // Only when requested with `checkExtensions`
   whoisData?: WhoisData
+  weighting?: AppliedWeighting
+  dataQuality?: DataQuality
   createdAt?: string
 }
 
+export interface PriceEstimate {
+  investor: string // Display strings formatted for a locale, e.g. "$1,250" or "1.150 €"
+  retail: string
+  investorAmount: number
+  retailAmount: number
+  currency: string // ISO 4217 code of the amounts, the range and the display strings
+  explanation: string
+  range?: PriceRange // Missing on appraisals stored before ranges were added
+}
+
+// Numeric price range in the estimate's currency; mid is the retail estimate
+export interface PriceRange {
+  low: number
+  mid: number
+  high: number
+}
+
+// How an appraisal input was obtained: looked up or supplied, estimated (e.g. by AI), or a default
+export type DataQualityLevel = 'verified' | 'estimated' | 'fallback'
+
+export interface DataQualityInput {
+  input: 'whois' | 'age' | 'traffic' | 'brandability' | 'comps' | 'legal'
+  source: string // e.g. "rdap", "user_provided", "ai_estimate", "database"
+  level: DataQualityLevel
+  detail?: string
+}
+
+// Overall confidence (0-100) in an appraisal, from the quality of its inputs
+export interface DataQuality {
+  confidence: number
+  inputs: DataQualityInput[]
+}
+
+// Internationalized domain name details, see src/lib/idn.ts
+export interface IDNInfo {
+  ascii: string // Punycode (A-label) form, e.g. "xn--mnchen-3ya.de"
+  unicode: string // Display form, e.g. "münchen.de"
+  scripts: string[] // Unicode scripts in the name, e.g. ["Latin"]
+  mixedScript: boolean // Scripts that are not normally combined, e.g. Latin + Cyrillic
+  homograph: boolean // Renders like an ASCII name using lookalike characters
+  lookalike?: string // The ASCII name it can pass for
+  length: number // User-perceived characters in the name
+}
+
+// What is known about a TLD, see src/lib/tld-metadata.ts. Prices are typical retail in USD.
+export type TLDType = 'generic' | 'ccTLD' | 'brand' | 'restricted'
+
+export interface TLDPremiumTier {
+  name: string
+  registrationPrice: number
+  renewalPrice: number // Premium names often renew at a premium too
+}
+
+export interface TLDMetadata {
+  tld: string
+  type: TLDType
+  launched?: string // Delegation date (ISO)
+  registrationPrice: number
+  renewalPrice: number
+  premiumTiers?: TLDPremiumTier[] // Registry-priced premium names, when the registry has them
+  restrictions?: string // Who may register, e.g. "EU/EEA residents and companies"
+  reputation: 'good' | 'neutral' | 'poor' // Abuse reputation (spam and phishing share)
+  country?: string // ISO 3166 code for ccTLDs
+  known: boolean // false when inferred from the TLD's shape rather than the metadata table
+}
+
+// Cost of keeping a domain registered, in `currency`
+export interface HoldingCost {
+  annual: number
+  fiveYear: number
+  currency: string
+  premiumRenewal: boolean // The name may be a registry premium with a higher renewal than `annual`
+}
+
+// The same second-level name under other TLDs, see src/lib/extension-landscape.ts
+export type ExtensionUsage = 'active' | 'parked' // parked covers lander, for-sale and non-resolving names
+
+export interface ExtensionCheck {
+  domain: string
+  tld: string
+  status: 'registered' | 'available' | 'unknown' // unknown when the registry could not be reached
+  usage?: ExtensionUsage // Registered names only
+  registrar?: string
+  registrationDate?: string
+}
+
+export interface ExtensionLandscape {
+  checked: ExtensionCheck[]
+  registeredCount: number
+  comStatus?: ExtensionUsage | 'available' | 'unknown' // Who holds the .com, for names on other TLDs
+  multiplier: number // Applied to the final score
+  explanation: string
+}
+
+// How a name imitates a brand, see src/lib/trademark-risk.ts
+export type TrademarkTechnique = 'exact' | 'homoglyph' | 'typo' | 'keyboard-typo' | 'embedded' | 'hyphenated'
+
+export interface TrademarkMatch {
+  brand: string
+  technique: TrademarkTechnique
+  flag: 'warning' | 'severe'
+  multiplier: number
+  score: number
+  detail: string // e.g. "\"paypa1\" imitates paypal with lookalike characters"
+  registrations?: string[] // Matching filings, e.g. ["USPTO 3123456"]
+  classes?: number[] // Nice classes of those filings
+}
+
+// One trademark filing, see src/lib/trademark-store.ts
+export type TrademarkStatus = 'registered' | 'pending' | 'dead'
+
+export interface TrademarkRecord {
+  mark: string // As filed, e.g. "PayPal"
+  normalized: string // Lowercase letters and digits only, e.g. "paypal"
+  office: string // "USPTO", "EUIPO", or "builtin" for the bundled well-known marks
+  registrationNumber?: string // Registration number, or the application/serial number while pending
+  owner?: string
+  classes: number[] // Nice classes; empty when unknown
+  status: TrademarkStatus
+  famous?: boolean // Well-known mark, protected across classes and checked for typos and lookalikes
+  commonWord?: boolean // Also an everyday word ("apple"), so only flagged inside compounds next to phishing words
+}
+
+// Investor-style name pattern, see src/lib/domain-pattern.ts
+export type DomainPattern =
+  | 'L' | 'LL' | 'LLL' | 'LLLL'
+  | 'N' | 'NN' | 'NNN' | 'NNNN' | 'NNNNN' | 'numeric'
+  | 'CVCV' | 'CVCCV'
+  | 'dictionary' | 'two-word' | 'multi-word'
+  | 'acronym' | 'brandable'
+  | 'alphanumeric' | 'idn' | 'hyphenated' | 'unclassified'
+
+export interface BatchAppraisalItem {
+  domain: string
+  status: 'ok' | 'error'
+  cached?: boolean
+  appraisal?: DomainAppraisal
+  error?: string
+}
+
+// Server-Sent Events from /api/appraise/stream, in the order they are sent
+export type AppraisalStreamEvent =
+  | { event: 'start'; data: { domain: string; factors: string[] } }
+  | { event: 'factor'; data: FactorBreakdown }
+  | { event: 'complete'; data: DomainAppraisal & { cached: boolean } }
+  | { event: 'error'; data: { error: string } }
+
+export interface BatchAppraisalResult {
+  total: number
+  succeeded: number
+  failed: number
+  results: BatchAppraisalItem[]
+}
+
 export interface FactorBreakdown {
   factor: string
   score: number
   weight: number
   contribution: number
   description?: string
+  reasons?: FactorReason[] // Why the factor scored what it did, in the order the rules applied
+}
+
+// One step behind a factor's score, see src/lib/factor-reasons.ts
+export interface FactorReason {
+  kind: 'base' | 'adjustment' | 'source'
+  text: string // e.g. "Contains a hyphen"
+  points?: number // Starting score for 'base', change in score for 'adjustment'; none for 'source'
+}
+
+// A factor's score with the reasons behind it
+export interface FactorScore {
+  score: number
+  reasons: FactorReason[]
 }
 
 export interface ComparableSale {
   domain: string
-  soldPrice: number
+  soldPrice: number // In the appraisal's priceEstimate.currency
   soldDate: string
   source: string
   similarity?: number
+  synthetic?: boolean // Generated by AI/heuristics rather than a recorded sale
 }
 
 export interface ValuationFactors {
@@ -74,6 +254,18 @@ export interface AppraisalOptions {
   userTraffic?: number
   country?: string
   useComps?: boolean
+  weightProfile?: string // Named profile, see src/lib/weight-profiles.ts
+  weights?: FactorWeights // Custom weights summing to 1; take precedence over weightProfile
+  currency?: string // ISO 4217 code to convert prices to, see data/exchange-rates.json
+  locale?: string // BCP 47 locale for the formatted price strings, e.g. "de-DE"
+  checkExtensions?: boolean // Look up the same name on other TLDs, see ExtensionLandscape
+}
+
+// The weighting an appraisal was scored with
+export interface AppliedWeighting {
+  profile: string // Profile name, or "custom" for caller-supplied weights
+  weights: FactorWeights
+  scoreScale?: number // Multiplier on the weighted score, when the profile has one
 }
 
 export interface IndustryKeyword {